@@ -3,8 +3,16 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  RootsListChangedNotificationSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import { z } from 'zod';
+import * as path from 'path';
 
 // Import MCP tools (no CLI/UI dependencies!)
 import {
@@ -16,9 +24,21 @@ import {
   SessionsTool,
   AbortTool,
   SwapTool,
+  SyncTool,
   CleanupTool,
   HotfixTool,
+  ReleaseTool,
+  BackportTool,
+  JobStatusTool,
+  JobCancelTool,
 } from './tools';
+import { BaseToolResult, QueryToolResult } from './tools/base-tool';
+import { ToolRegistry, RegisteredTool } from './tool-registry';
+import { ResourceProvider } from './resource-provider';
+import { PromptProvider } from './prompt-provider';
+import { JobManager } from './job-manager';
+import { McpHttpServer, TransportOptions, resolveTransportOptions } from './http-transport';
+import { Repository, RepositoryManager } from './repository-manager';
 
 // Import services
 import { GitOperations } from '../services/git-operations';
@@ -28,92 +48,31 @@ import { BranchNamingService } from '../services/branch-naming';
 import { BranchValidator } from '../services/validation/branch-validator';
 import { GitHubIntegration } from '../services/github-integration';
 import { StashManager } from '../services/stash-manager';
-
-// Tool parameter schemas
-const InitSchema = z.object({
-  scope: z.enum(['project', 'user']).optional(),
-  auto: z.boolean().optional(),
-  force: z.boolean().optional(),
-  enableStatusLine: z.boolean().optional(),
-  statusLineScope: z.enum(['local', 'team']).optional(),
-});
-
-const LaunchSchema = z.object({
-  description: z.string().optional(),
-  branchName: z.string().optional(),
-  auto: z.boolean().optional(),
-  stashRef: z.string().optional(),
-  popStash: z.boolean().optional(),
-});
-
-const SessionsSchema = z.object({
-  all: z.boolean().optional(),
-  verbose: z.boolean().optional(),
-  cleanup: z.boolean().optional(),
-  auto: z.boolean().optional(),
-});
-
-const SwapSchema = z.object({
-  branchName: z.string(),
-  auto: z.boolean().optional(),
-  stash: z.boolean().optional(),
-});
-
-const AbortSchema = z.object({
-  branchName: z.string().optional(),
-  auto: z.boolean().optional(),
-  deleteBranch: z.boolean().optional(),
-});
-
-const CommitSchema = z.object({
-  message: z.string().optional(),
-  auto: z.boolean().optional(),
-  stagedOnly: z.boolean().optional(),
-});
-
-const ShipSchema = z.object({
-  prDescription: z.string().optional(),
-  push: z.boolean().optional(),
-  createPR: z.boolean().optional(),
-  merge: z.boolean().optional(),
-  auto: z.boolean().optional(),
-  stagedOnly: z.boolean().optional(),
-});
-
-const HotfixSchema = z.object({
-  issue: z.string().optional(),
-  severity: z.enum(['critical', 'high', 'medium']).optional(),
-  skipTests: z.boolean().optional(),
-  skipReview: z.boolean().optional(),
-  autoMerge: z.boolean().optional(),
-  auto: z.boolean().optional(),
-});
-
-
-const CleanupSchema = z.object({
-  deleteBranches: z.boolean().optional(),
-  auto: z.boolean().optional(),
-});
-
-const StatusSchema = z.object({
-});
+import { PlannedStep } from '../services/dry-run';
+
+/**
+ * Services for one repository; tools are constructed from these
+ */
+interface RepositoryServices {
+  root: string;
+  basePath: string; // Absolute .devsolo path inside the repository
+  gitOps: GitOperations;
+  sessionRepo: SessionRepository;
+  configManager: ConfigurationManager;
+  branchNaming: BranchNamingService;
+  branchValidator: BranchValidator;
+  githubIntegration: GitHubIntegration;
+  stashManager: StashManager;
+}
 
 export class DevSoloMCPServer {
   private server: Server;
+  private resources: ResourceProvider;
+  private prompts: PromptProvider;
+  private repositories: RepositoryManager;
+  private extraTools: RegisteredTool[] = [];
 
-  // MCP Tools
-  private initTool: InitTool;
-  private launchTool: LaunchTool;
-  private shipTool: ShipTool;
-  private commitTool: CommitTool;
-  private infoTool: InfoTool;
-  private sessionsTool: SessionsTool;
-  private abortTool: AbortTool;
-  private swapTool: SwapTool;
-  private cleanupTool: CleanupTool;
-  private hotfixTool: HotfixTool;
-
-  constructor(basePath: string = '.devsolo') {
+  constructor(private basePath: string = '.devsolo') {
     // Detect plugin context
     const isPluginMode = !!process.env['CLAUDE_PLUGIN_ROOT'];
     const pluginRoot = process.env['CLAUDE_PLUGIN_ROOT'] || '';
@@ -122,30 +81,86 @@ export class DevSoloMCPServer {
       console.error(`devsolo running in plugin mode: ${pluginRoot}`);
     }
 
-    this.server = new Server(
-      {
-        name: 'devsolo',
-        version: '2.0.0',
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
+    // Primary repository: the working directory the server was started in
+    // (basePath is always relative to project root, not plugin root)
+    const primary = this.createServices(process.cwd());
+
+    // Expose sessions, config and audit log as resources
+    // Resources and prompts describe only the primary repository, never repoPath/roots
+    this.resources = new ResourceProvider(primary.sessionRepo, primary.configManager, basePath);
+
+    // Guided launch/commit/ship/hotfix/abort flows as prompts
+    this.prompts = new PromptProvider(primary.gitOps, primary.sessionRepo, primary.configManager);
+
+    // Primary server (stdio); HTTP clients each get their own via createServer()
+    this.server = this.createServer();
+
+    // Other repositories (repoPath / MCP roots) get their own services and tools on first use
+    this.repositories = new RepositoryManager(
+      this.createRepository(primary),
+      (root) => {
+        const repository = this.createRepository(this.createServices(root));
+        repository.jobs.resumeInterrupted().catch((error) => {
+          console.error(`Failed to resume background jobs in ${root}:`, error);
+        });
+        return repository;
       }
     );
+  }
 
-    // Initialize services (basePath is always relative to project root, not plugin root)
-    const gitOps = new GitOperations();
-    const sessionRepo = new SessionRepository(basePath);
+  /**
+   * Register an additional tool (e.g., from a plugin)
+   * Must be called before the server is connected to a transport
+   * The tool is bound to the services it was built with, so every repository
+   * dispatches to the same instance
+   */
+  registerTool(tool: RegisteredTool): void {
+    this.repositories.getPrimary().registry.register(tool);
+    this.extraTools.push(tool);
+  }
+
+  /**
+   * Create the service set for one repository
+   */
+  private createServices(root: string): RepositoryServices {
+    const basePath = path.resolve(root, this.basePath);
     const configManager = new ConfigurationManager(basePath);
-    const branchNaming = new BranchNamingService();
-    const branchValidator = new BranchValidator(basePath);
-    const githubIntegration = new GitHubIntegration(basePath);
-    const stashManager = new StashManager(basePath);
-
-    // Initialize MCP tools with dependencies
-    this.initTool = new InitTool(configManager, gitOps, this.server);
-    this.launchTool = new LaunchTool(
+    const gitOps = new GitOperations(root, {
+      trunkBranch: async () => (await configManager.load()).preferences?.trunkBranch,
+    });
+
+    return {
+      root,
+      basePath,
+      gitOps,
+      sessionRepo: new SessionRepository(basePath),
+      configManager,
+      branchNaming: new BranchNamingService(gitOps),
+      branchValidator: new BranchValidator(basePath, gitOps),
+      githubIntegration: new GitHubIntegration(basePath, gitOps),
+      stashManager: new StashManager(basePath, gitOps),
+    };
+  }
+
+  /**
+   * Register the MCP tools for one repository, bound to its services
+   */
+  private createRepository(services: RepositoryServices): Repository {
+    const {
+      root,
+      basePath,
+      gitOps,
+      sessionRepo,
+      configManager,
+      branchNaming,
+      branchValidator,
+      githubIntegration,
+      stashManager,
+    } = services;
+
+    const registry = new ToolRegistry();
+    registry.register(new InitTool(configManager, gitOps, this.server));
+    registry.register(new LaunchTool(
       gitOps,
       sessionRepo,
       branchNaming,
@@ -155,8 +170,13 @@ export class DevSoloMCPServer {
       configManager,
       basePath,
       this.server
-    );
-    this.shipTool = new ShipTool(
+    ));
+    registry.register(new SessionsTool(sessionRepo, configManager, this.server));
+    registry.register(new SwapTool(sessionRepo, gitOps, stashManager, configManager, this.server));
+    registry.register(new SyncTool(gitOps, sessionRepo, stashManager, configManager, this.server));
+    registry.register(new AbortTool(sessionRepo, gitOps, configManager, this.server));
+    registry.register(new CommitTool(gitOps, sessionRepo, configManager, this.server));
+    registry.register(new ShipTool(
       gitOps,
       sessionRepo,
       githubIntegration,
@@ -164,430 +184,97 @@ export class DevSoloMCPServer {
       configManager,
       basePath,
       this.server
+    ));
+    registry.register(new HotfixTool(gitOps, sessionRepo, configManager, githubIntegration, this.server));
+    registry.register(new ReleaseTool(gitOps, sessionRepo, githubIntegration, configManager, this.server));
+    registry.register(new BackportTool(gitOps, sessionRepo, githubIntegration, configManager, this.server));
+    registry.register(new InfoTool(sessionRepo, gitOps, githubIntegration, configManager, this.server));
+    registry.register(new CleanupTool(sessionRepo, gitOps, configManager, this.server));
+
+    // Background jobs (background: true) and their status/cancel tools
+    const jobs = new JobManager(registry, sessionRepo, gitOps, basePath);
+    registry.register(new JobStatusTool(jobs, configManager, this.server));
+    registry.register(new JobCancelTool(jobs, configManager, this.server));
+
+    for (const tool of this.extraTools) {
+      registry.register(tool);
+    }
+
+    return { root, gitOps, sessionRepo, configManager, registry, jobs };
+  }
+
+  /**
+   * Create an MCP server bound to the shared registry and resources
+   * Services, caches and locks are shared by every server created here
+   */
+  private createServer(): Server {
+    const server = new Server(
+      {
+        name: 'devsolo',
+        version: '2.0.0',
+      },
+      {
+        capabilities: {
+          tools: {},
+          prompts: {},
+          resources: {
+            subscribe: true,
+            listChanged: true,
+          },
+        },
+      }
     );
-    this.commitTool = new CommitTool(gitOps, sessionRepo, configManager, this.server);
-    this.infoTool = new InfoTool(sessionRepo, gitOps, configManager, this.server);
-    this.sessionsTool = new SessionsTool(sessionRepo, configManager, this.server);
-    this.abortTool = new AbortTool(sessionRepo, gitOps, configManager, this.server);
-    this.swapTool = new SwapTool(sessionRepo, gitOps, stashManager, configManager, this.server);
-    this.cleanupTool = new CleanupTool(sessionRepo, gitOps, configManager, this.server);
-    this.hotfixTool = new HotfixTool(gitOps, sessionRepo, configManager, githubIntegration, this.server);
-
-    this.setupHandlers();
+
+    this.setupHandlers(server);
+    this.resources.attach(server);
+    return server;
   }
 
-  private setupHandlers(): void {
-    // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+  private setupHandlers(server: Server): void {
+    // List available tools (derived from each tool's Zod schema)
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
-        tools: [
-          {
-            name: 'devsolo_init',
-            description: '🚀 Initialize devsolo in your project',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                scope: {
-                  type: 'string',
-                  enum: ['project', 'user'],
-                  description: 'Installation scope (project or user)',
-                },
-                force: {
-                  type: 'boolean',
-                  description: 'Force reinitialization',
-                },
-                enableStatusLine: {
-                  type: 'boolean',
-                  description: 'Enable Claude Code status line (default: true)',
-                },
-                statusLineScope: {
-                  type: 'string',
-                  enum: ['local', 'team'],
-                  description: 'Status line scope: local (settings.local.json) or team (settings.json)',
-                },
-              },
-            },
-          },
-          {
-            name: 'devsolo_launch',
-            description: 'Start a new feature workflow',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                description: {
-                  type: 'string',
-                  description: 'Description of the feature',
-                },
-                branchName: {
-                  type: 'string',
-                  description: 'Name for the feature branch',
-                },
-                auto: {
-                  type: 'boolean',
-                  description: 'Automatically choose recommended options for prompts',
-                },
-                stashRef: {
-                  type: 'string',
-                  description: 'Git stash reference to restore after branch creation (e.g., stash@{0})',
-                },
-                popStash: {
-                  type: 'boolean',
-                  description: 'Whether to pop the stash (default: true if stashRef provided)',
-                },
-              },
-            },
-          },
-          {
-            name: 'devsolo_sessions',
-            description: 'List workflow sessions',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                all: {
-                  type: 'boolean',
-                  description: 'Show all sessions including completed',
-                },
-                verbose: {
-                  type: 'boolean',
-                  description: 'Show detailed session information',
-                },
-                cleanup: {
-                  type: 'boolean',
-                  description: 'Clean up expired sessions',
-                },
-              },
-            },
-          },
-          {
-            name: 'devsolo_swap',
-            description: 'Switch between workflow sessions',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                branchName: {
-                  type: 'string',
-                  description: 'Branch to swap to',
-                },
-                force: {
-                  type: 'boolean',
-                  description: 'Force swap even with changes',
-                },
-                stash: {
-                  type: 'boolean',
-                  description: 'Stash changes before swapping',
-                },
-              },
-              required: ['branchName'],
-            },
-          },
-          {
-            name: 'devsolo_abort',
-            description: 'Abort a workflow session',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                branchName: {
-                  type: 'string',
-                  description: 'Branch to abort (current if not specified)',
-                },
-                force: {
-                  type: 'boolean',
-                  description: 'Force abort',
-                },
-                deleteBranch: {
-                  type: 'boolean',
-                  description: 'Delete the branch after aborting',
-                },
-                yes: {
-                  type: 'boolean',
-                  description: 'Skip confirmation prompts',
-                },
-              },
-            },
-          },
-          {
-            name: 'devsolo_commit',
-            description: 'Commit changes with optional message. Use stagedOnly to commit only staged files.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                message: {
-                  type: 'string',
-                  description: 'Commit message (footer added automatically)',
-                },
-                auto: {
-                  type: 'boolean',
-                  description: 'Automatically choose recommended options for prompts',
-                },
-                stagedOnly: {
-                  type: 'boolean',
-                  description: 'If true, only commit staged files (use "git add" first). If false, stages and commits all changes.',
-                  default: false,
-                },
-              },
-            },
-          },
-          {
-            name: 'devsolo_ship',
-            description: 'Push, create PR, merge, and cleanup (requires all changes committed)',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                prDescription: {
-                  type: 'string',
-                  description: 'Pull request description (footer added automatically)',
-                },
-                push: {
-                  type: 'boolean',
-                  description: 'Push to remote',
-                },
-                createPR: {
-                  type: 'boolean',
-                  description: 'Create pull request',
-                },
-                merge: {
-                  type: 'boolean',
-                  description: 'Merge to main',
-                },
-                auto: {
-                  type: 'boolean',
-                  description: 'Automatically choose recommended options for prompts',
-                },
-                stagedOnly: {
-                  type: 'boolean',
-                  description: 'If true, only commit staged files when committing changes. If false, stages and commits all changes.',
-                  default: false,
-                },
-              },
-            },
-          },
-          {
-            name: 'devsolo_hotfix',
-            description: 'Create emergency hotfix workflow',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                issue: {
-                  type: 'string',
-                  description: 'Issue number or description',
-                },
-                severity: {
-                  type: 'string',
-                  enum: ['critical', 'high', 'medium'],
-                  description: 'Severity level of the hotfix',
-                },
-                skipTests: {
-                  type: 'boolean',
-                  description: 'Skip running tests',
-                },
-                skipReview: {
-                  type: 'boolean',
-                  description: 'Skip code review',
-                },
-                autoMerge: {
-                  type: 'boolean',
-                  description: 'Automatically merge when checks pass',
-                },
-                auto: {
-                  type: 'boolean',
-                  description: 'Automatically choose recommended options for prompts',
-                },
-              },
-            },
-          },
-          {
-            name: 'devsolo_info',
-            description: 'Show current workflow information',
-            inputSchema: {
-              type: 'object',
-              properties: {},
-            },
-          },
-          {
-            name: 'devsolo_cleanup',
-            description: 'Clean up expired sessions and stale branches',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                deleteBranches: {
-                  type: 'boolean',
-                  description: 'Delete stale branches',
-                },
-                force: {
-                  type: 'boolean',
-                  description: 'Force cleanup',
-                },
-              },
-            },
-          },
-        ],
+        tools: this.repositories.getPrimary().registry.list(),
       };
     });
 
+    // Re-read the client's roots on the next tool call
+    server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+      this.repositories.forgetRoots(server);
+    });
+
     // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
 
-      // Preprocess args to convert string booleans to actual booleans
-      const processedArgs: any = {};
-      if (args) {
-        Object.entries(args).forEach(([key, value]) => {
-          if (value === 'true') {
-            processedArgs[key] = true;
-          } else if (value === 'false') {
-            processedArgs[key] = false;
-          } else {
-            processedArgs[key] = value;
-          }
-        });
-      }
+      // Forward tool progress as notifications/progress when the client asked for it
+      const progressToken = request.params._meta?.progressToken;
+      let progress = 0;
+      const onProgress = progressToken === undefined ? undefined : (message: string) => {
+        progress++;
+        extra.sendNotification({
+          method: 'notifications/progress',
+          params: { progressToken, progress, message },
+        }).catch(() => { /* client may have disconnected */ });
+      };
 
       try {
-        switch (name) {
-        case 'devsolo_init': {
-          const params = InitSchema.parse(processedArgs);
-          const result = await this.initTool.execute(params);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: this.formatToolResult(result),
-              },
-            ],
-            isError: !result.success,
-          };
-        }
-
-        case 'devsolo_launch': {
-          const params = LaunchSchema.parse(processedArgs);
-          const result = await this.launchTool.execute(params);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: this.formatToolResult(result),
-              },
-            ],
-            isError: !result.success,
-          };
-        }
-
-        case 'devsolo_sessions': {
-          const params = SessionsSchema.parse(processedArgs);
-          const result = await this.sessionsTool.execute(params);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: this.formatToolResult(result),
-              },
-            ],
-            isError: !result.success,
-          };
-        }
-
-        case 'devsolo_swap': {
-          const params = SwapSchema.parse(processedArgs);
-          const result = await this.swapTool.execute(params);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: this.formatToolResult(result),
-              },
-            ],
-            isError: !result.success,
-          };
-        }
-
-        case 'devsolo_abort': {
-          const params = AbortSchema.parse(processedArgs);
-          const result = await this.abortTool.execute(params);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: this.formatToolResult(result),
-              },
-            ],
-            isError: !result.success,
-          };
-        }
-
-        case 'devsolo_commit': {
-          const params = CommitSchema.parse(processedArgs);
-          const result = await this.commitTool.execute(params);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: this.formatToolResult(result),
-              },
-            ],
-            isError: !result.success,
-          };
-        }
-
-        case 'devsolo_ship': {
-          const params = ShipSchema.parse(processedArgs);
-          const result = await this.shipTool.execute(params);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: this.formatToolResult(result),
-              },
-            ],
-            isError: !result.success,
-          };
-        }
-
-        case 'devsolo_info': {
-          const params = StatusSchema.parse(processedArgs);
-          const result = await this.infoTool.execute(params);
-
-          return {
-            content: [
-              {
-                type: 'text',
-                text: this.formatToolResult(result),
-              },
-            ],
-            isError: !result.success,
-          };
-        }
-
-        case 'devsolo_cleanup': {
-          const params = CleanupSchema.parse(processedArgs);
-          const result = await this.cleanupTool.execute(params);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: this.formatToolResult(result),
-              },
-            ],
-            isError: !result.success,
-          };
-        }
-
-        case 'devsolo_hotfix': {
-          const params = HotfixSchema.parse(processedArgs);
-          const result = await this.hotfixTool.execute(params);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: this.formatToolResult(result),
-              },
-            ],
-            isError: !result.success,
-          };
-        }
-
-        default:
-          throw new Error(`Unknown tool: ${name}`);
-        }
+        const { background, repoPath, ...toolArgs } = args || {};
+        const repository = await this.resolveRepository(server, name, repoPath);
+        const result = background === true || background === 'true'
+          ? await this.startJob(repository, name, toolArgs)
+          : await repository.registry.call(name, toolArgs, { signal: extra.signal, onProgress });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: this.formatToolResult(result),
+            },
+          ],
+          // Same result as JSON, matching the tool's outputSchema
+          structuredContent: JSON.parse(JSON.stringify(result)) as Record<string, unknown>,
+          isError: !result.success,
+        };
       } catch (error) {
         return {
           content: [
@@ -600,6 +287,80 @@ export class DevSoloMCPServer {
         };
       }
     });
+
+    // Prompts (guided workflows built from templates and repository context)
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return {
+        prompts: this.prompts.listPrompts(),
+      };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      return this.prompts.getPrompt(request.params.name, request.params.arguments);
+    });
+
+    // Resources (read-only views of .devsolo state)
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return {
+        resources: await this.resources.listResources(),
+      };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: this.resources.listResourceTemplates(),
+      };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      return this.resources.readResource(request.params.uri);
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      await this.resources.subscribe(request.params.uri, server);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.resources.unsubscribe(request.params.uri, server);
+      return {};
+    });
+  }
+
+  /**
+   * Pick the repository a tool call runs against (repoPath, else MCP roots, else cwd)
+   */
+  private async resolveRepository(server: Server, name: string, repoPath: unknown): Promise<Repository> {
+    if (repoPath !== undefined) {
+      if (typeof repoPath !== 'string') {
+        throw new Error('repoPath must be a string');
+      }
+      if (this.repositories.getPrimary().registry.get(name)?.supportsRepoPath === false) {
+        throw new Error(`${name} does not accept repoPath; run it from the repository root`);
+      }
+    }
+    return this.repositories.resolve(server, repoPath);
+  }
+
+  /**
+   * Start a tool as a background job and describe how to follow it
+   */
+  private async startJob(repository: Repository, name: string, args: Record<string, unknown>): Promise<BaseToolResult> {
+    const job = await repository.jobs.start(name, args);
+    const result: QueryToolResult = {
+      success: true,
+      message: `Started ${name} as background job ${job.id}`,
+      data: {
+        jobId: job.id,
+        tool: name,
+        status: job.status,
+      },
+      nextSteps: [
+        `Poll devsolo_job_status with jobId "${job.id}" for progress and the final result`,
+        `Stop it with devsolo_job_cancel with jobId "${job.id}"`,
+      ],
+    };
+    return result;
   }
 
   /**
@@ -680,6 +441,14 @@ export class DevSoloMCPServer {
       });
     }
 
+    // Dry-run plan
+    if (result.plan && result.plan.length > 0) {
+      lines.push('\n📝 Plan (not executed):');
+      result.plan.forEach((step: PlannedStep, index: number) => {
+        lines.push(`  ${index + 1}. [${step.kind}] ${step.description}`);
+      });
+    }
+
     // Post-flight verifications
     if (result.postFlightVerifications && result.postFlightVerifications.length > 0) {
       lines.push('\n✅ Post-flight Verifications:');
@@ -710,7 +479,24 @@ export class DevSoloMCPServer {
     return lines.join('\n');
   }
 
-  async run(): Promise<void> {
+  /**
+   * Start the server on stdio (default) or, when opted in, Streamable HTTP + legacy SSE
+   */
+  async run(options: TransportOptions = resolveTransportOptions()): Promise<void> {
+    // Pick up background jobs interrupted by a previous shutdown
+    try {
+      const resumed = await this.repositories.getPrimary().jobs.resumeInterrupted();
+      if (resumed.length > 0) {
+        console.error(`Resumed ${resumed.length} background job(s)`);
+      }
+    } catch (error) {
+      console.error('Failed to resume background jobs:', error);
+    }
+
+    if (options.transport === 'http') {
+      return this.runHttp(options);
+    }
+
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
 
@@ -734,6 +520,7 @@ export class DevSoloMCPServer {
         if (originalOnClose) {
           originalOnClose.call(transport);
         }
+        this.resources.close();
         resolve();
       };
 
@@ -745,6 +532,36 @@ export class DevSoloMCPServer {
       process.once('SIGTERM', shutdown);
     });
   }
+
+  /**
+   * Serve many clients from one long-lived process
+   */
+  private async runHttp(options: TransportOptions): Promise<void> {
+    // The primary server is never connected in HTTP mode
+    this.resources.detach(this.server);
+
+    const httpServer = new McpHttpServer(
+      () => this.createServer(),
+      (server) => this.resources.detach(server),
+      { host: options.host, port: options.port }
+    );
+    const address = await httpServer.start();
+
+    console.error(
+      `devsolo MCP server v2.0.0 listening on http://${address.host}:${address.port}/mcp (SSE: /sse)`
+    );
+
+    return new Promise<void>((resolve) => {
+      const shutdown = () => {
+        httpServer.close().then(() => {
+          this.resources.close();
+          resolve();
+        });
+      };
+      process.once('SIGINT', shutdown);
+      process.once('SIGTERM', shutdown);
+    });
+  }
 }
 
 // Export for use as a library
@@ -0,0 +1,245 @@
+import * as http from 'http';
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+export const DEFAULT_HTTP_PORT = 3717;
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+
+/**
+ * Transport selection for the MCP server
+ */
+export interface TransportOptions {
+  transport: 'stdio' | 'http';
+  host: string;
+  port: number;
+}
+
+/**
+ * Resolve transport options from command-line arguments and environment
+ * Flags: --http, --host <address>, --port <number>
+ * Env:   DEVSOLO_MCP_TRANSPORT=http, DEVSOLO_MCP_HOST, DEVSOLO_MCP_PORT
+ * Flags take precedence over environment; stdio is the default
+ */
+export function resolveTransportOptions(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): TransportOptions {
+  const flag = (name: string): string | undefined => {
+    const index = argv.indexOf(name);
+    return index >= 0 ? argv[index + 1] : undefined;
+  };
+
+  const host = flag('--host') || env['DEVSOLO_MCP_HOST'] || DEFAULT_HTTP_HOST;
+  const portValue = flag('--port') || env['DEVSOLO_MCP_PORT'];
+  const port = portValue ? parseInt(portValue, 10) : DEFAULT_HTTP_PORT;
+  if (isNaN(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${portValue}`);
+  }
+
+  const useHttp = argv.includes('--http') || env['DEVSOLO_MCP_TRANSPORT'] === 'http';
+
+  return {
+    transport: useHttp ? 'http' : 'stdio',
+    host,
+    port,
+  };
+}
+
+/**
+ * HTTP host for the MCP server
+ * - POST/GET/DELETE /mcp   Streamable HTTP (one MCP session per client)
+ * - GET /sse + POST /messages   legacy HTTP+SSE transport
+ *
+ * Every client session gets its own Server instance from createServer, so all
+ * clients share the tool registry, repositories and locks of one process
+ */
+export class McpHttpServer {
+  private httpServer: http.Server | null = null;
+  private streamable: Map<string, StreamableHTTPServerTransport> = new Map();
+  private sse: Map<string, SSEServerTransport> = new Map();
+  private port: number;
+
+  constructor(
+    private createServer: () => Server,
+    private releaseServer: (server: Server) => void,
+    private options: { host: string; port: number }
+  ) {
+    this.port = options.port;
+  }
+
+  /**
+   * Start listening; resolves with the bound address
+   */
+  async start(): Promise<{ host: string; port: number }> {
+    this.httpServer = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error('MCP HTTP request failed:', error);
+        if (!res.headersSent) {
+          this.sendError(res, 500, 'Internal server error');
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(this.options.port, this.options.host, () => {
+        this.httpServer!.off('error', reject);
+        resolve();
+      });
+    });
+
+    const address = this.httpServer.address();
+    if (typeof address === 'object' && address) {
+      this.port = address.port;
+    }
+    return { host: this.options.host, port: this.port };
+  }
+
+  /**
+   * Close all client sessions and stop listening
+   */
+  async close(): Promise<void> {
+    const transports = [...this.streamable.values(), ...this.sse.values()];
+    await Promise.all(transports.map(t => t.close().catch(() => { /* already closed */ })));
+    this.streamable.clear();
+    this.sse.clear();
+
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = null;
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Number of connected client sessions
+   */
+  getSessionCount(): number {
+    return this.streamable.size + this.sse.size;
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    if (url.pathname === MCP_PATH) {
+      await this.handleStreamable(req, res);
+    } else if (url.pathname === SSE_PATH && req.method === 'GET') {
+      await this.handleSseConnect(res);
+    } else if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      await this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+    } else {
+      this.sendError(res, 404, 'Not found');
+    }
+  }
+
+  private async handleStreamable(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const body = req.method === 'POST' ? await this.readJson(req, res) : undefined;
+    if (body === null) {
+      return;
+    }
+
+    let transport = sessionId ? this.streamable.get(sessionId) : undefined;
+
+    if (!transport) {
+      if (sessionId || req.method !== 'POST' || !isInitializeRequest(body)) {
+        this.sendError(res, sessionId ? 404 : 400, sessionId ? 'Unknown session' : 'No valid session ID provided');
+        return;
+      }
+
+      const server = this.createServer();
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          this.streamable.set(id, newTransport);
+        },
+        ...this.dnsRebindingOptions(),
+      });
+      newTransport.onclose = () => {
+        if (newTransport.sessionId) {
+          this.streamable.delete(newTransport.sessionId);
+        }
+        this.releaseServer(server);
+      };
+      await server.connect(newTransport);
+      transport = newTransport;
+    }
+
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async handleSseConnect(res: http.ServerResponse): Promise<void> {
+    const server = this.createServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res, this.dnsRebindingOptions());
+    this.sse.set(transport.sessionId, transport);
+    transport.onclose = () => {
+      this.sse.delete(transport.sessionId);
+      this.releaseServer(server);
+    };
+    await server.connect(transport);
+  }
+
+  private async handleSseMessage(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    sessionId: string | null
+  ): Promise<void> {
+    const transport = sessionId ? this.sse.get(sessionId) : undefined;
+    if (!transport) {
+      this.sendError(res, 404, 'Unknown session');
+      return;
+    }
+    const body = await this.readJson(req, res);
+    if (body !== null) {
+      await transport.handlePostMessage(req, res, body);
+    }
+  }
+
+  /**
+   * Reject requests whose Host header doesn't match a loopback bind address
+   */
+  private dnsRebindingOptions(): { enableDnsRebindingProtection?: boolean; allowedHosts?: string[] } {
+    const { host } = this.options;
+    const port = this.port;
+    if (host !== '127.0.0.1' && host !== 'localhost') {
+      return {};
+    }
+    return {
+      enableDnsRebindingProtection: true,
+      allowedHosts: [`127.0.0.1:${port}`, `localhost:${port}`],
+    };
+  }
+
+  /**
+   * Read a JSON request body
+   * Returns null (after responding with a parse error) if the body is not valid JSON
+   */
+  private async readJson(req: http.IncomingMessage, res: http.ServerResponse): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    } catch {
+      this.sendError(res, 400, 'Parse error: invalid JSON', -32700);
+      return null;
+    }
+  }
+
+  private sendError(res: http.ServerResponse, status: number, message: string, code: number = -32000): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null,
+    }));
+  }
+}
@@ -0,0 +1,253 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { ToolRegistry } from './tool-registry';
+import { BaseToolResult } from './tools/base-tool';
+import { SessionRepository } from '../services/session-repository';
+import { GitOperations } from '../services/git-operations';
+import { BackgroundJob } from '../models/types';
+
+/**
+ * Runs mutating tools as background jobs
+ * - Jobs are persisted to .devsolo/jobs/<id>.json (progress, result, status)
+ * - Cancellation aborts the tool's signal; the tool stops at its next check
+ * - Jobs left 'running' by a previous server process are resumed from the
+ *   session state when the server starts again
+ */
+export class JobManager {
+  private jobsPath: string;
+  private active: Map<string, { job: BackgroundJob; controller: AbortController; done: Promise<void> }> = new Map();
+  private writes: Map<string, Promise<void>> = new Map();
+
+  constructor(
+    private registry: ToolRegistry,
+    private sessionRepo: SessionRepository,
+    private gitOps: GitOperations,
+    basePath: string = '.devsolo'
+  ) {
+    // Always resolve relative to current working directory (matches SessionRepository)
+    this.jobsPath = path.join(path.resolve(process.cwd(), basePath), 'jobs');
+  }
+
+  /**
+   * Validate arguments and start a tool as a background job
+   * Returns as soon as the job is recorded
+   */
+  async start(toolName: string, args: Record<string, unknown> = {}): Promise<BackgroundJob> {
+    const tool = this.registry.get(toolName);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${toolName}`);
+    }
+    if (!tool.supportsBackground) {
+      throw new Error(`${toolName} cannot run in the background`);
+    }
+    this.registry.prepare(toolName, args);
+
+    const branchName = await this.gitOps.getCurrentBranch();
+    const session = await this.sessionRepo.getSessionByBranch(branchName);
+    const now = new Date().toISOString();
+
+    const job: BackgroundJob = {
+      id: randomUUID(),
+      tool: toolName,
+      args,
+      status: 'running',
+      branchName,
+      sessionId: session?.id,
+      pid: process.pid,
+      progress: [],
+      resumeCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.save(job);
+    this.run(job);
+    return job;
+  }
+
+  async get(jobId: string): Promise<BackgroundJob | null> {
+    try {
+      const data = await fs.readFile(this.jobFile(jobId), 'utf-8');
+      return JSON.parse(data) as BackgroundJob;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List jobs, newest first
+   */
+  async list(): Promise<BackgroundJob[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.jobsPath);
+    } catch {
+      return [];
+    }
+
+    const jobs: BackgroundJob[] = [];
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      const job = await this.get(file.replace(/\.json$/, ''));
+      if (job) {
+        jobs.push(job);
+      }
+    }
+
+    return jobs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Request cancellation of a running job
+   * Jobs orphaned by a dead server process are marked cancelled directly
+   */
+  async cancel(jobId: string): Promise<BackgroundJob | null> {
+    const active = this.active.get(jobId);
+    if (active) {
+      active.controller.abort();
+      await this.appendProgress(active.job, 'Cancellation requested');
+      return active.job;
+    }
+
+    const job = await this.get(jobId);
+    if (!job || job.status !== 'running') {
+      return job;
+    }
+
+    if (job.pid !== process.pid && this.isProcessAlive(job.pid)) {
+      throw new Error(`Job ${jobId} is running in another devsolo server (PID ${job.pid})`);
+    }
+
+    return this.finish(job, 'cancelled', { error: 'Cancelled while not running' });
+  }
+
+  /**
+   * Resume jobs interrupted by a server restart
+   * A job is re-run only if its session is still active and its branch is
+   * checked out; the tool then continues from the session state (e.g. ship
+   * reuses the existing PR). Otherwise the job is marked failed.
+   */
+  async resumeInterrupted(): Promise<BackgroundJob[]> {
+    const resumed: BackgroundJob[] = [];
+
+    for (const job of await this.list()) {
+      if (job.status !== 'running' || this.active.has(job.id)) {
+        continue;
+      }
+      if (job.pid !== process.pid && this.isProcessAlive(job.pid)) {
+        continue; // Still owned by another server process
+      }
+
+      const session = await this.sessionRepo.getSessionByBranch(job.branchName);
+      const currentBranch = await this.gitOps.getCurrentBranch();
+
+      if (!session?.canResume()) {
+        await this.finish(job, 'failed', {
+          error: `Interrupted by server restart; no active session for ${job.branchName} to resume from`,
+        });
+        continue;
+      }
+      if (currentBranch !== job.branchName) {
+        await this.finish(job, 'failed', {
+          error: `Interrupted by server restart; ${job.branchName} is no longer checked out (on ${currentBranch})`,
+        });
+        continue;
+      }
+
+      job.pid = process.pid;
+      job.resumeCount++;
+      await this.appendProgress(job, `Resumed after server restart (session state: ${session.currentState})`);
+      this.run(job);
+      resumed.push(job);
+    }
+
+    return resumed;
+  }
+
+  /**
+   * Wait for a job running in this process to settle
+   */
+  async wait(jobId: string): Promise<void> {
+    await this.active.get(jobId)?.done;
+  }
+
+  private run(job: BackgroundJob): void {
+    const controller = new AbortController();
+
+    const done = this.registry.call(job.tool, job.args, {
+      signal: controller.signal,
+      onProgress: (message) => {
+        this.appendProgress(job, message).catch(() => { /* progress is best-effort */ });
+      },
+    })
+      .then(async (result: BaseToolResult) => {
+        const status = result.success ? 'completed' : controller.signal.aborted ? 'cancelled' : 'failed';
+        await this.finish(job, status, { result: JSON.parse(JSON.stringify(result)) });
+      })
+      .catch(async (error: unknown) => {
+        await this.finish(job, controller.signal.aborted ? 'cancelled' : 'failed', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => {
+        this.active.delete(job.id);
+        this.writes.delete(job.id);
+      });
+
+    this.active.set(job.id, { job, controller, done });
+  }
+
+  private async appendProgress(job: BackgroundJob, message: string): Promise<void> {
+    job.progress.push({ timestamp: new Date().toISOString(), message });
+    await this.save(job);
+  }
+
+  private async finish(
+    job: BackgroundJob,
+    status: BackgroundJob['status'],
+    outcome: { result?: Record<string, unknown>; error?: string }
+  ): Promise<BackgroundJob> {
+    job.status = status;
+    job.result = outcome.result;
+    job.error = outcome.error;
+    job.completedAt = new Date().toISOString();
+    await this.save(job);
+    return job;
+  }
+
+  /**
+   * Write atomically; writes for the same job are serialised so progress
+   * updates can't overwrite the final status
+   */
+  private save(job: BackgroundJob): Promise<void> {
+    const previous = this.writes.get(job.id) || Promise.resolve();
+    const write = previous.then(async () => {
+      job.updatedAt = new Date().toISOString();
+      await fs.mkdir(this.jobsPath, { recursive: true });
+      const file = this.jobFile(job.id);
+      await fs.writeFile(`${file}.tmp`, JSON.stringify(job, null, 2));
+      await fs.rename(`${file}.tmp`, file);
+    });
+    this.writes.set(job.id, write.catch(() => undefined));
+    return write;
+  }
+
+  private jobFile(jobId: string): string {
+    if (!/^[\w-]+$/.test(jobId)) {
+      throw new Error(`Invalid job id: ${jobId}`);
+    }
+    return path.join(this.jobsPath, `${jobId}.json`);
+  }
+
+  private isProcessAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
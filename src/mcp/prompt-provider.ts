@@ -0,0 +1,294 @@
+import {
+  ErrorCode,
+  GetPromptResult,
+  McpError,
+  Prompt,
+} from '@modelcontextprotocol/sdk/types.js';
+import { GitOperations } from '../services/git-operations';
+import { SessionRepository } from '../services/session-repository';
+import { ConfigurationManager } from '../services/configuration-manager';
+import { Configuration } from '../models/configuration';
+
+/**
+ * Maximum diff size embedded in a prompt
+ */
+const MAX_DIFF_LENGTH = 5000;
+
+/**
+ * Workflows served as prompts (matching the /devsolo:<name> slash commands)
+ */
+export const GUIDED_PROMPTS = ['launch', 'commit', 'ship', 'hotfix', 'abort'];
+
+type PromptArguments = Record<string, string | undefined>;
+
+interface PromptDefinition extends Prompt {
+  build: (args: PromptArguments, config: Configuration) => Promise<string[]>;
+}
+
+/**
+ * Serves the guided launch/commit/ship/hotfix/abort flows as MCP prompts
+ * Each prompt combines the configured commit/PR templates with live repository
+ * context and ends with the exact tool call to make, so any MCP client gets
+ * the same flow as the slash commands
+ */
+export class PromptProvider {
+  private prompts: Map<string, PromptDefinition> = new Map();
+
+  constructor(
+    private gitOps: GitOperations,
+    private sessionRepo: SessionRepository,
+    private configManager: ConfigurationManager
+  ) {
+    this.define({
+      name: 'launch',
+      description: 'Start a new feature workflow on a fresh branch',
+      arguments: [
+        { name: 'description', description: 'What the feature is about' },
+        { name: 'branchName', description: 'Branch name to use (generated from description if omitted)' },
+      ],
+      build: (args, config) => this.buildLaunch(args, config),
+    });
+    this.define({
+      name: 'commit',
+      description: 'Commit changes with a conventional commit message',
+      arguments: [
+        { name: 'message', description: 'Commit message (generated from the diff if omitted)' },
+        { name: 'stagedOnly', description: '"true" to commit only staged files' },
+      ],
+      build: (args, config) => this.buildCommit(args, config),
+    });
+    this.define({
+      name: 'ship',
+      description: 'Push, open a pull request, wait for CI and merge',
+      arguments: [
+        { name: 'prDescription', description: 'Pull request description (generated from commits if omitted)' },
+      ],
+      build: (args, config) => this.buildShip(args, config),
+    });
+    this.define({
+      name: 'hotfix',
+      description: 'Create an emergency hotfix workflow',
+      arguments: [
+        { name: 'issue', description: 'Issue number or description', required: true },
+        { name: 'severity', description: 'critical, high or medium' },
+      ],
+      build: (args, config) => this.buildHotfix(args, config),
+    });
+    this.define({
+      name: 'abort',
+      description: 'Abort a workflow session',
+      arguments: [
+        { name: 'branchName', description: 'Branch to abort (current branch if omitted)' },
+      ],
+      build: (args, config) => this.buildAbort(args, config),
+    });
+  }
+
+  /**
+   * List prompts for prompts/list
+   */
+  listPrompts(): Prompt[] {
+    return Array.from(this.prompts.values()).map(({ name, description, arguments: args }) => ({
+      name,
+      description,
+      arguments: args,
+    }));
+  }
+
+  /**
+   * Build a prompt for prompts/get
+   */
+  async getPrompt(name: string, args: PromptArguments = {}): Promise<GetPromptResult> {
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    for (const arg of prompt.arguments || []) {
+      if (arg.required && !args[arg.name]) {
+        throw new McpError(ErrorCode.InvalidParams, `Missing required argument: ${arg.name}`);
+      }
+    }
+
+    const config = await this.configManager.load();
+    const sections = [
+      `# devsolo ${prompt.name}`,
+      ...await this.buildRepositoryContext(),
+      ...await prompt.build(args, config),
+    ];
+
+    return {
+      description: prompt.description,
+      messages: [
+        {
+          role: 'user',
+          content: { type: 'text', text: sections.join('\n\n') },
+        },
+      ],
+    };
+  }
+
+  private define(prompt: PromptDefinition): void {
+    this.prompts.set(prompt.name, prompt);
+  }
+
+  private async buildRepositoryContext(): Promise<string[]> {
+    const branch = await this.gitOps.getCurrentBranch();
+    const session = await this.sessionRepo.getSessionByBranch(branch);
+    const sessionLine = session
+      ? `${session.workflowType} workflow, state ${session.currentState}`
+      : 'none';
+
+    return [
+      '## Repository context',
+      `- Current branch: ${branch}\n- Active session: ${sessionLine}`,
+    ];
+  }
+
+  private async buildLaunch(args: PromptArguments, config: Configuration): Promise<string[]> {
+    const hasChanges = await this.gitOps.hasUncommittedChanges();
+    const params: Record<string, unknown> = {};
+    if (args['description']) {
+      params['description'] = args['description'];
+    }
+    if (args['branchName']) {
+      params['branchName'] = args['branchName'];
+    }
+
+    return [
+      '## Guidance',
+      [
+        args['description'] || args['branchName']
+          ? '- Use the description/branch name provided below.'
+          : '- Ask the user what they are working on, then pass it as `description`.',
+        hasChanges
+          ? '- There are uncommitted changes. devsolo will offer to stash them and restore them on the new branch.'
+          : '- The working tree is clean.',
+      ].join('\n'),
+      ...this.buildToolCall('devsolo_launch', params, config),
+    ];
+  }
+
+  private async buildCommit(args: PromptArguments, config: Configuration): Promise<string[]> {
+    const sections: string[] = [];
+
+    if (args['message']) {
+      sections.push('## Commit message', args['message']);
+    } else {
+      const status = await this.gitOps.getStatus();
+      const changedFiles = [...status.staged, ...status.modified, ...status.created, ...status.deleted];
+      const diff = await this.gitOps.getDiff();
+
+      sections.push(
+        '## Guidance',
+        [
+          '- Write a conventional commit message (feat/fix/docs/refactor/test/chore) describing the changes below.',
+          '- Keep the subject under 72 characters and in the imperative mood.',
+        ].join('\n'),
+        '## Commit message template',
+        this.fence(config.preferences.commitTemplate?.body || '{{description}}'),
+        '## Changed files',
+        changedFiles.length > 0 ? changedFiles.map(f => `- ${f}`).join('\n') : 'No changes to commit.',
+        '## Diff',
+        this.fence(diff.substring(0, MAX_DIFF_LENGTH), 'diff')
+      );
+    }
+
+    const footer = config.preferences.commitTemplate?.footer;
+    if (footer) {
+      sections.push('## Footer (end the message with this)', this.fence(footer));
+    }
+
+    return [
+      ...sections,
+      ...this.buildToolCall('devsolo_commit', {
+        message: args['message'] || '<commit message>',
+        stagedOnly: args['stagedOnly'] === 'true',
+      }, config),
+    ];
+  }
+
+  private async buildShip(args: PromptArguments, config: Configuration): Promise<string[]> {
+    const sections: string[] = [];
+
+    if (args['prDescription']) {
+      sections.push('## Pull request description', args['prDescription']);
+    } else {
+      const session = await this.sessionRepo.getSessionByBranch(await this.gitOps.getCurrentBranch());
+      const base = session?.metadata.baseBranch || (await this.gitOps.getMainBranch());
+      const commitMessages = await this.gitOps.getCommitMessagesSince(base);
+      const diffStats = await this.gitOps.execute(['diff', base, '--stat']);
+
+      sections.push(
+        '## Guidance',
+        [
+          '- Write a pull request description following the template below.',
+          '- Summarise the purpose of the change, then list the notable changes and how they were tested.',
+          '- If a pull request already exists for this branch, no description is needed.',
+        ].join('\n'),
+        '## Pull request template',
+        this.fence(config.preferences.prTemplate?.body || '{{description}}'),
+        '## Commits since main',
+        commitMessages.length > 0 ? commitMessages.map(m => `- ${m}`).join('\n') : 'No commits to ship.',
+        '## Diff stats',
+        this.fence(diffStats.trim())
+      );
+    }
+
+    return [
+      ...sections,
+      ...this.buildToolCall('devsolo_ship', {
+        prDescription: args['prDescription'] || '<pull request description>',
+      }, config),
+    ];
+  }
+
+  private async buildHotfix(args: PromptArguments, config: Configuration): Promise<string[]> {
+    const params: Record<string, unknown> = { issue: args['issue'] };
+    if (args['severity']) {
+      params['severity'] = args['severity'];
+    }
+
+    return [
+      '## Guidance',
+      [
+        '- Hotfixes branch from main and are shipped with the same push/PR/merge flow.',
+        '- Keep the change minimal and focused on the reported issue.',
+      ].join('\n'),
+      ...this.buildToolCall('devsolo_hotfix', params, config),
+    ];
+  }
+
+  private async buildAbort(args: PromptArguments, config: Configuration): Promise<string[]> {
+    const params: Record<string, unknown> = { deleteBranch: false };
+    if (args['branchName']) {
+      params['branchName'] = args['branchName'];
+    }
+
+    return [
+      '## Guidance',
+      [
+        '- Confirm with the user before aborting; uncommitted work on the branch may be lost.',
+        '- Set `deleteBranch` to true only if the user wants the branch removed.',
+      ].join('\n'),
+      ...this.buildToolCall('devsolo_abort', params, config),
+    ];
+  }
+
+  /**
+   * Final instruction: the tool call to make
+   * `auto` is always passed explicitly, which is what the tools use to detect
+   * that the guided flow was followed
+   */
+  private buildToolCall(tool: string, params: Record<string, unknown>, config: Configuration): string[] {
+    return [
+      '## Next step',
+      `Call \`${tool}\` with these arguments (replace any <placeholders>):`,
+      this.fence(JSON.stringify({ ...params, auto: config.preferences.autoMode ?? true }, null, 2), 'json'),
+    ];
+  }
+
+  private fence(text: string, language: string = ''): string {
+    return `\`\`\`${language}\n${text}\n\`\`\``;
+  }
+}
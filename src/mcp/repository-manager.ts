@@ -0,0 +1,148 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ToolRegistry } from './tool-registry';
+import { JobManager } from './job-manager';
+import { GitOperations } from '../services/git-operations';
+import { SessionRepository } from '../services/session-repository';
+import { ConfigurationManager } from '../services/configuration-manager';
+
+/**
+ * How long to wait for a client to answer roots/list
+ */
+const ROOTS_TIMEOUT = 5000;
+
+/**
+ * One managed repository: its services, and the tools bound to them
+ */
+export interface Repository {
+  root: string; // Repository top-level directory
+  gitOps: GitOperations;
+  sessionRepo: SessionRepository;
+  configManager: ConfigurationManager;
+  registry: ToolRegistry;
+  jobs: JobManager;
+}
+
+/**
+ * Resolves which repository a tool call runs against
+ * - An explicit `repoPath` (absolute, or relative to the first MCP root, else
+ *   to the server's working directory)
+ * - Otherwise the client's first MCP root (roots/list), if it is in a git repository
+ * - Otherwise the server's working directory (the primary repository)
+ * Repositories other than the primary one are created lazily and cached
+ * Only tool calls are resolved; resources and prompts stay on the primary repository
+ */
+export class RepositoryManager {
+  private repositories: Map<string, Promise<Repository>> = new Map();
+  private roots: WeakMap<Server, Promise<string[]>> = new WeakMap();
+
+  constructor(
+    private primary: Repository,
+    private create: (root: string) => Repository
+  ) {}
+
+  /**
+   * Repository the server was started in
+   */
+  getPrimary(): Repository {
+    return this.primary;
+  }
+
+  /**
+   * Resolve the repository for a tool call
+   * Throws if repoPath does not exist, is not a git repository, or lies
+   * outside the client's roots
+   */
+  async resolve(server: Server | undefined, repoPath?: string): Promise<Repository> {
+    const roots = server ? await this.listRoots(server) : [];
+
+    if (!repoPath) {
+      // A root that is not in a repository (e.g. a folder holding several) leaves the primary one
+      const root = roots[0] && (await this.findRepositoryRoot(roots[0]).catch(() => null));
+      return root ? this.getRepository(root) : this.primary;
+    }
+
+    const target = path.resolve(roots[0] || this.primary.root, repoPath);
+    if (roots.length > 0 && !roots.some(root => this.isWithin(target, root))) {
+      throw new Error(`repoPath ${target} is outside the client's roots (${roots.join(', ')})`);
+    }
+
+    const stat = await fs.stat(target).catch(() => null);
+    if (!stat?.isDirectory()) {
+      throw new Error(`Repository path does not exist: ${target}`);
+    }
+
+    return this.getRepository(await this.findRepositoryRoot(target));
+  }
+
+  /**
+   * Repository with the given top-level directory, created on first use
+   */
+  private async getRepository(root: string): Promise<Repository> {
+    if (root === await this.realpath(this.primary.root)) {
+      return this.primary;
+    }
+
+    let repository = this.repositories.get(root);
+    if (!repository) {
+      repository = Promise.resolve().then(() => this.create(root));
+      this.repositories.set(root, repository);
+      repository.catch(() => this.repositories.delete(root));
+    }
+    return repository;
+  }
+
+  /**
+   * Drop cached roots for a client (on notifications/roots/list_changed)
+   */
+  forgetRoots(server: Server): void {
+    this.roots.delete(server);
+  }
+
+  private listRoots(server: Server): Promise<string[]> {
+    let roots = this.roots.get(server);
+    if (!roots) {
+      roots = this.requestRoots(server);
+      this.roots.set(server, roots);
+    }
+    return roots;
+  }
+
+  private async requestRoots(server: Server): Promise<string[]> {
+    if (!server.getClientCapabilities()?.roots) {
+      return [];
+    }
+
+    try {
+      const result = await server.listRoots(undefined, { timeout: ROOTS_TIMEOUT });
+      return result.roots
+        .filter(root => root.uri.startsWith('file://'))
+        .map(root => fileURLToPath(root.uri));
+    } catch (error) {
+      console.error('Failed to list client roots:', error);
+      this.roots.delete(server);
+      return [];
+    }
+  }
+
+  private async findRepositoryRoot(dir: string): Promise<string> {
+    let root: string;
+    try {
+      root = await new GitOperations(dir).getRepositoryRoot();
+    } catch {
+      throw new Error(`Not a git repository: ${dir}`);
+    }
+    return this.realpath(root);
+  }
+
+  private async realpath(dir: string): Promise<string> {
+    return fs.realpath(dir).catch(() => path.resolve(dir));
+  }
+
+  private isWithin(target: string, root: string): boolean {
+    const relative = path.relative(root, target);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+  }
+}
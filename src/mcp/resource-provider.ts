@@ -0,0 +1,325 @@
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  McpError,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
+import { SessionRepository } from '../services/session-repository';
+import { ConfigurationManager } from '../services/configuration-manager';
+
+const SESSION_PREFIX = 'devsolo://sessions/';
+const CONFIG_URI = 'devsolo://config';
+const AUDIT_PREFIX = 'devsolo://audit/';
+
+/**
+ * Delay before emitting notifications, so that atomic writes
+ * (write temp file + rename) produce a single update
+ */
+const NOTIFY_DEBOUNCE_MS = 100;
+
+/**
+ * Exposes devsolo state as MCP resources
+ * - devsolo://sessions/{branch}       session JSON (SessionRepository)
+ * - devsolo://config                  configuration (ConfigurationManager, secrets redacted)
+ * - devsolo://audit/{yyyy-mm}/{dd}    audit log for a day (JSONL)
+ *
+ * Watches the .devsolo directory and emits resources/updated for subscribed URIs.
+ * One provider is shared by every connected MCP server (stdio or one per HTTP session)
+ */
+export class ResourceProvider {
+  private basePath: string;
+  private auditPath: string;
+  private servers: Set<Server> = new Set();
+  private subscriptions: Map<string, Set<Server>> = new Map();
+  private pending: Map<string, NodeJS.Timeout> = new Map();
+  private watcher: fs.FSWatcher | null = null;
+  private knownSessionFiles: Set<string> = new Set();
+
+  constructor(
+    private sessionRepo: SessionRepository,
+    private configManager: ConfigurationManager,
+    basePath: string = '.devsolo'
+  ) {
+    // Always resolve relative to current working directory (matches SessionRepository)
+    this.basePath = path.resolve(process.cwd(), basePath);
+    this.auditPath = path.join(this.basePath, 'audit');
+  }
+
+  /**
+   * Register a connected server to receive list-changed notifications
+   */
+  attach(server: Server): void {
+    this.servers.add(server);
+  }
+
+  /**
+   * Forget a disconnected server and all of its subscriptions
+   */
+  detach(server: Server): void {
+    this.servers.delete(server);
+    for (const uri of Array.from(this.subscriptions.keys())) {
+      this.removeSubscriber(uri, server);
+    }
+  }
+
+  /**
+   * List concrete resources currently available
+   */
+  async listResources(): Promise<Resource[]> {
+    const resources: Resource[] = [
+      {
+        uri: CONFIG_URI,
+        name: 'devsolo configuration',
+        description: 'Current devsolo configuration (tokens redacted)',
+        mimeType: 'application/json',
+      },
+    ];
+
+    const sessions = await this.sessionRepo.listSessions(true);
+    for (const session of sessions) {
+      resources.push({
+        uri: this.sessionUri(session.branchName),
+        name: `Session: ${session.branchName}`,
+        description: `${session.workflowType} workflow (state: ${session.currentState})`,
+        mimeType: 'application/json',
+      });
+    }
+
+    for (const day of await this.listAuditDays()) {
+      resources.push({
+        uri: `${AUDIT_PREFIX}${day}`,
+        name: `Audit log ${day}`,
+        mimeType: 'application/x-ndjson',
+      });
+    }
+
+    return resources;
+  }
+
+  /**
+   * List URI templates for parameterised resources
+   */
+  listResourceTemplates(): ResourceTemplate[] {
+    return [
+      {
+        uriTemplate: `${SESSION_PREFIX}{branch}`,
+        name: 'Workflow session',
+        description: 'Workflow session for a branch (URL-encode branch names containing "/")',
+        mimeType: 'application/json',
+      },
+      {
+        uriTemplate: `${AUDIT_PREFIX}{yyyy-mm}/{dd}`,
+        name: 'Audit log',
+        description: 'Audit entries recorded on a given day',
+        mimeType: 'application/x-ndjson',
+      },
+    ];
+  }
+
+  /**
+   * Read a resource by URI
+   */
+  async readResource(uri: string): Promise<ReadResourceResult> {
+    if (uri === CONFIG_URI) {
+      const config = await this.configManager.load();
+      const json = config.toJSON();
+      const gitPlatform = json['gitPlatform'] as Record<string, unknown> | undefined;
+      if (gitPlatform?.['token']) {
+        json['gitPlatform'] = { ...gitPlatform, token: '[redacted]' };
+      }
+      return this.jsonContents(uri, json);
+    }
+
+    if (uri.startsWith(SESSION_PREFIX)) {
+      const branchName = decodeURIComponent(uri.slice(SESSION_PREFIX.length));
+      const session = await this.sessionRepo.getSessionByBranch(branchName);
+      if (!session) {
+        throw new McpError(ErrorCode.InvalidParams, `No session found for branch '${branchName}'`);
+      }
+      return this.jsonContents(uri, session.toJSON());
+    }
+
+    if (uri.startsWith(AUDIT_PREFIX)) {
+      const match = uri.slice(AUDIT_PREFIX.length).match(/^(\d{4}-\d{2})\/(\d{2})$/);
+      if (!match?.[1] || !match[2]) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid audit URI: ${uri}`);
+      }
+      try {
+        const text = await fsp.readFile(path.join(this.auditPath, match[1], `${match[2]}.jsonl`), 'utf-8');
+        return { contents: [{ uri, mimeType: 'application/x-ndjson', text }] };
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          throw new McpError(ErrorCode.InvalidParams, `No audit log for ${match[1]}/${match[2]}`);
+        }
+        throw error;
+      }
+    }
+
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+  }
+
+  /**
+   * Subscribe to updates for a resource
+   * Starts watching .devsolo on the first subscription
+   */
+  async subscribe(uri: string, server: Server): Promise<void> {
+    const key = this.normalizeUri(uri);
+    const subscribers = this.subscriptions.get(key) || new Set<Server>();
+    subscribers.add(server);
+    this.subscriptions.set(key, subscribers);
+    this.servers.add(server);
+    await this.startWatching();
+  }
+
+  /**
+   * Unsubscribe from updates for a resource
+   * Stops watching once no subscriptions remain
+   */
+  unsubscribe(uri: string, server: Server): void {
+    this.removeSubscriber(this.normalizeUri(uri), server);
+  }
+
+  /**
+   * Release watcher and pending timers
+   */
+  close(): void {
+    this.servers.clear();
+    this.subscriptions.clear();
+    this.stopWatching();
+  }
+
+  private removeSubscriber(uri: string, server: Server): void {
+    const subscribers = this.subscriptions.get(uri);
+    subscribers?.delete(server);
+    if (subscribers?.size === 0) {
+      this.subscriptions.delete(uri);
+    }
+    if (this.subscriptions.size === 0) {
+      this.stopWatching();
+    }
+  }
+
+  private async startWatching(): Promise<void> {
+    if (this.watcher) {
+      return;
+    }
+
+    await fsp.mkdir(path.join(this.basePath, 'sessions'), { recursive: true });
+    const sessionFiles = await fsp.readdir(path.join(this.basePath, 'sessions'));
+    this.knownSessionFiles = new Set(sessionFiles.filter(f => f.endsWith('.json')));
+
+    this.watcher = fs.watch(this.basePath, { recursive: true }, (_event, filename) => {
+      if (filename) {
+        this.handleFileChange(filename.toString());
+      }
+    });
+    this.watcher.on('error', (error) => {
+      console.error('Resource watcher error:', error);
+      this.stopWatching();
+    });
+  }
+
+  private stopWatching(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    for (const timer of this.pending.values()) {
+      clearTimeout(timer);
+    }
+    this.pending.clear();
+  }
+
+  /**
+   * Map a changed file (relative to .devsolo) to its resource URI
+   */
+  private handleFileChange(relativePath: string): void {
+    const parts = relativePath.split(path.sep);
+    let uri: string | null = null;
+    let listChanged = false;
+
+    if (parts[0] === 'config.yaml' && parts.length === 1) {
+      uri = CONFIG_URI;
+    } else if (parts[0] === 'sessions' && parts[1]?.endsWith('.json')) {
+      uri = this.sessionUri(decodeURIComponent(parts[1].replace(/\.json$/, '')));
+      // Sessions are rewritten atomically, so only a create/delete changes the list
+      const exists = fs.existsSync(path.join(this.basePath, relativePath));
+      listChanged = exists !== this.knownSessionFiles.has(parts[1]);
+      if (exists) {
+        this.knownSessionFiles.add(parts[1]);
+      } else {
+        this.knownSessionFiles.delete(parts[1]);
+      }
+    } else if (parts[0] === 'audit' && parts.length === 3 && parts[2]?.endsWith('.jsonl')) {
+      uri = `${AUDIT_PREFIX}${parts[1]}/${parts[2].replace(/\.jsonl$/, '')}`;
+    }
+
+    if (uri) {
+      this.scheduleNotification(uri, listChanged);
+    }
+  }
+
+  private scheduleNotification(uri: string, listChanged: boolean): void {
+    const existing = this.pending.get(uri);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    this.pending.set(uri, setTimeout(() => {
+      this.pending.delete(uri);
+      for (const server of this.subscriptions.get(uri) || []) {
+        server.sendResourceUpdated({ uri }).catch(() => { /* client may have disconnected */ });
+      }
+      if (listChanged) {
+        for (const server of this.servers) {
+          server.sendResourceListChanged().catch(() => { /* client may have disconnected */ });
+        }
+      }
+    }, NOTIFY_DEBOUNCE_MS));
+  }
+
+  private async listAuditDays(): Promise<string[]> {
+    const days: string[] = [];
+    try {
+      const months = (await fsp.readdir(this.auditPath)).filter(m => /^\d{4}-\d{2}$/.test(m)).sort();
+      for (const month of months) {
+        const files = await fsp.readdir(path.join(this.auditPath, month));
+        for (const file of files.filter(f => /^\d{2}\.jsonl$/.test(f)).sort()) {
+          days.push(`${month}/${file.replace(/\.jsonl$/, '')}`);
+        }
+      }
+    } catch {
+      // No audit log yet
+    }
+    return days;
+  }
+
+  private sessionUri(branchName: string): string {
+    return `${SESSION_PREFIX}${encodeURIComponent(branchName)}`;
+  }
+
+  /**
+   * Session URIs may arrive with raw or encoded slashes; store one canonical form
+   */
+  private normalizeUri(uri: string): string {
+    if (uri.startsWith(SESSION_PREFIX)) {
+      return this.sessionUri(decodeURIComponent(uri.slice(SESSION_PREFIX.length)));
+    }
+    return uri;
+  }
+
+  private jsonContents(uri: string, json: Record<string, unknown>): ReadResourceResult {
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'application/json',
+          text: JSON.stringify(json, null, 2),
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,152 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { BaseMCPTool, DryRunArgumentSchema, WorkflowToolInput } from './tools/workflow-tool-base';
+import { BaseToolResult, ToolExecutionOptions } from './tools/base-tool';
+
+/**
+ * A tool as the registry sees it: tool-specific input and result types widen
+ * to the base types, and input is checked against the tool's Zod schema
+ */
+export type RegisteredTool = BaseMCPTool<WorkflowToolInput, BaseToolResult>;
+
+/**
+ * Extra argument advertised by tools that support background jobs
+ * Handled by the server before dispatch; never reaches the tool
+ */
+const BackgroundArgumentSchema = z.object({
+  background: z.boolean().optional()
+    .describe('Run as a background job: returns a job id immediately (poll with devsolo_job_status)'),
+});
+
+/**
+ * Extra argument selecting the repository a tool runs against
+ * Resolved by the server before dispatch; never reaches the tool
+ */
+const RepoPathArgumentSchema = z.object({
+  repoPath: z.string().optional()
+    .describe(
+      'Repository to operate on (absolute, or relative to the first MCP root, else the server working directory). ' +
+      'Defaults to the first root if it is in a git repository, else the server working directory'
+    ),
+});
+
+/**
+ * Registry of MCP tools
+ * Each tool declares its name, description, Zod input/output schemas and annotations once;
+ * the registry derives the tools/list response and dispatches tools/call from them
+ */
+export class ToolRegistry {
+  private tools: Map<string, RegisteredTool> = new Map();
+
+  /**
+   * Register a tool
+   * Throws if a tool with the same name is already registered
+   */
+  register(tool: RegisteredTool): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  /**
+   * Remove a tool from the registry
+   */
+  unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get(name: string): RegisteredTool | undefined {
+    return this.tools.get(name);
+  }
+
+  getNames(): string[] {
+    return Array.from(this.tools.keys());
+  }
+
+  /**
+   * Build MCP tool definitions for tools/list
+   */
+  list(): Tool[] {
+    return Array.from(this.tools.values()).map(tool => this.toDefinition(tool));
+  }
+
+  /**
+   * Parse arguments against the tool's schema and execute it
+   */
+  async call(
+    name: string,
+    args?: Record<string, unknown>,
+    options: ToolExecutionOptions = {}
+  ): Promise<BaseToolResult> {
+    const params = this.prepare(name, args);
+    return this.tools.get(name)!.execute(params, options);
+  }
+
+  /**
+   * Parse arguments against the tool's schema without executing it
+   * Throws for unknown tools and invalid arguments
+   */
+  prepare(name: string, args?: Record<string, unknown>): Record<string, unknown> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+    return tool.parseInput(this.normalizeArguments(args));
+  }
+
+  private toDefinition(tool: RegisteredTool): Tool {
+    let inputSchema = tool.inputSchema;
+    if (tool.supportsDryRun) {
+      inputSchema = inputSchema.merge(DryRunArgumentSchema);
+    }
+    if (tool.supportsBackground) {
+      inputSchema = inputSchema.merge(BackgroundArgumentSchema);
+    }
+    if (tool.supportsRepoPath) {
+      inputSchema = inputSchema.merge(RepoPathArgumentSchema);
+    }
+
+    const definition: Tool = {
+      name: tool.name,
+      description: tool.description,
+      inputSchema: zodToJsonSchema(inputSchema, { strictUnions: true }) as Tool['inputSchema'],
+      // Inline repeated sub-schemas (check results) so clients need no $ref resolution
+      outputSchema: zodToJsonSchema(tool.outputSchema, {
+        strictUnions: true,
+        $refStrategy: 'none',
+      }) as Tool['outputSchema'],
+    };
+
+    if (tool.annotations) {
+      definition.annotations = tool.annotations;
+    }
+
+    return definition;
+  }
+
+  /**
+   * Convert string booleans ('true'/'false') to actual booleans
+   * Some clients send every argument as a string
+   */
+  private normalizeArguments(args?: Record<string, unknown>): Record<string, unknown> {
+    const processedArgs: Record<string, unknown> = {};
+    if (args) {
+      Object.entries(args).forEach(([key, value]) => {
+        if (value === 'true') {
+          processedArgs[key] = true;
+        } else if (value === 'false') {
+          processedArgs[key] = false;
+        } else {
+          processedArgs[key] = value;
+        }
+      });
+    }
+    return processedArgs;
+  }
+}
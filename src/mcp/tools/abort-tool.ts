@@ -3,14 +3,16 @@ import {
   WorkflowToolInput,
   WorkflowContext,
   WorkflowExecutionResult,
+  LockServices,
 } from './workflow-tool-base';
-import { SessionToolResult } from './base-tool';
+import { SessionToolResult, SessionToolResultSchema } from './base-tool';
 import { SessionRepository } from '../../services/session-repository';
 import { GitOperations } from '../../services/git-operations';
 import { ConfigurationManager } from '../../services/configuration-manager';
 import { WorkflowSession } from '../../models/workflow-session';
 import { PreFlightVerificationResult, PreFlightCheckResult } from '../../services/validation/pre-flight-check-service';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { z } from 'zod';
 
 /**
  * Input for abort tool
@@ -20,10 +22,28 @@ export interface AbortToolInput extends WorkflowToolInput {
   deleteBranch?: boolean;
 }
 
+/**
+ * Input schema for abort tool
+ */
+export const AbortSchema = z.object({
+  branchName: z.string().optional().describe('Branch to abort (current if not specified)'),
+  auto: z.boolean().optional().describe('Automatically choose recommended options for prompts'),
+  deleteBranch: z.boolean().optional().describe('Delete the branch after aborting'),
+});
+
 /**
  * Abort tool - Aborts a workflow session
  */
 export class AbortTool extends BaseMCPTool<AbortToolInput, SessionToolResult> {
+  readonly name = 'devsolo_abort';
+  readonly description = 'Abort a workflow session';
+  readonly inputSchema = AbortSchema;
+  readonly outputSchema = SessionToolResultSchema;
+  readonly supportsDryRun = true;
+  readonly annotations = {
+    destructiveHint: true,
+  };
+
   constructor(
     private sessionRepo: SessionRepository,
     private gitOps: GitOperations,
@@ -43,9 +63,16 @@ export class AbortTool extends BaseMCPTool<AbortToolInput, SessionToolResult> {
     return '/devsolo:abort';
   }
 
+  protected getLockServices(): LockServices {
+    return { sessionRepo: this.sessionRepo, gitOps: this.gitOps };
+  }
+
   protected async createContext(input: AbortToolInput): Promise<Record<string, unknown>> {
     // Get session to abort (will be validated in pre-flight checks)
-    const targetBranch = input.branchName || (await this.gitOps.getCurrentBranch());
+    // HEAD is detached while a rebase is stopped on conflicts
+    const targetBranch = input.branchName ||
+      (await this.gitOps.getRebasingBranch()) ||
+      (await this.gitOps.getCurrentBranch());
     const session = await this.sessionRepo.getSessionByBranch(targetBranch);
 
     return { session, targetBranch };
@@ -125,9 +152,37 @@ export class AbortTool extends BaseMCPTool<AbortToolInput, SessionToolResult> {
     const session = context['session'] as WorkflowSession;
     const targetBranch = context['targetBranch'] as string;
 
+    const warnings: string[] = [];
+
+    // Give up a rebase or merge of the base branch that stopped on conflicts,
+    // restoring the branch
+    if ((await this.gitOps.getRebasingBranch()) === session.branchName) {
+      await this.gitOps.abortRebase();
+    } else if (session.currentState === 'CONFLICT_RESOLUTION' && (await this.gitOps.isMerging())) {
+      await this.gitOps.abortMerge();
+    }
+
+    // Give back work devsolo_sync stashed before the update
+    const stashRef = session.metadata.sync?.stashRef;
+    if (stashRef) {
+      try {
+        await this.gitOps.stashPopSpecific(stashRef);
+      } catch (error) {
+        warnings.push(
+          `Failed to restore stashed changes (${stashRef}): ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    // Sessions stacked on this one keep targeting its branch
+    for (const other of await this.sessionRepo.listSessions()) {
+      if (other.isActive() && other.metadata.parent?.sessionId === session.id) {
+        warnings.push(`${other.branchName} is stacked on ${session.branchName}; rebase it onto another base`);
+      }
+    }
+
     // Transition session to aborted
-    session.transitionTo('ABORTED', 'user_action');
-    await this.sessionRepo.updateSession(session.id, session);
+    await this.sessionRepo.transitionSession(session, 'ABORTED', 'user_action');
 
     // Clean up aborted session to prevent accumulation
     try {
@@ -137,17 +192,15 @@ export class AbortTool extends BaseMCPTool<AbortToolInput, SessionToolResult> {
       console.error('Failed to cleanup session:', error);
     }
 
-    const warnings: string[] = [];
-
     // Delete branch if requested
     if (input.deleteBranch) {
       try {
         const currentBranch = await this.gitOps.getCurrentBranch();
 
-        // Switch to main if currently on the target branch
+        // Switch to the session's base branch if currently on the target branch
         if (currentBranch === targetBranch) {
-          const mainBranch = 'main';
-          await this.gitOps.checkoutBranch(mainBranch);
+          const baseBranch = session.metadata.baseBranch || (await this.gitOps.getMainBranch());
+          await this.gitOps.checkoutBranch(baseBranch);
         }
 
         // Delete local branch
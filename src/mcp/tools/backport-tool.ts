@@ -0,0 +1,163 @@
+import {
+  BaseMCPTool,
+  WorkflowToolInput,
+  WorkflowContext,
+  WorkflowExecutionResult,
+  LockServices,
+} from './workflow-tool-base';
+import { BackportToolResult, BackportToolResultSchema } from './base-tool';
+import { GitOperations } from '../../services/git-operations';
+import { SessionRepository } from '../../services/session-repository';
+import { GitHubIntegration } from '../../services/github-integration';
+import { ConfigurationManager } from '../../services/configuration-manager';
+import { BackportResult, BackportService, BackportSource } from '../../services/backport-service';
+import { PreFlightCheckService, PreFlightVerificationResult } from '../../services/validation/pre-flight-check-service';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { z } from 'zod';
+
+/**
+ * Input for backport tool
+ */
+export interface BackportToolInput extends WorkflowToolInput {
+  sessionId?: string;
+  prNumber?: number;
+  targets: string[];
+}
+
+/**
+ * Input schema for backport tool
+ */
+export const BackportSchema = z.object({
+  sessionId: z.string().optional().describe('Completed session whose merged PR to backport'),
+  prNumber: z.number().int().positive().optional().describe('Merged PR to backport, instead of a session'),
+  targets: z.array(z.string()).min(1).describe('Branches to backport onto, e.g. ["release/1.x", "release/2.x"]'),
+  auto: z.boolean().optional().describe('Automatically choose recommended options for prompts'),
+});
+
+/**
+ * Backport tool - Cherry-picks a merged PR onto release branches and opens a PR for each
+ */
+export class BackportTool extends BaseMCPTool<BackportToolInput, BackportToolResult> {
+  readonly name = 'devsolo_backport';
+  readonly description =
+    'Cherry-pick a merged PR onto release branches, opening a labeled backport PR against each';
+  readonly inputSchema = BackportSchema;
+  readonly outputSchema = BackportToolResultSchema;
+  readonly supportsBackground = true;
+  readonly supportsDryRun = true;
+
+  private preFlightCheckService: PreFlightCheckService;
+  private backportService: BackportService;
+
+  constructor(
+    private gitOps: GitOperations,
+    private sessionRepo: SessionRepository,
+    githubIntegration: GitHubIntegration,
+    configManager: ConfigurationManager,
+    server?: Server
+  ) {
+    super(configManager, server);
+    this.preFlightCheckService = new PreFlightCheckService(gitOps, sessionRepo);
+    this.backportService = new BackportService(gitOps, sessionRepo, githubIntegration);
+  }
+
+  protected getBanner(): string {
+    return `░█▀▄░█▀█░█▀▀░█░█░█▀█░█▀█░█▀▄░▀█▀░▀█▀░█▀█░█▀▀░
+░█▀▄░█▀█░█░░░█▀▄░█▀▀░█░█░█▀▄░░█░░░█░░█░█░█░█░
+░▀▀░░▀░▀░▀▀▀░▀░▀░▀░░░▀▀▀░▀░▀░░▀░░▀▀▀░▀░▀░▀▀▀░`;
+  }
+
+  protected getSlashCommand(): string | null {
+    return '/devsolo:backport';
+  }
+
+  protected getLockServices(): LockServices {
+    return { sessionRepo: this.sessionRepo, gitOps: this.gitOps };
+  }
+
+  protected async createContext(input: BackportToolInput): Promise<Record<string, unknown>> {
+    const source = await this.backportService.resolveSource({
+      sessionId: input.sessionId,
+      prNumber: input.prNumber,
+    });
+
+    return { source };
+  }
+
+  protected async runPreFlightChecks(
+    _context: WorkflowContext
+  ): Promise<PreFlightVerificationResult> {
+    // Each target is checked out to cherry-pick onto
+    return this.preFlightCheckService.runAll(['workingDirectoryClean']);
+  }
+
+  protected async executeWorkflow(
+    context: WorkflowContext
+  ): Promise<WorkflowExecutionResult> {
+    const input = context.input as BackportToolInput;
+    const source = context['source'] as BackportSource;
+    const targets = [...new Set(input.targets)];
+
+    this.reportProgress(context, `Backporting PR #${source.prNumber} (${source.commit}) to ${targets.join(', ')}`);
+    const backports = await this.backportService.backport(source, targets);
+
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    for (const backport of backports) {
+      if (backport.status === 'conflicts') {
+        errors.push(
+          `Cherry-picking onto ${backport.target} conflicts in ${backport.conflicts!.map(file => file.path).join(', ')}`
+        );
+      } else if (backport.status === 'failed') {
+        errors.push(`${backport.target}: ${backport.error}`);
+      } else if (backport.error) {
+        warnings.push(`${backport.target}: ${backport.error}`);
+      }
+      if (backport.status === 'opened') {
+        this.reportProgress(context, `Opened backport PR #${backport.prNumber} against ${backport.target}`);
+      }
+    }
+    if (source.session === undefined) {
+      warnings.push(`PR #${source.prNumber} has no devsolo session left; the backports were not recorded`);
+    }
+
+    return {
+      success: errors.length === 0,
+      errors,
+      warnings,
+      data: {
+        prNumber: source.prNumber,
+        commitSha: source.commit,
+        backports,
+        nextSteps: this.getNextSteps(source, backports),
+      },
+    };
+  }
+
+  /**
+   * Keep the per-target results on failure
+   */
+  protected createWorkflowErrorResult(workflowResult: WorkflowExecutionResult): BackportToolResult {
+    const { nextSteps, ...data } = workflowResult.data || {};
+    return {
+      ...super.createWorkflowErrorResult(workflowResult),
+      ...data,
+      ...(Array.isArray(nextSteps) && { nextSteps: nextSteps as string[] }),
+    };
+  }
+
+  private getNextSteps(source: BackportSource, backports: BackportResult[]): string[] {
+    return backports.flatMap(backport => {
+      if (backport.status === 'opened') {
+        return [`Review and merge PR #${backport.prNumber} into ${backport.target}`];
+      }
+      if (backport.status === 'conflicts') {
+        return [
+          `Backport to ${backport.target} by hand: create ${backport.branch} from origin/${backport.target}, ` +
+            `run git cherry-pick -x ${source.commit}, resolve the conflicts, then push it and open a PR`,
+        ];
+      }
+      return [];
+    });
+  }
+}
@@ -1,5 +1,12 @@
 import { PreFlightCheckResult, PreFlightVerificationResult } from '../../services/validation/pre-flight-check-service';
 import { PostFlightCheckResult, PostFlightVerificationResult } from '../../services/validation/post-flight-verification';
+import { PlannedStep } from '../../services/dry-run';
+import { ConflictedFile, LockHolder, MergeMode, SyncStrategy, VersionBump } from '../../models/types';
+import { CheckFailure, ReviewComment } from '../../services/github-integration';
+import { RestackResult } from '../../services/stack-service';
+import { PublishedRelease } from '../../services/release-service';
+import { BackportResult } from '../../services/backport-service';
+import { z } from 'zod';
 
 /**
  * Base result interface for all MCP tools
@@ -16,6 +23,9 @@ export interface BaseToolResult {
 export interface ToolResultWithValidation extends BaseToolResult {
   preFlightChecks?: PreFlightCheckResult[];
   postFlightVerifications?: PostFlightCheckResult[];
+  dryRun?: boolean;
+  plan?: PlannedStep[];  // Operations a dry run would have performed, in order
+  lockHolder?: LockHolder;  // Set when the call was refused because another call holds the lock
 }
 
 /**
@@ -38,17 +48,224 @@ export interface GitHubToolResult extends ToolResultWithValidation {
   prUrl?: string;
   commitSha?: string;
   merged?: boolean;
+  draft?: boolean;  // Set when ship stopped after opening a draft PR
+  resumedFrom?: string;  // Ship checkpoint state a re-run resumed after
+  mergeMode?: MergeMode;  // Set when GitHub (auto-merge or merge queue) merges the PR
+  queuePosition?: number;  // Position in the merge queue when enqueued
+  reviewComments?: ReviewComment[];  // Feedback when a reviewer requested changes
+  conflicts?: ConflictedFile[];  // Files a rebase onto the base branch stopped on
+  checkFailures?: CheckFailure[];  // Annotations and log tails of failed CI checks
+  checkReruns?: Record<string, number>;  // Re-runs of flaky checks before they failed
+  restacked?: RestackResult[];  // Sessions stacked on the merged branch, moved onto its base
+  release?: PublishedRelease;  // Tag and GitHub release, once a release session merges
   message?: string;  // For prompt-based parameter collection
   data?: Record<string, unknown>;  // For providing context to Claude
   nextSteps?: string[];  // For guidance
 }
 
+/**
+ * Result for devsolo_sync
+ */
+export interface SyncToolResult extends SessionToolResult {
+  status?: 'up-to-date' | 'rebased' | 'merged' | 'conflicts';
+  strategy?: SyncStrategy;
+  onto?: string;  // Remote base branch the session was updated from
+  behind?: number;  // Commits the branch was behind its base
+  stashRestored?: boolean;  // Set when uncommitted work was stashed for the update
+  conflicts?: ConflictedFile[];  // Files the rebase or merge stopped on
+}
+
+/**
+ * Result for devsolo_release
+ */
+export interface ReleaseToolResult extends SessionToolResult {
+  version?: string;
+  tag?: string;  // Created on the merge commit once the release PR merges
+  previousTag?: string;
+  bump?: VersionBump;  // Absent when the version was given explicitly
+  notes?: string;  // Changelog entry, published as the GitHub release notes
+  files?: string[];  // Version files and changelog committed on the release branch
+}
+
+/**
+ * Result for devsolo_backport
+ */
+export interface BackportToolResult extends ToolResultWithValidation {
+  prNumber?: number;  // Merged PR that was backported
+  commitSha?: string;  // Its commit on the base branch, cherry-picked onto each target
+  backports?: BackportResult[];  // One per target, with its PR or conflicts
+  data?: Record<string, unknown>;
+  nextSteps?: string[];
+}
+
 /**
  * Result for status/query tools
  */
-export interface QueryToolResult extends BaseToolResult {
-  data: Record<string, unknown>;
+export interface QueryToolResult extends ToolResultWithValidation {
+  data?: Record<string, unknown>;  // Absent on error results
   message?: string;
+  nextSteps?: string[];
+}
+
+/**
+ * Output schemas (advertised as outputSchema, returned as structuredContent)
+ * Mirror the result interfaces above; unknown keys pass through because tools
+ * add workflow-specific fields
+ */
+const CheckResultSchema = z.object({
+  name: z.string(),
+  passed: z.boolean(),
+  message: z.string().optional(),
+  level: z.enum(['info', 'warning', 'error', 'prompt']),
+  suggestions: z.array(z.string()).optional(),
+  details: z.record(z.unknown()).optional(),
+  options: z.array(z.object({
+    id: z.string(),
+    label: z.string(),
+    description: z.string().optional(),
+    action: z.string(),
+    autoRecommended: z.boolean().optional(),
+    risk: z.enum(['low', 'medium', 'high']).optional(),
+  })).optional(),
+});
+
+const ConflictedFileSchema = z.object({
+  path: z.string(),
+  hunks: z.array(z.object({
+    startLine: z.number(),
+    ours: z.string(),
+    base: z.string().optional(),
+    theirs: z.string(),
+  })),
+});
+
+const PlannedStepSchema = z.object({
+  kind: z.enum(['git', 'github', 'session', 'file']),
+  description: z.string(),
+  details: z.record(z.unknown()).optional(),
+});
+
+export const BaseToolResultSchema = z.object({
+  success: z.boolean(),
+  errors: z.array(z.string()).optional(),
+  warnings: z.array(z.string()).optional(),
+  message: z.string().optional(),
+  nextSteps: z.array(z.string()).optional(),
+}).passthrough();
+
+export const ToolResultWithValidationSchema = BaseToolResultSchema.extend({
+  preFlightChecks: z.array(CheckResultSchema).optional(),
+  postFlightVerifications: z.array(CheckResultSchema).optional(),
+  dryRun: z.boolean().optional(),
+  plan: z.array(PlannedStepSchema).optional(),
+  lockHolder: z.object({
+    pid: z.number(),
+    tool: z.string(),
+    acquiredAt: z.string(),
+  }).optional(),
+});
+
+export const SessionToolResultSchema = ToolResultWithValidationSchema.extend({
+  sessionId: z.string().optional(),
+  branchName: z.string().optional(),
+  state: z.string().optional(),
+  data: z.record(z.unknown()).optional(),
+});
+
+export const GitHubToolResultSchema = ToolResultWithValidationSchema.extend({
+  prNumber: z.number().optional(),
+  prUrl: z.string().optional(),
+  commitSha: z.string().optional(),
+  merged: z.boolean().optional(),
+  draft: z.boolean().optional(),
+  resumedFrom: z.string().optional(),
+  mergeMode: z.enum(['direct', 'auto', 'queue']).optional(),
+  queuePosition: z.number().optional(),
+  reviewComments: z.array(z.object({
+    author: z.string(),
+    body: z.string(),
+    path: z.string().optional(),
+    line: z.number().optional(),
+    diffHunk: z.string().optional(),
+    url: z.string(),
+  })).optional(),
+  conflicts: z.array(ConflictedFileSchema).optional(),
+  checkFailures: z.array(z.object({
+    name: z.string(),
+    url: z.string().optional(),
+    annotations: z.array(z.object({
+      path: z.string(),
+      startLine: z.number(),
+      endLine: z.number(),
+      level: z.string(),
+      message: z.string(),
+      title: z.string().optional(),
+    })),
+    logTail: z.string().optional(),
+  })).optional(),
+  checkReruns: z.record(z.number()).optional(),
+  restacked: z.array(z.object({
+    branch: z.string(),
+    base: z.string(),
+    status: z.enum(['rebased', 'up-to-date', 'conflicts', 'skipped']),
+    pushed: z.boolean(),
+    prNumber: z.number().optional(),
+    prRetargeted: z.boolean().optional(),
+    error: z.string().optional(),
+  })).optional(),
+  release: z.object({
+    version: z.string(),
+    tag: z.string(),
+    published: z.boolean(),
+    url: z.string().optional(),
+    error: z.string().optional(),
+  }).optional(),
+  data: z.record(z.unknown()).optional(),
+});
+
+export const SyncToolResultSchema = SessionToolResultSchema.extend({
+  status: z.enum(['up-to-date', 'rebased', 'merged', 'conflicts']).optional(),
+  strategy: z.enum(['rebase', 'merge']).optional(),
+  onto: z.string().optional(),
+  behind: z.number().optional(),
+  stashRestored: z.boolean().optional(),
+  conflicts: z.array(ConflictedFileSchema).optional(),
+});
+
+export const ReleaseToolResultSchema = SessionToolResultSchema.extend({
+  version: z.string().optional(),
+  tag: z.string().optional(),
+  previousTag: z.string().optional(),
+  bump: z.enum(['major', 'minor', 'patch']).optional(),
+  notes: z.string().optional(),
+  files: z.array(z.string()).optional(),
+});
+
+export const BackportToolResultSchema = ToolResultWithValidationSchema.extend({
+  prNumber: z.number().optional(),
+  commitSha: z.string().optional(),
+  backports: z.array(z.object({
+    target: z.string(),
+    branch: z.string(),
+    status: z.enum(['opened', 'conflicts', 'skipped', 'failed']),
+    prNumber: z.number().optional(),
+    prUrl: z.string().optional(),
+    conflicts: z.array(ConflictedFileSchema).optional(),
+    error: z.string().optional(),
+  })).optional(),
+  data: z.record(z.unknown()).optional(),
+});
+
+export const QueryToolResultSchema = ToolResultWithValidationSchema.extend({
+  data: z.record(z.unknown()).optional(),
+});
+
+/**
+ * Per-call execution options supplied by the MCP request
+ */
+export interface ToolExecutionOptions {
+  signal?: AbortSignal; // Aborted when the client cancels the request
+  onProgress?: (message: string) => void; // Set when the client supplied a progress token
 }
 
 /**
@@ -58,7 +275,7 @@ export interface MCPTool<TInput = unknown, TResult extends BaseToolResult = Base
   /**
    * Execute the tool with given input
    */
-  execute(input: TInput): Promise<TResult>;
+  execute(input: TInput, options?: ToolExecutionOptions): Promise<TResult>;
 
   /**
    * Validate input before execution (optional)
@@ -3,12 +3,14 @@ import {
   WorkflowToolInput,
   WorkflowContext,
   WorkflowExecutionResult,
+  LockServices,
 } from './workflow-tool-base';
-import { QueryToolResult } from './base-tool';
+import { QueryToolResult, QueryToolResultSchema } from './base-tool';
 import { SessionRepository } from '../../services/session-repository';
 import { GitOperations } from '../../services/git-operations';
 import { ConfigurationManager } from '../../services/configuration-manager';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { z } from 'zod';
 
 /**
  * Input for cleanup tool
@@ -17,10 +19,27 @@ export interface CleanupToolInput extends WorkflowToolInput {
   deleteBranches?: boolean;
 }
 
+/**
+ * Input schema for cleanup tool
+ */
+export const CleanupSchema = z.object({
+  deleteBranches: z.boolean().optional().describe('Delete stale branches'),
+  auto: z.boolean().optional().describe('Automatically choose recommended options for prompts'),
+});
+
 /**
  * Cleanup tool - Cleans up expired sessions and stale branches
  */
 export class CleanupTool extends BaseMCPTool<CleanupToolInput, QueryToolResult> {
+  readonly name = 'devsolo_cleanup';
+  readonly description = 'Clean up expired sessions and stale branches';
+  readonly inputSchema = CleanupSchema;
+  readonly outputSchema = QueryToolResultSchema;
+  readonly supportsDryRun = true;
+  readonly annotations = {
+    destructiveHint: true,
+  };
+
   constructor(
     private sessionRepo: SessionRepository,
     private gitOps: GitOperations,
@@ -40,6 +59,10 @@ export class CleanupTool extends BaseMCPTool<CleanupToolInput, QueryToolResult>
     return '/devsolo:cleanup';
   }
 
+  protected getLockServices(): LockServices {
+    return { sessionRepo: this.sessionRepo, gitOps: this.gitOps };
+  }
+
   protected async executeWorkflow(
     context: WorkflowContext
   ): Promise<WorkflowExecutionResult> {
@@ -49,14 +72,18 @@ export class CleanupTool extends BaseMCPTool<CleanupToolInput, QueryToolResult>
     const expiredSessionCount = await this.sessionRepo.cleanupExpiredSessions();
 
     // Cleanup completed/aborted sessions to prevent accumulation
-    const completedSessionCount = await this.sessionRepo.cleanupCompletedSessions();
+    const completedSessionCount = await this.sessionRepo.cleanupCompletedSessions(this.gitOps);
 
     const totalCleaned = expiredSessionCount + completedSessionCount;
 
+    // Remove locks left by devsolo processes that exited mid-operation
+    const locksRemoved = await this.sessionRepo.cleanupOrphanedLocks();
+
     const result: Record<string, unknown> = {
       sessionsRemoved: totalCleaned,
       expiredSessions: expiredSessionCount,
       completedSessions: completedSessionCount,
+      locksRemoved,
       sessions: [],
     };
 
@@ -65,9 +92,17 @@ export class CleanupTool extends BaseMCPTool<CleanupToolInput, QueryToolResult>
       const branches = await this.gitOps.listBranches();
       const staleBranches: string[] = [];
 
+      // Keep the trunk and the base branches sessions were launched from
+      const sessions = await this.sessionRepo.listSessions();
+      const keep = new Set([
+        'main',
+        'master',
+        await this.gitOps.getMainBranch(),
+        ...sessions.map(session => session.metadata.baseBranch).filter((base): base is string => !!base),
+      ]);
+
       for (const branch of branches) {
-        // Skip main/master branches
-        if (branch === 'main' || branch === 'master') {
+        if (keep.has(branch)) {
           continue;
         }
 
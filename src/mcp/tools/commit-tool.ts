@@ -4,14 +4,16 @@ import {
   WorkflowContext,
   PromptCollectionResult,
   WorkflowExecutionResult,
+  LockServices,
 } from './workflow-tool-base';
-import { SessionToolResult } from './base-tool';
+import { SessionToolResult, SessionToolResultSchema } from './base-tool';
 import { GitOperations } from '../../services/git-operations';
 import { SessionRepository } from '../../services/session-repository';
 import { ConfigurationManager } from '../../services/configuration-manager';
 import { WorkflowSession } from '../../models/workflow-session';
 import { PreFlightCheckService, PreFlightVerificationResult } from '../../services/validation/pre-flight-check-service';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { z } from 'zod';
 
 /**
  * Input for commit tool
@@ -21,10 +23,29 @@ export interface CommitToolInput extends WorkflowToolInput {
   stagedOnly?: boolean;
 }
 
+/**
+ * Input schema for commit tool
+ */
+export const CommitSchema = z.object({
+  message: z.string().optional().describe('Commit message (footer added automatically)'),
+  auto: z.boolean().optional().describe('Automatically choose recommended options for prompts'),
+  stagedOnly: z.boolean().optional()
+    .describe('If true, only commit staged files (use "git add" first). If false, stages and commits all changes.'),
+});
+
 /**
  * Commit tool - Commits changes with a message
  */
 export class CommitTool extends BaseMCPTool<CommitToolInput, SessionToolResult> {
+  readonly name = 'devsolo_commit';
+  readonly description = 'Commit changes with optional message. Use stagedOnly to commit only staged files.';
+  readonly inputSchema = CommitSchema;
+  readonly outputSchema = SessionToolResultSchema;
+  readonly supportsDryRun = true;
+  readonly annotations = {
+    destructiveHint: false,
+  };
+
   private preFlightCheckService: PreFlightCheckService;
 
   constructor(
@@ -47,6 +68,10 @@ export class CommitTool extends BaseMCPTool<CommitToolInput, SessionToolResult>
     return '/devsolo:commit';
   }
 
+  protected getLockServices(): LockServices {
+    return { sessionRepo: this.sessionRepo, gitOps: this.gitOps };
+  }
+
   protected async collectMissingParameters(
     input: CommitToolInput
   ): Promise<PromptCollectionResult> {
@@ -123,6 +148,23 @@ export class CommitTool extends BaseMCPTool<CommitToolInput, SessionToolResult>
   ): Promise<WorkflowExecutionResult> {
     const input = context.input as CommitToolInput;
     const session = context['session'] as WorkflowSession;
+    const committedState = session.workflowType === 'hotfix' ? 'HOTFIX_COMMITTED' : 'CHANGES_COMMITTED';
+
+    // Check the session can take another commit before touching git
+    if (!this.sessionRepo.getWorkflowEngine().canTransition(session, committedState)) {
+      return {
+        success: false,
+        errors: [`Cannot commit: session ${session.branchName} is in state ${session.currentState}`],
+      };
+    }
+    const transition = { commitMessage: input.message };
+    const rejected = await this.sessionRepo.getWorkflowEngine().validateTransition(session, committedState, transition);
+    if (rejected) {
+      return {
+        success: false,
+        errors: [`Cannot commit: ${rejected}`],
+      };
+    }
 
     // Stage and commit
     if (!input.stagedOnly) {
@@ -134,8 +176,7 @@ export class CommitTool extends BaseMCPTool<CommitToolInput, SessionToolResult>
     await this.gitOps.commit(input.message!);
 
     // Update session state
-    session.transitionTo('CHANGES_COMMITTED', 'user_action');
-    await this.sessionRepo.updateSession(session.id, session);
+    await this.sessionRepo.transitionSession(session, committedState, 'user_action', transition);
 
     return {
       success: true,
@@ -4,14 +4,16 @@ import {
   WorkflowContext,
   PromptCollectionResult,
   WorkflowExecutionResult,
+  LockServices,
 } from './workflow-tool-base';
-import { SessionToolResult } from './base-tool';
+import { SessionToolResult, SessionToolResultSchema } from './base-tool';
 import { WorkflowSession } from '../../models/workflow-session';
 import { GitOperations } from '../../services/git-operations';
 import { SessionRepository } from '../../services/session-repository';
 import { ConfigurationManager } from '../../services/configuration-manager';
 import { GitHubIntegration } from '../../services/github-integration';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { z } from 'zod';
 
 /**
  * Input for hotfix tool
@@ -24,10 +26,29 @@ export interface HotfixToolInput extends WorkflowToolInput {
   autoMerge?: boolean;
 }
 
+/**
+ * Input schema for hotfix tool
+ */
+export const HotfixSchema = z.object({
+  issue: z.string().optional().describe('Issue number or description'),
+  severity: z.enum(['critical', 'high', 'medium']).optional().describe('Severity level of the hotfix'),
+  skipTests: z.boolean().optional().describe('Skip running tests'),
+  skipReview: z.boolean().optional().describe('Skip code review'),
+  autoMerge: z.boolean().optional().describe('Automatically merge when checks pass'),
+  auto: z.boolean().optional().describe('Automatically choose recommended options for prompts'),
+});
+
 /**
  * Hotfix tool - Creates emergency hotfix workflow
  */
 export class HotfixTool extends BaseMCPTool<HotfixToolInput, SessionToolResult> {
+  readonly name = 'devsolo_hotfix';
+  readonly description = 'Create emergency hotfix workflow';
+  readonly inputSchema = HotfixSchema;
+  readonly outputSchema = SessionToolResultSchema;
+  readonly supportsBackground = true;
+  readonly supportsDryRun = true;
+
   constructor(
     private gitOps: GitOperations,
     private sessionRepo: SessionRepository,
@@ -48,6 +69,10 @@ export class HotfixTool extends BaseMCPTool<HotfixToolInput, SessionToolResult>
     return '/devsolo:hotfix';
   }
 
+  protected getLockServices(): LockServices {
+    return { sessionRepo: this.sessionRepo, gitOps: this.gitOps };
+  }
+
   protected async collectMissingParameters(
     input: HotfixToolInput
   ): Promise<PromptCollectionResult> {
@@ -55,7 +80,7 @@ export class HotfixTool extends BaseMCPTool<HotfixToolInput, SessionToolResult>
     if (!input.issue) {
       try {
         // Get recent commits for context
-        const recentCommits = await this.gitOps.getCommitsSince('main');
+        const recentCommits = await this.gitOps.getCommitsSince(await this.gitOps.getMainBranch());
         const lastCommits = recentCommits.slice(0, 10);
 
         // Check GitHub availability (issues fetching not yet implemented)
@@ -131,7 +156,7 @@ export class HotfixTool extends BaseMCPTool<HotfixToolInput, SessionToolResult>
       branchName,
       workflowType: 'hotfix',
       metadata: {
-        projectPath: process.cwd(),
+        projectPath: this.gitOps.getWorkingDirectory(),
         startedAt: new Date().toISOString(),
         context: {
           issue,
@@ -150,8 +175,7 @@ export class HotfixTool extends BaseMCPTool<HotfixToolInput, SessionToolResult>
     await this.gitOps.checkoutBranch(branchName);
 
     // Update session state
-    session.transitionTo('BRANCH_READY', 'user_action');
-    await this.sessionRepo.updateSession(session.id, session);
+    await this.sessionRepo.transitionSession(session, 'HOTFIX_READY', 'user_action', { branchName, severity });
 
     return {
       success: true,
@@ -10,17 +10,32 @@ export { InfoTool, InfoToolInput } from './info-tool';
 export { SessionsTool, SessionsToolInput } from './sessions-tool';
 export { AbortTool, AbortToolInput } from './abort-tool';
 export { SwapTool, SwapToolInput } from './swap-tool';
+export { SyncTool, SyncToolInput } from './sync-tool';
 export { InitTool, InitToolInput } from './init-tool';
 export { CleanupTool, CleanupToolInput } from './cleanup-tool';
 export { HotfixTool, HotfixToolInput } from './hotfix-tool';
+export { ReleaseTool, ReleaseToolInput } from './release-tool';
+export { BackportTool, BackportToolInput } from './backport-tool';
+export { JobStatusTool, JobStatusToolInput } from './job-status-tool';
+export { JobCancelTool, JobCancelToolInput } from './job-cancel-tool';
 
 export {
   MCPTool,
   BaseToolResult,
   SessionToolResult,
   GitHubToolResult,
+  SyncToolResult,
+  ReleaseToolResult,
+  BackportToolResult,
   QueryToolResult,
   ToolResultWithValidation,
+  BaseToolResultSchema,
+  SessionToolResultSchema,
+  GitHubToolResultSchema,
+  SyncToolResultSchema,
+  ReleaseToolResultSchema,
+  BackportToolResultSchema,
+  QueryToolResultSchema,
   ToolExecutionError,
   createErrorResult,
   createSuccessResult,
@@ -33,4 +48,5 @@ export {
   WorkflowContext,
   PromptCollectionResult,
   WorkflowExecutionResult,
+  LockServices,
 } from './workflow-tool-base';
@@ -4,11 +4,14 @@ import {
   WorkflowContext,
   WorkflowExecutionResult,
 } from './workflow-tool-base';
-import { QueryToolResult } from './base-tool';
+import { QueryToolResult, QueryToolResultSchema } from './base-tool';
 import { SessionRepository } from '../../services/session-repository';
 import { GitOperations } from '../../services/git-operations';
+import { GitHubIntegration } from '../../services/github-integration';
+import { WorkflowSession } from '../../models/workflow-session';
 import { ConfigurationManager } from '../../services/configuration-manager';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { z } from 'zod';
 
 /**
  * Input for info tool
@@ -17,13 +20,27 @@ export interface InfoToolInput extends WorkflowToolInput {
   // No additional input required
 }
 
+/**
+ * Input schema for info tool
+ */
+export const InfoSchema = z.object({});
+
 /**
  * Info tool - Shows current workflow information
  */
 export class InfoTool extends BaseMCPTool<InfoToolInput, QueryToolResult> {
+  readonly name = 'devsolo_info';
+  readonly description = 'Show current workflow information';
+  readonly inputSchema = InfoSchema;
+  readonly outputSchema = QueryToolResultSchema;
+  readonly annotations = {
+    readOnlyHint: true,
+  };
+
   constructor(
     private sessionRepo: SessionRepository,
     private gitOps: GitOperations,
+    private githubIntegration: GitHubIntegration,
     configManager: ConfigurationManager,
     server?: Server
   ) {
@@ -63,20 +80,65 @@ export class InfoTool extends BaseMCPTool<InfoToolInput, QueryToolResult> {
         branchName: session.branchName,
         state: session.currentState,
         workflowType: session.workflowType,
+        baseBranch: session.metadata?.baseBranch || (await this.gitOps.getMainBranch()),
+        ...(session.metadata?.parent && { parent: session.metadata.parent.branch }),
+        ...(session.metadata?.restack && { restackPending: session.metadata.restack.from }),
         createdAt: session.createdAt,
         pr: session.metadata?.pr,
       };
       data['message'] = `Active ${session.workflowType} workflow on ${currentBranch} (state: ${session.currentState})`;
+
+      const autoMerge = await this.getAutoMergeStatus(session);
+      if (autoMerge) {
+        data['autoMerge'] = autoMerge;
+      }
     } else {
       data['message'] = `No active session on ${currentBranch}`;
     }
 
+    // Sessions whose PR GitHub merges (auto-merge or merge queue); once merged,
+    // devsolo_ship finishes the cleanup, from any branch
+    const awaitingMerge = [];
+    for (const other of await this.sessionRepo.listSessions()) {
+      const autoMerge = other.id !== session?.id ? await this.getAutoMergeStatus(other) : null;
+      if (autoMerge) {
+        awaitingMerge.push({ branchName: other.branchName, ...autoMerge });
+      }
+    }
+    if (awaitingMerge.length > 0) {
+      data['awaitingMerge'] = awaitingMerge;
+    }
+
     return {
       success: true,
       data,
     };
   }
 
+  /**
+   * Whether GitHub has merged a PR handed to auto-merge or the merge queue
+   * Null for sessions that devsolo merges itself, or that are already merged
+   */
+  private async getAutoMergeStatus(
+    session: WorkflowSession
+  ): Promise<{ mode: string; prNumber?: number; status: 'pending' | 'merged' | 'closed' | 'unknown'; nextStep?: string } | null> {
+    const pr = session.metadata?.pr;
+    if (!pr?.autoMerge || pr.merged || !pr.number) {
+      return null;
+    }
+
+    const current = await this.githubIntegration.getPullRequest(pr.number).catch(() => null);
+    const status = !current ? 'unknown' : current.merged ? 'merged' : current.state === 'closed' ? 'closed' : 'pending';
+
+    return {
+      mode: pr.autoMerge.mode,
+      prNumber: pr.number,
+      status,
+      ...(status === 'merged' && { nextStep: 'Call devsolo_ship to sync main and clean up' }),
+      ...(status === 'closed' && { nextStep: 'Reopen the PR or abort the session with devsolo_abort' }),
+    };
+  }
+
   // Override to return QueryToolResult format
   protected createFinalResult(
     workflowResult: WorkflowExecutionResult,
@@ -4,10 +4,11 @@ import {
   WorkflowContext,
   WorkflowExecutionResult,
 } from './workflow-tool-base';
-import { BaseToolResult } from './base-tool';
+import { BaseToolResult, BaseToolResultSchema } from './base-tool';
 import { ConfigurationManager } from '../../services/configuration-manager';
 import { GitOperations } from '../../services/git-operations';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { z } from 'zod';
 
 /**
  * Input for init tool
@@ -19,10 +20,32 @@ export interface InitToolInput extends WorkflowToolInput {
   statusLineScope?: 'local' | 'team';
 }
 
+/**
+ * Input schema for init tool
+ */
+export const InitSchema = z.object({
+  scope: z.enum(['project', 'user']).optional().describe('Installation scope (project or user)'),
+  auto: z.boolean().optional().describe('Automatically choose recommended options for prompts'),
+  force: z.boolean().optional().describe('Force reinitialization'),
+  enableStatusLine: z.boolean().optional().describe('Enable Claude Code status line (default: true)'),
+  statusLineScope: z.enum(['local', 'team']).optional()
+    .describe('Status line scope: local (settings.local.json) or team (settings.json)'),
+});
+
 /**
  * Init tool - Initializes devsolo in the project
  */
 export class InitTool extends BaseMCPTool<InitToolInput, BaseToolResult> {
+  readonly name = 'devsolo_init';
+  readonly description = '🚀 Initialize devsolo in your project';
+  readonly inputSchema = InitSchema;
+  readonly outputSchema = BaseToolResultSchema;
+  // Hooks, CLAUDE.md and .claude/ are installed relative to the working directory
+  readonly supportsRepoPath = false;
+  readonly annotations = {
+    idempotentHint: true,
+  };
+
   constructor(
     configManager: ConfigurationManager,
     private gitOps: GitOperations,
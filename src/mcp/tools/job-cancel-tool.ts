@@ -0,0 +1,96 @@
+import {
+  BaseMCPTool,
+  WorkflowToolInput,
+  WorkflowContext,
+  WorkflowExecutionResult,
+} from './workflow-tool-base';
+import { QueryToolResult, QueryToolResultSchema } from './base-tool';
+import { JobManager } from '../job-manager';
+import { ConfigurationManager } from '../../services/configuration-manager';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { z } from 'zod';
+
+/**
+ * Input for job cancel tool
+ */
+export interface JobCancelToolInput extends WorkflowToolInput {
+  jobId: string;
+}
+
+/**
+ * Input schema for job cancel tool
+ */
+export const JobCancelSchema = z.object({
+  jobId: z.string().describe('Job to cancel'),
+});
+
+/**
+ * Job cancel tool - Stops a running background job
+ * The job stops at its next cancellation point; the session is left resumable
+ */
+export class JobCancelTool extends BaseMCPTool<JobCancelToolInput, QueryToolResult> {
+  readonly name = 'devsolo_job_cancel';
+  readonly description = 'Cancel a running background job';
+  readonly inputSchema = JobCancelSchema;
+  readonly outputSchema = QueryToolResultSchema;
+  readonly annotations = {
+    idempotentHint: true,
+  };
+
+  constructor(
+    private jobManager: JobManager,
+    configManager: ConfigurationManager,
+    server?: Server
+  ) {
+    super(configManager, server);
+  }
+
+  protected getSlashCommand(): string | null {
+    return null;
+  }
+
+  protected async executeWorkflow(
+    context: WorkflowContext
+  ): Promise<WorkflowExecutionResult> {
+    const input = context.input as JobCancelToolInput;
+    const job = await this.jobManager.cancel(input.jobId);
+
+    if (!job) {
+      return {
+        success: false,
+        errors: [`Job not found: ${input.jobId}`],
+      };
+    }
+
+    const message = job.status === 'running'
+      ? `Cancellation requested for job ${job.id}; it stops at the next checkpoint`
+      : `Job ${job.id} is ${job.status}`;
+
+    return {
+      success: true,
+      data: {
+        jobId: job.id,
+        status: job.status,
+        message,
+      },
+      nextSteps: job.status === 'running'
+        ? [`Poll devsolo_job_status with jobId "${job.id}" to confirm it stopped`]
+        : undefined,
+    };
+  }
+
+  // Override to return QueryToolResult format
+  protected createFinalResult(workflowResult: WorkflowExecutionResult): QueryToolResult {
+    const result: QueryToolResult = {
+      success: workflowResult.success,
+      data: workflowResult.data || {},
+      message: (workflowResult.data?.['message'] as string) || undefined,
+      errors: workflowResult.errors || [],
+      warnings: workflowResult.warnings || [],
+    };
+    if (workflowResult['nextSteps']) {
+      result.nextSteps = workflowResult['nextSteps'] as string[];
+    }
+    return result;
+  }
+}
@@ -0,0 +1,102 @@
+import {
+  BaseMCPTool,
+  WorkflowToolInput,
+  WorkflowContext,
+  WorkflowExecutionResult,
+} from './workflow-tool-base';
+import { QueryToolResult, QueryToolResultSchema } from './base-tool';
+import { JobManager } from '../job-manager';
+import { ConfigurationManager } from '../../services/configuration-manager';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { z } from 'zod';
+
+/**
+ * Input for job status tool
+ */
+export interface JobStatusToolInput extends WorkflowToolInput {
+  jobId?: string;
+}
+
+/**
+ * Input schema for job status tool
+ */
+export const JobStatusSchema = z.object({
+  jobId: z.string().optional().describe('Job to inspect (lists recent jobs if omitted)'),
+});
+
+/**
+ * Job status tool - Reports progress and result of background jobs
+ */
+export class JobStatusTool extends BaseMCPTool<JobStatusToolInput, QueryToolResult> {
+  readonly name = 'devsolo_job_status';
+  readonly description = 'Show progress and result of a background job, or list recent jobs';
+  readonly inputSchema = JobStatusSchema;
+  readonly outputSchema = QueryToolResultSchema;
+  readonly annotations = {
+    readOnlyHint: true,
+  };
+
+  constructor(
+    private jobManager: JobManager,
+    configManager: ConfigurationManager,
+    server?: Server
+  ) {
+    super(configManager, server);
+  }
+
+  protected getSlashCommand(): string | null {
+    // Read-only query tool - doesn't need slash command context
+    return null;
+  }
+
+  protected async executeWorkflow(
+    context: WorkflowContext
+  ): Promise<WorkflowExecutionResult> {
+    const input = context.input as JobStatusToolInput;
+
+    if (!input.jobId) {
+      const jobs = await this.jobManager.list();
+      return {
+        success: true,
+        data: {
+          jobs: jobs.slice(0, 20).map(job => ({
+            id: job.id,
+            tool: job.tool,
+            status: job.status,
+            branchName: job.branchName,
+            createdAt: job.createdAt,
+            lastProgress: job.progress[job.progress.length - 1]?.message,
+          })),
+          message: `${jobs.filter(j => j.status === 'running').length} running of ${jobs.length} job(s)`,
+        },
+      };
+    }
+
+    const job = await this.jobManager.get(input.jobId);
+    if (!job) {
+      return {
+        success: false,
+        errors: [`Job not found: ${input.jobId}`],
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        job,
+        message: `Job ${job.id} (${job.tool}) is ${job.status}`,
+      },
+    };
+  }
+
+  // Override to return QueryToolResult format
+  protected createFinalResult(workflowResult: WorkflowExecutionResult): QueryToolResult {
+    return {
+      success: workflowResult.success,
+      data: workflowResult.data || {},
+      message: (workflowResult.data?.['message'] as string) || undefined,
+      errors: workflowResult.errors || [],
+      warnings: workflowResult.warnings || [],
+    };
+  }
+}
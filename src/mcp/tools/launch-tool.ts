@@ -4,8 +4,9 @@ import {
   WorkflowContext,
   PromptCollectionResult,
   WorkflowExecutionResult,
+  LockServices,
 } from './workflow-tool-base';
-import { SessionToolResult } from './base-tool';
+import { SessionToolResult, SessionToolResultSchema } from './base-tool';
 import { WorkflowSession } from '../../models/workflow-session';
 import { GitOperations } from '../../services/git-operations';
 import { SessionRepository } from '../../services/session-repository';
@@ -17,6 +18,7 @@ import { GitHubIntegration } from '../../services/github-integration';
 import { StashManager } from '../../services/stash-manager';
 import { ConfigurationManager } from '../../services/configuration-manager';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { z } from 'zod';
 
 /**
  * Input for launch tool
@@ -24,14 +26,40 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 export interface LaunchToolInput extends WorkflowToolInput {
   branchName?: string;
   description?: string;
+  baseBranch?: string;
+  parent?: string;
   stashRef?: string;
   popStash?: boolean;
 }
 
+/**
+ * Input schema for launch tool
+ */
+export const LaunchSchema = z.object({
+  description: z.string().optional().describe('Description of the feature'),
+  branchName: z.string().optional().describe('Name for the feature branch'),
+  baseBranch: z.string().optional().describe(
+    'Branch to start from and merge into, e.g. a long-lived integration branch (default: the trunk)'
+  ),
+  parent: z.string().optional().describe(
+    'Branch of an unmerged session to stack on; its PR targets the parent until the parent merges'
+  ),
+  auto: z.boolean().optional().describe('Automatically choose recommended options for prompts'),
+  stashRef: z.string().optional()
+    .describe('Git stash reference to restore after branch creation (e.g., stash@{0})'),
+  popStash: z.boolean().optional().describe('Whether to pop the stash (default: true if stashRef provided)'),
+});
+
 /**
  * Launch tool - Creates a new feature branch and workflow session
  */
 export class LaunchTool extends BaseMCPTool<LaunchToolInput, SessionToolResult> {
+  readonly name = 'devsolo_launch';
+  readonly description = 'Start a new feature workflow';
+  readonly inputSchema = LaunchSchema;
+  readonly outputSchema = SessionToolResultSchema;
+  readonly supportsDryRun = true;
+
   private preFlightCheckService: PreFlightCheckService;
   private postFlightVerification: PostFlightVerification;
 
@@ -61,6 +89,10 @@ export class LaunchTool extends BaseMCPTool<LaunchToolInput, SessionToolResult>
     return '/devsolo:launch';
   }
 
+  protected getLockServices(): LockServices {
+    return { sessionRepo: this.sessionRepo, gitOps: this.gitOps };
+  }
+
   protected async collectMissingParameters(
     input: LaunchToolInput
   ): Promise<PromptCollectionResult> {
@@ -124,6 +156,20 @@ export class LaunchTool extends BaseMCPTool<LaunchToolInput, SessionToolResult>
     const branchName = context['branchName'] as string;
     const input = context.input as LaunchToolInput;
 
+    // A stacked launch starts from the parent's branch, where its session is expected
+    if (input.parent) {
+      return this.preFlightCheckService.runAll(
+        [
+          'onMainBranch',
+          'workingDirectoryClean',
+          'mainUpToDate',
+          'parentSessionActive',
+          'branchNameAvailable',
+        ],
+        { branchName, baseBranch: input.parent, parentBranch: input.parent, auto: input.auto }
+      );
+    }
+
     return this.preFlightCheckService.runAll(
       [
         'onMainBranch',
@@ -132,7 +178,7 @@ export class LaunchTool extends BaseMCPTool<LaunchToolInput, SessionToolResult>
         'noExistingSession',
         'branchNameAvailable',
       ],
-      { branchName, auto: input.auto }
+      { branchName, baseBranch: input.baseBranch, auto: input.auto }
     );
   }
 
@@ -145,20 +191,24 @@ export class LaunchTool extends BaseMCPTool<LaunchToolInput, SessionToolResult>
     // NOTE: Pre-flight checks have already verified working directory is clean
     // If we reach this point, there are no uncommitted changes to handle
 
-    // Abort active session if exists
-    const abortResult = await this.handleActiveSession();
-    if (!abortResult.success) {
-      return {
-        success: false,
-        errors: abortResult.errors || ['Failed to handle active session'],
-      };
+    // Abort active session if exists (a stacked launch builds on it instead)
+    const parent = input.parent ? await this.sessionRepo.getSessionByBranch(input.parent) : null;
+    if (!parent) {
+      const abortResult = await this.handleActiveSession();
+      if (!abortResult.success) {
+        return {
+          success: false,
+          errors: abortResult.errors || ['Failed to handle active session'],
+        };
+      }
     }
 
     // Create session
-    const session = await this.createSession(branchName, input.description);
+    const baseBranch = parent?.branchName || input.baseBranch || (await this.gitOps.getMainBranch());
+    const session = await this.createSession(branchName, baseBranch, input.description, parent);
 
     // Create and checkout branch
-    await this.createBranch(branchName);
+    await this.createBranch(branchName, baseBranch);
 
     // Restore stashed work if stashRef provided (user explicitly passed a stash to restore)
     const stashPopped = !!(input.stashRef && input.popStash !== false);
@@ -174,9 +224,12 @@ export class LaunchTool extends BaseMCPTool<LaunchToolInput, SessionToolResult>
         branchName: session.branchName,
         state: session.currentState,
         stashPopped,
+        ...(parent && { parent: parent.branchName }),
         nextSteps: [
           'Make your code changes',
-          'Use devsolo_ship to commit, push, and create PR',
+          parent
+            ? `Use devsolo_ship with merge false to open a PR against ${parent.branchName}; ship ${parent.branchName} first`
+            : 'Use devsolo_ship to commit, push, and create PR',
           'Use devsolo_info to check current state',
         ],
       },
@@ -257,8 +310,7 @@ export class LaunchTool extends BaseMCPTool<LaunchToolInput, SessionToolResult>
 
       if (activeSession && activeSession.isActive()) {
         // Abort the active session
-        activeSession.transitionTo('ABORTED', 'abort_command');
-        await this.sessionRepo.updateSession(activeSession.id, activeSession);
+        await this.sessionRepo.transitionSession(activeSession, 'ABORTED', 'abort_command');
       }
 
       return { success: true };
@@ -272,21 +324,30 @@ export class LaunchTool extends BaseMCPTool<LaunchToolInput, SessionToolResult>
 
   /**
    * Create workflow session
+   * The base branch is recorded only when it isn't the trunk; a stacked
+   * session also records its parent
    */
-  private async createSession(branchName: string, description?: string): Promise<WorkflowSession> {
+  private async createSession(
+    branchName: string,
+    baseBranch: string,
+    description?: string,
+    parent?: WorkflowSession | null
+  ): Promise<WorkflowSession> {
+    const trunk = await this.gitOps.getMainBranch();
     const session = new WorkflowSession({
       branchName,
       workflowType: 'launch',
       metadata: {
-        projectPath: process.cwd(),
+        projectPath: this.gitOps.getWorkingDirectory(),
         startedAt: new Date().toISOString(),
         context: description ? { description } : undefined,
+        ...(baseBranch !== trunk && { baseBranch }),
+        ...(parent && { parent: { sessionId: parent.id, branch: parent.branchName } }),
       },
     });
 
     await this.sessionRepo.createSession(session);
-    session.transitionTo('BRANCH_READY', 'user_action');
-    await this.sessionRepo.updateSession(session.id, session);
+    await this.sessionRepo.transitionSession(session, 'BRANCH_READY', 'user_action');
 
     return session;
   }
@@ -294,8 +355,8 @@ export class LaunchTool extends BaseMCPTool<LaunchToolInput, SessionToolResult>
   /**
    * Create and checkout branch
    */
-  private async createBranch(branchName: string): Promise<void> {
-    await this.gitOps.createBranch(branchName);
+  private async createBranch(branchName: string, baseBranch: string): Promise<void> {
+    await this.gitOps.createBranch(branchName, baseBranch);
     await this.gitOps.checkoutBranch(branchName);
   }
 }
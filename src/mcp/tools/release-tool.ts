@@ -0,0 +1,205 @@
+import {
+  BaseMCPTool,
+  WorkflowToolInput,
+  WorkflowContext,
+  WorkflowExecutionResult,
+  LockServices,
+} from './workflow-tool-base';
+import { ReleaseToolResult, ReleaseToolResultSchema } from './base-tool';
+import { WorkflowSession } from '../../models/workflow-session';
+import { VersionBump } from '../../models/types';
+import { GitOperations } from '../../services/git-operations';
+import { SessionRepository } from '../../services/session-repository';
+import { GitHubIntegration } from '../../services/github-integration';
+import { ConfigurationManager } from '../../services/configuration-manager';
+import {
+  DEFAULT_RELEASE_SETTINGS,
+  ReleasePlan,
+  ReleaseService,
+  ReleaseSettings,
+} from '../../services/release-service';
+import { PreFlightCheckService, PreFlightVerificationResult } from '../../services/validation/pre-flight-check-service';
+import { PostFlightVerification, PostFlightVerificationResult } from '../../services/validation/post-flight-verification';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { z } from 'zod';
+
+/**
+ * Input for release tool
+ */
+export interface ReleaseToolInput extends WorkflowToolInput {
+  version?: string;
+  bump?: VersionBump;
+}
+
+/**
+ * Input schema for release tool
+ */
+export const ReleaseSchema = z.object({
+  version: z.string().optional().describe(
+    'Version to release, e.g. 2.0.0 or 2.0.0-rc.1 ' +
+    '(default: computed from the conventional commits since the last release tag)'
+  ),
+  bump: z.enum(['major', 'minor', 'patch']).optional().describe(
+    'Version component to increment, overriding the one the commits imply'
+  ),
+  auto: z.boolean().optional().describe('Automatically choose recommended options for prompts'),
+});
+
+/**
+ * Release tool - Prepares a release branch with the next version and its changelog
+ */
+export class ReleaseTool extends BaseMCPTool<ReleaseToolInput, ReleaseToolResult> {
+  readonly name = 'devsolo_release';
+  readonly description =
+    'Prepare a release: bump the version and changelog on a release branch, then ship it to tag and publish';
+  readonly inputSchema = ReleaseSchema;
+  readonly outputSchema = ReleaseToolResultSchema;
+  readonly supportsBackground = true;
+  readonly supportsDryRun = true;
+
+  private preFlightCheckService: PreFlightCheckService;
+  private postFlightVerification: PostFlightVerification;
+  private releaseService: ReleaseService;
+
+  constructor(
+    private gitOps: GitOperations,
+    private sessionRepo: SessionRepository,
+    githubIntegration: GitHubIntegration,
+    configManager: ConfigurationManager,
+    server?: Server
+  ) {
+    super(configManager, server);
+    this.preFlightCheckService = new PreFlightCheckService(gitOps, sessionRepo);
+    this.postFlightVerification = new PostFlightVerification(gitOps, sessionRepo);
+    this.releaseService = new ReleaseService(gitOps, sessionRepo, githubIntegration);
+  }
+
+  protected getBanner(): string {
+    return `░█▀▄░█▀▀░█░░░█▀▀░█▀█░█▀▀░▀█▀░█▀█░█▀▀░
+░█▀▄░█▀▀░█░░░█▀▀░█▀█░▀▀█░░█░░█░█░█░█░
+░▀░▀░▀▀▀░▀▀▀░▀▀▀░▀░▀░▀▀▀░▀▀▀░▀░▀░▀▀▀░`;
+  }
+
+  protected getSlashCommand(): string | null {
+    return '/devsolo:release';
+  }
+
+  protected getLockServices(): LockServices {
+    return { sessionRepo: this.sessionRepo, gitOps: this.gitOps };
+  }
+
+  protected async createContext(input: ReleaseToolInput): Promise<Record<string, unknown>> {
+    const settings = await this.loadSettings();
+    const plan = await this.releaseService.planRelease(settings, { version: input.version, bump: input.bump });
+
+    return { settings, plan, branchName: `release/${plan.tag}` };
+  }
+
+  protected async runPreFlightChecks(
+    context: WorkflowContext
+  ): Promise<PreFlightVerificationResult> {
+    const input = context.input as ReleaseToolInput;
+
+    return this.preFlightCheckService.runAll(
+      [
+        'onMainBranch',
+        'workingDirectoryClean',
+        'mainUpToDate',
+        'noExistingSession',
+        'branchNameAvailable',
+      ],
+      { branchName: context['branchName'] as string, auto: input.auto }
+    );
+  }
+
+  protected async executeWorkflow(
+    context: WorkflowContext
+  ): Promise<WorkflowExecutionResult> {
+    const settings = context['settings'] as ReleaseSettings;
+    const plan = context['plan'] as ReleasePlan;
+    const branchName = context['branchName'] as string;
+    const trunk = await this.gitOps.getMainBranch();
+
+    const session = new WorkflowSession({
+      branchName,
+      workflowType: 'release',
+      metadata: {
+        projectPath: this.gitOps.getWorkingDirectory(),
+        startedAt: new Date().toISOString(),
+        context: { description: `Release ${plan.tag}` },
+        release: {
+          version: plan.version,
+          tag: plan.tag,
+          ...(plan.previousTag && { previousTag: plan.previousTag }),
+          ...(plan.bump && { bump: plan.bump }),
+          notes: plan.notes,
+        },
+      },
+    });
+    await this.sessionRepo.createSession(session);
+    await this.sessionRepo.transitionSession(session, 'BRANCH_READY', 'release_command');
+
+    await this.gitOps.createBranch(branchName, trunk);
+    await this.gitOps.checkoutBranch(branchName);
+    this.reportProgress(context, `Created ${branchName} from ${trunk}`);
+
+    // Version files and changelog, committed as the release PR's only commit
+    const files = await this.releaseService.applyRelease(plan, settings, new Date().toISOString().slice(0, 10));
+    await this.gitOps.add(files);
+    await this.gitOps.commit(`chore(release): ${plan.tag}`);
+    await this.sessionRepo.transitionSession(session, 'CHANGES_COMMITTED', 'release_command', {
+      version: plan.version,
+    });
+    this.reportProgress(context, `Committed ${plan.tag}: ${files.join(', ')}`);
+
+    return {
+      success: true,
+      data: {
+        sessionId: session.id,
+        branchName: session.branchName,
+        state: session.currentState,
+        version: plan.version,
+        tag: plan.tag,
+        ...(plan.previousTag && { previousTag: plan.previousTag }),
+        ...(plan.bump && { bump: plan.bump }),
+        notes: plan.notes,
+        files,
+        nextSteps: [
+          `Review the ${plan.version} entry in ${settings.changelog}; amend the commit to edit it`,
+          `Use devsolo_ship to open the release PR and merge it; ${plan.tag} is then tagged on the merge commit ` +
+            'and published as a GitHub release',
+        ],
+      },
+    };
+  }
+
+  protected async runPostFlightVerifications(
+    context: WorkflowContext,
+    _workflowResult: WorkflowExecutionResult
+  ): Promise<PostFlightVerificationResult> {
+    const branchName = context['branchName'] as string;
+    const session = await this.sessionRepo.getSessionByBranch(branchName);
+
+    return this.postFlightVerification.runAll(
+      [
+        'sessionCreated',
+        'featureBranchCreated',
+        'branchCheckedOut',
+        'commitCreated',
+        'noUncommittedChanges',
+      ],
+      { session: session || undefined, branchName }
+    );
+  }
+
+  /**
+   * Release settings from preferences.release, over the defaults
+   */
+  private async loadSettings(): Promise<ReleaseSettings> {
+    try {
+      return { ...DEFAULT_RELEASE_SETTINGS, ...(await this.configManager.load()).preferences.release };
+    } catch {
+      return DEFAULT_RELEASE_SETTINGS;
+    }
+  }
+}
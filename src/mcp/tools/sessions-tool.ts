@@ -4,10 +4,11 @@ import {
   WorkflowContext,
   WorkflowExecutionResult,
 } from './workflow-tool-base';
-import { QueryToolResult } from './base-tool';
+import { QueryToolResult, QueryToolResultSchema } from './base-tool';
 import { SessionRepository } from '../../services/session-repository';
 import { ConfigurationManager } from '../../services/configuration-manager';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { z } from 'zod';
 
 /**
  * Input for sessions tool
@@ -18,10 +19,25 @@ export interface SessionsToolInput extends WorkflowToolInput {
   verbose?: boolean;
 }
 
+/**
+ * Input schema for sessions tool
+ */
+export const SessionsSchema = z.object({
+  all: z.boolean().optional().describe('Show all sessions including completed'),
+  verbose: z.boolean().optional().describe('Show detailed session information'),
+  cleanup: z.boolean().optional().describe('Clean up expired sessions'),
+  auto: z.boolean().optional().describe('Automatically choose recommended options for prompts'),
+});
+
 /**
  * Sessions tool - Lists workflow sessions
  */
 export class SessionsTool extends BaseMCPTool<SessionsToolInput, QueryToolResult> {
+  readonly name = 'devsolo_sessions';
+  readonly description = 'List workflow sessions';
+  readonly inputSchema = SessionsSchema;
+  readonly outputSchema = QueryToolResultSchema;
+
   constructor(
     private sessionRepo: SessionRepository,
     configManager: ConfigurationManager,
@@ -4,17 +4,33 @@ import {
   WorkflowContext,
   PromptCollectionResult,
   WorkflowExecutionResult,
+  LockServices,
 } from './workflow-tool-base';
-import { GitHubToolResult } from './base-tool';
+import { GitHubToolResult, GitHubToolResultSchema } from './base-tool';
 import { WorkflowSession } from '../../models/workflow-session';
+import { MergeMode, MergeStrategy, StateName } from '../../models/types';
 import { GitOperations } from '../../services/git-operations';
 import { SessionRepository } from '../../services/session-repository';
-import { PreFlightCheckService, PreFlightVerificationResult } from '../../services/validation/pre-flight-check-service';
-import { PostFlightVerification, PostFlightVerificationResult } from '../../services/validation/post-flight-verification';
-import { GitHubIntegration } from '../../services/github-integration';
+import {
+  PreFlightCheckService,
+  PreFlightCheckType,
+  PreFlightVerificationResult,
+} from '../../services/validation/pre-flight-check-service';
+import {
+  PostFlightCheckType,
+  PostFlightVerification,
+  PostFlightVerificationResult,
+} from '../../services/validation/post-flight-verification';
+import { CheckRunDetail, GitHubIntegration, PullRequestInfo } from '../../services/github-integration';
+import { RebaseService, RebaseResult } from '../../services/rebase-service';
+import { RestackResult, StackService } from '../../services/stack-service';
+import { PublishedRelease, ReleaseService } from '../../services/release-service';
+import { derivePRTitle, PRSection, renderPRBody, updatePRBody } from '../../services/pr-content';
 import { ConfigurationManager } from '../../services/configuration-manager';
 import { BranchValidator } from '../../services/validation/branch-validator';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { recordPlannedStep } from '../../services/dry-run';
+import { z } from 'zod';
 
 /**
  * Input for ship tool
@@ -24,16 +40,118 @@ export interface ShipToolInput extends WorkflowToolInput {
   push?: boolean;
   createPR?: boolean;
   merge?: boolean;
+  draft?: boolean;
   prDescription?: string;
   stagedOnly?: boolean;
+  mergeStrategy?: MergeStrategy;
+  mergeMode?: MergeMode;
+}
+
+/**
+ * Input schema for ship tool
+ */
+export const ShipSchema = z.object({
+  prDescription: z.string().optional().describe('Pull request description (footer added automatically)'),
+  push: z.boolean().optional().describe(
+    'Push to remote (default: true). If false, the branch must already be pushed'
+  ),
+  createPR: z.boolean().optional().describe(
+    'Create or update the pull request (default: true). If false, merging uses the PR an earlier ship opened'
+  ),
+  merge: z.boolean().optional().describe(
+    'Wait for checks and reviews, merge and clean up (default: true). If false, ship stops after the earlier steps'
+  ),
+  draft: z.boolean().optional().describe(
+    'Open (or update) the PR as a draft and stop there, without waiting for checks or merging. ' +
+    'Ship again without draft to mark it ready for review and continue'
+  ),
+  mergeStrategy: z.enum(['squash', 'rebase', 'merge']).optional().describe(
+    'How to merge the PR (overrides the configured merge strategy)'
+  ),
+  mergeMode: z.enum(['direct', 'auto', 'queue']).optional().describe(
+    'Who merges the PR: devsolo after checks and reviews (direct), GitHub auto-merge (auto) or the merge queue (queue)'
+  ),
+  auto: z.boolean().optional().describe('Automatically choose recommended options for prompts'),
+  stagedOnly: z.boolean().optional().describe(
+    'If true, only commit staged files when committing changes. If false, stages and commits all changes.'
+  ),
+});
+
+/**
+ * Ship steps, in order. Completing a step records it as a checkpoint in the
+ * session's stateHistory; a re-run resumes at the first incomplete step
+ */
+const SHIP_CHECKPOINTS = [
+  'pushed', 'prCreated', 'checksRunning', 'checksPassed', 'approved', 'merged', 'complete',
+] as const;
+
+export type ShipCheckpoint = typeof SHIP_CHECKPOINTS[number];
+
+/**
+ * Steps a ship run performs (push, createPR and merge all default to true)
+ * - Push only: push so that CI runs
+ * - Push and create PR: stop for human review
+ * - Merge only: wait for checks and reviews on the branch's open PR
+ */
+interface ShipSteps {
+  push: boolean;
+  createPR: boolean;
+  merge: boolean;
 }
 
+/**
+ * Open PR for the branch, as found on GitHub for a merge-only ship
+ */
+interface OpenPR {
+  number: number;
+  url: string;
+  draft: boolean;
+}
+
+/**
+ * State entered at each checkpoint, for standard and hotfix sessions
+ */
+const CHECKPOINT_STATES: Record<'standard' | 'hotfix', Record<ShipCheckpoint, StateName>> = {
+  standard: {
+    pushed: 'PUSHED',
+    prCreated: 'PR_CREATED',
+    checksRunning: 'WAITING_APPROVAL',
+    checksPassed: 'WAITING_APPROVAL',
+    approved: 'MERGING',
+    merged: 'CLEANUP',
+    complete: 'COMPLETE',
+  },
+  hotfix: {
+    pushed: 'HOTFIX_PUSHED',
+    prCreated: 'HOTFIX_PUSHED',
+    checksRunning: 'HOTFIX_PUSHED',
+    checksPassed: 'HOTFIX_PUSHED',
+    approved: 'HOTFIX_VALIDATED',
+    merged: 'HOTFIX_DEPLOYED',
+    complete: 'HOTFIX_COMPLETE',
+  },
+};
+
 /**
  * Ship tool - Commits, pushes, creates PR, merges, and cleans up
  */
 export class ShipTool extends BaseMCPTool<ShipToolInput, GitHubToolResult> {
+  readonly name = 'devsolo_ship';
+  readonly description = 'Push, create PR, merge, and cleanup (requires all changes committed)';
+  readonly inputSchema = ShipSchema;
+  readonly outputSchema = GitHubToolResultSchema;
+  readonly supportsBackground = true;
+  readonly supportsDryRun = true;
+  readonly annotations = {
+    destructiveHint: true,
+    openWorldHint: true,
+  };
+
   private preFlightCheckService: PreFlightCheckService;
   private postFlightVerification: PostFlightVerification;
+  private rebaseService: RebaseService;
+  private stackService: StackService;
+  private releaseService: ReleaseService;
 
   constructor(
     private gitOps: GitOperations,
@@ -47,6 +165,9 @@ export class ShipTool extends BaseMCPTool<ShipToolInput, GitHubToolResult> {
     super(configManager, server);
     this.preFlightCheckService = new PreFlightCheckService(gitOps, sessionRepo);
     this.postFlightVerification = new PostFlightVerification(gitOps, sessionRepo);
+    this.rebaseService = new RebaseService(gitOps, sessionRepo);
+    this.stackService = new StackService(gitOps, sessionRepo, githubIntegration);
+    this.releaseService = new ReleaseService(gitOps, sessionRepo, githubIntegration);
   }
 
   protected getBanner(): string {
@@ -59,25 +180,30 @@ export class ShipTool extends BaseMCPTool<ShipToolInput, GitHubToolResult> {
     return '/devsolo:ship';
   }
 
+  protected getLockServices(): LockServices {
+    return { sessionRepo: this.sessionRepo, gitOps: this.gitOps };
+  }
+
   protected async collectMissingParameters(
     input: ShipToolInput
   ): Promise<PromptCollectionResult> {
     // Prompt-based parameter collection: handle missing PR description
-    if (!input.prDescription) {
-      const currentBranch = await this.gitOps.getCurrentBranch();
+    if (!input.prDescription && this.resolveSteps(input).createPR) {
+      const currentBranch = await this.getShipBranch();
       const needsDescription = await this.checkIfPRDescriptionNeeded(currentBranch);
 
       if (needsDescription) {
         // Get raw context for Claude to analyze
-        const commits = await this.gitOps.getCommitsSince('main');
-        const commitMessages = await this.gitOps.getCommitMessagesSince('main');
+        const base = await this.getBaseBranch(await this.sessionRepo.getSessionByBranch(currentBranch));
+        const commits = await this.gitOps.getCommitsSince(base);
+        const commitMessages = await this.gitOps.getCommitMessagesSince(base);
 
         // Get changed files using git diff
-        const changedFilesOutput = await this.gitOps.execute(['diff', 'main', '--name-only']);
+        const changedFilesOutput = await this.gitOps.execute(['diff', base, '--name-only']);
         const changedFiles = changedFilesOutput.trim().split('\n').filter(f => f.length > 0);
 
         // Get diff stats (raw output for Claude to parse)
-        const diffStats = await this.gitOps.execute(['diff', 'main', '--stat']);
+        const diffStats = await this.gitOps.execute(['diff', base, '--stat']);
 
         return {
           collected: false,
@@ -111,35 +237,65 @@ export class ShipTool extends BaseMCPTool<ShipToolInput, GitHubToolResult> {
     return { collected: true };
   }
 
-  protected async createContext(_input: ShipToolInput): Promise<Record<string, unknown>> {
+  protected async createContext(input: ShipToolInput): Promise<Record<string, unknown>> {
     // Get current branch and session
-    const currentBranch = await this.gitOps.getCurrentBranch();
-    const session = await this.sessionRepo.getSessionByBranch(currentBranch);
+    const currentBranch = await this.getShipBranch();
+    const session =
+      (await this.sessionRepo.getSessionByBranch(currentBranch)) || (await this.findSessionInCleanup());
+    const resumeFrom = session ? this.getResumePoint(session) : null;
 
     // Check for merged/closed PR (BLOCKING ERROR - not in pre-flight checks)
-    const mergedPRCheck = await this.checkForMergedPR(currentBranch);
-    if (!mergedPRCheck.success) {
-      throw new Error(mergedPRCheck.errors?.join(', ') || 'PR check failed');
+    // Skipped once approved or handed to GitHub: the merge may be our own
+    if (!this.isCheckpointReached(resumeFrom, 'approved') && !session?.metadata.pr?.autoMerge) {
+      const mergedPRCheck = await this.checkForMergedPR(currentBranch);
+      if (!mergedPRCheck.success) {
+        throw new Error(mergedPRCheck.errors?.join(', ') || 'PR check failed');
+      }
     }
 
-    return { session };
+    return { session, resumeFrom, steps: this.resolveSteps(input) };
   }
 
   protected async runPreFlightChecks(
     context: WorkflowContext
   ): Promise<PreFlightVerificationResult> {
     const session = context['session'] as WorkflowSession;
+    const resumeFrom = context['resumeFrom'] as ShipCheckpoint | null;
 
-    return this.preFlightCheckService.runAll(
-      [
-        'sessionExists',
-        'onFeatureBranch',
-        'noUncommittedChanges',
-        'hasCommitsToShip',
-        'noMergeConflicts',
-      ],
-      { session }
-    );
+    // Once merged, only cleanup remains (possibly already back on main)
+    if (this.isCheckpointReached(resumeFrom, 'merged')) {
+      return this.preFlightCheckService.runAll(['sessionExists'], { session });
+    }
+
+    // Once handed to GitHub, only its merge and cleanup remain (possibly from main);
+    // resolving rebase conflicts leaves the working tree dirty with HEAD detached
+    if (session?.metadata.pr?.autoMerge || session?.currentState === 'CONFLICT_RESOLUTION') {
+      return this.preFlightCheckService.runAll(['sessionExists'], { session });
+    }
+
+    // Once approved, the PR may already be merged, leaving no commits ahead of main
+    if (this.isCheckpointReached(resumeFrom, 'approved')) {
+      return this.preFlightCheckService.runAll(
+        ['sessionExists', 'onFeatureBranch', 'noUncommittedChanges'],
+        { session }
+      );
+    }
+
+    // Without push, the PR is built from what is already on the remote
+    const steps = context['steps'] as ShipSteps;
+    const checks: PreFlightCheckType[] = ['sessionExists', 'onFeatureBranch', 'noUncommittedChanges'];
+    if (steps.push) {
+      checks.push('hasCommitsToShip', 'noMergeConflicts');
+    } else {
+      checks.push('branchPushed');
+    }
+    if (steps.merge && !steps.createPR && session) {
+      // Looked up once; executeWorkflow merges the PR the check found
+      checks.push('prExists');
+      context['openPR'] = await this.findOpenPR(session);
+    }
+
+    return this.preFlightCheckService.runAll(checks, { session, openPR: context['openPR'] });
   }
 
   protected async executeWorkflow(
@@ -147,60 +303,279 @@ export class ShipTool extends BaseMCPTool<ShipToolInput, GitHubToolResult> {
   ): Promise<WorkflowExecutionResult> {
     const input = context.input as ShipToolInput;
     const session = context['session'] as WorkflowSession;
+    const resumeFrom = context['resumeFrom'] as ShipCheckpoint | null;
+    const steps = context['steps'] as ShipSteps;
+    const done = (checkpoint: ShipCheckpoint): boolean => this.isCheckpointReached(resumeFrom, checkpoint);
 
-    // Step 1: Push to remote
-    await this.pushToRemote(session);
+    if (resumeFrom) {
+      this.reportProgress(context, `Resuming ship after checkpoint ${session.currentState}`);
+    }
 
-    // Step 2: Create or update PR
-    const pr = await this.createOrUpdatePR(session, input.prDescription);
-    if (!pr) {
+    if (input.draft && session.workflowType === 'hotfix') {
+      return { success: false, errors: ['Hotfixes cannot be shipped as a draft PR'] };
+    }
+    if (input.draft && done('prCreated')) {
+      return {
+        success: false,
+        errors: [`PR #${session.metadata.pr?.number} is already ready for review`],
+      };
+    }
+    // A stack ships bottom-up: merging into an unmerged parent would bury the PR
+    const parent = steps.merge && !done('merged') ? await this.stackService.getParent(session) : null;
+    if (parent) {
+      return {
+        success: false,
+        errors: [`${session.branchName} is stacked on ${parent.branchName}, which has not merged yet`],
+        data: {
+          nextSteps: [
+            `Ship ${parent.branchName} first; this branch is then rebased onto its base and its PR retargeted`,
+            'Or call devsolo_ship with merge false to push and open a PR against the parent for review',
+          ],
+        },
+      };
+    }
+    if (!steps.push && session.currentState === 'CONFLICT_RESOLUTION') {
       return {
         success: false,
-        errors: ['Failed to create/update pull request'],
+        errors: ['A rebase stopped on conflicts is continued by shipping with push'],
       };
     }
 
-    // Update session with PR info
-    session.metadata = session.metadata || ({} as any);
-    session.metadata.pr = {
-      number: pr.number,
-      url: pr.url,
-    };
-    await this.sessionRepo.updateSession(session.id, session);
+    // Step 1: Rebase onto the base branch if behind (or continue a rebase stopped on
+    // conflicts), then push to remote
+    // Without push, pre-flight has checked the remote branch is up to date
+    if (!done('pushed') && !steps.push) {
+      await this.recordCheckpoint(session, 'pushed', { pushedBefore: true });
+    } else if (!done('pushed')) {
+      const rebase = await this.rebaseOntoBase(session);
+      if (rebase?.status === 'conflicts') {
+        return this.conflictResult(rebase);
+      }
+      if (rebase?.status === 'rebased') {
+        this.reportProgress(context, `Rebased ${session.branchName} onto ${rebase.onto}`);
+      }
+      if (rebase?.status === 'merged') {
+        this.reportProgress(context, `Merged ${rebase.onto} into ${session.branchName}`);
+      }
 
-    // Step 3: Wait for CI checks and merge
-    const mergeResult = await this.waitAndMerge(session, pr.number);
-    if (!mergeResult.success) {
+      await this.pushToRemote(session);
+      await this.recordCheckpoint(session, 'pushed');
+      this.reportProgress(context, `Pushed ${session.branchName} to origin`);
+    }
+    this.throwIfCancelled(context);
+
+    if (!steps.createPR && !steps.merge) {
       return {
-        success: false,
-        errors: mergeResult.errors || ['Failed to merge PR'],
+        success: true,
+        data: {
+          merged: false,
+          message: `Pushed ${session.branchName}; CI runs on the pushed commits`,
+          nextSteps: ['Call devsolo_ship again to open a PR and merge, or with merge false to stop for review'],
+        },
       };
     }
 
-    // Step 4: Sync main and cleanup
-    await this.syncMainAndCleanup(session);
+    // Step 2: Create or update PR (reusing the PR recorded by an earlier run)
+    // A draft PR stops here; shipping again without draft marks it ready for review
+    let pr: { number: number; url: string; title?: string; draft?: boolean } | null = null;
+    if (done('prCreated') && session.metadata.pr?.number) {
+      pr = { number: session.metadata.pr.number, url: session.metadata.pr.url || '' };
+    } else {
+      pr = steps.createPR
+        ? await this.createOrUpdatePR(session, input.prDescription, input.draft)
+        : ((context['openPR'] as OpenPR | null | undefined) ?? (await this.findOpenPR(session)));
+      if (!pr) {
+        return {
+          success: false,
+          errors: [
+            steps.createPR
+              ? 'Failed to create/update pull request'
+              : `No open pull request for ${session.branchName}; ship with createPR to open one`,
+          ],
+        };
+      }
+
+      // Update session with PR info
+      session.metadata = session.metadata || ({} as any);
+      session.metadata.pr = {
+        ...session.metadata.pr,
+        number: pr.number,
+        url: pr.url,
+        ...(pr.title && { title: pr.title }),
+      };
+
+      if (input.draft && pr.draft) {
+        await this.sessionRepo.transitionSession(session, 'PR_DRAFT', 'ship_command', { prNumber: pr.number });
+        return this.draftResult(pr);
+      }
+      if (pr.draft) {
+        await this.githubIntegration.markReadyForReview(pr.number);
+        this.reportProgress(context, `Marked draft PR #${pr.number} ready for review`);
+      }
+      await this.recordCheckpoint(session, 'prCreated', { prNumber: pr.number });
+
+      if (input.draft) {
+        return {
+          ...this.draftResult(pr),
+          warnings: [`PR #${pr.number} is already ready for review and was left as it is`],
+        };
+      }
+    }
+    this.reportProgress(context, `Pull request #${pr.number} ready: ${pr.url}`);
+
+    if (!steps.merge) {
+      return {
+        success: true,
+        data: {
+          prNumber: pr.number,
+          prUrl: pr.url,
+          merged: false,
+          message: `PR #${pr.number} is open for review`,
+          nextSteps: ['Call devsolo_ship with push false and createPR false to wait for checks and reviews and merge'],
+        },
+      };
+    }
+
+    const autoMerge = session.metadata.pr?.autoMerge;
+    const mergeMode = autoMerge?.mode || (await this.resolveMergeMode(input.mergeMode));
+    const mergeStrategy = (autoMerge && session.metadata.pr?.mergeStrategy) ||
+      (await this.resolveMergeStrategy(session, input.mergeStrategy));
+
+    // Steps 3-5 handed to GitHub: it merges once checks and reviews pass
+    if (mergeMode !== 'direct') {
+      if (!done('merged')) {
+        const pending = await this.awaitGitHubMerge(context, session, pr, mergeMode, mergeStrategy, done('checksRunning'));
+        if (pending) {
+          return pending;
+        }
+      }
+      const release = await this.publishRelease(context, session);
+      const restacked = await this.syncMainAndCleanup(session);
+
+      return {
+        success: true,
+        warnings: [...this.restackWarnings(restacked), ...this.releaseWarnings(release)],
+        data: {
+          prNumber: pr.number,
+          prUrl: pr.url,
+          merged: true,
+          mergeMode,
+          ...(restacked.length > 0 && { restacked }),
+          ...(release && { release }),
+        },
+      };
+    }
+
+    // Step 3: Wait for CI checks
+    this.throwIfCancelled(context);
+    if (!done('checksPassed')) {
+      if (!done('checksRunning')) {
+        await this.recordCheckpoint(session, 'checksRunning', { prNumber: pr.number });
+      }
+      const checksResult = await this.waitForChecks(context, pr.number);
+      if (!checksResult.success) {
+        return {
+          success: false,
+          errors: checksResult.errors || ['CI checks did not pass'],
+          data: checksResult.data,
+        };
+      }
+      await this.recordCheckpoint(session, 'checksPassed', { prNumber: pr.number });
+    }
+
+    // Step 4: Required reviews (stops in WAITING_APPROVAL until approved)
+    this.throwIfCancelled(context);
+    if (!done('approved')) {
+      const reviewResult = await this.checkReviews(session, pr.number);
+      if (!reviewResult.success) {
+        return {
+          success: false,
+          errors: reviewResult.errors,
+          data: { prNumber: pr.number, prUrl: pr.url, ...reviewResult.data },
+        };
+      }
+      await this.recordCheckpoint(session, 'approved', {
+        prNumber: pr.number,
+        ...reviewResult.data,
+        ...(await this.hotfixApproval(session, pr.number, reviewResult)),
+      });
+    }
+
+    // Step 5: Merge (unless an interrupted run already merged)
+    this.throwIfCancelled(context);
+    if (!done('merged')) {
+      const mergeResult = await this.mergePR(context, session, pr.number, mergeStrategy);
+      if (!mergeResult.success) {
+        return {
+          success: false,
+          errors: mergeResult.errors || ['Failed to merge PR'],
+        };
+      }
+    }
+
+    // Step 6: Tag and publish a release, sync the base branch, restack sessions
+    // stacked on this one, and cleanup
+    const release = await this.publishRelease(context, session);
+    const restacked = await this.syncMainAndCleanup(session);
 
     return {
       success: true,
+      warnings: [...this.restackWarnings(restacked), ...this.releaseWarnings(release)],
       data: {
         prNumber: pr.number,
         prUrl: pr.url,
         merged: true,
+        ...(restacked.length > 0 && { restacked }),
+        ...(release && { release }),
+        ...(resumeFrom && { resumedFrom: CHECKPOINT_STATES[this.checkpointStates(session)][resumeFrom] }),
       },
     };
   }
 
+  /**
+   * Keep the PR and review details (e.g. requested changes) on failure
+   */
+  protected createWorkflowErrorResult(workflowResult: WorkflowExecutionResult): GitHubToolResult {
+    const { nextSteps, ...data } = workflowResult.data || {};
+    return {
+      ...super.createWorkflowErrorResult(workflowResult),
+      ...data,
+      ...(Array.isArray(nextSteps) && { nextSteps: nextSteps as string[] }),
+    };
+  }
+
   protected async runPostFlightVerifications(
     context: WorkflowContext,
-    _workflowResult: WorkflowExecutionResult
-  ): Promise<PostFlightVerificationResult> {
+    workflowResult: WorkflowExecutionResult
+  ): Promise<PostFlightVerificationResult | null> {
     const session = context['session'] as WorkflowSession;
+    const steps = context['steps'] as ShipSteps;
+    const data = workflowResult.data || {};
+
+    // Stopped before merging (partial ship or draft PR): verify the steps that ran
+    if (!steps.merge || data['draft']) {
+      const checks: PostFlightCheckType[] = steps.push ? ['branchPushed'] : [];
+      if (steps.createPR) {
+        checks.push('prCreated', 'prLinkedToSession');
+      }
+      return this.postFlightVerification.runAll(checks, {
+        session,
+        prNumber: data['prNumber'] as number | undefined,
+        prUrl: data['prUrl'] as string | undefined,
+      });
+    }
+
+    // Still waiting for GitHub to merge: nothing to verify yet
+    if (data['merged'] === false) {
+      return null;
+    }
 
     return this.postFlightVerification.runAll(
       [
         'branchMerged',
         'featureBranchDeleted',
         'sessionClosed',
+        'linearHistory',
       ],
       { session }
     );
@@ -287,39 +662,169 @@ export class ShipTool extends BaseMCPTool<ShipToolInput, GitHubToolResult> {
   }
 
 
+  /**
+   * Rebase onto the base branch, or continue a rebase stopped on conflicts
+   * Null when the session's workflow doesn't rebase (hotfixes)
+   */
+  private async rebaseOntoBase(session: WorkflowSession): Promise<RebaseResult | null> {
+    if (session.currentState === 'CONFLICT_RESOLUTION') {
+      return this.rebaseService.continueRebase(session, 'ship_command');
+    }
+    if (!this.rebaseService.canRebase(session)) {
+      return null;
+    }
+    return this.rebaseService.rebaseOntoBase(session, 'ship_command');
+  }
+
+  /**
+   * Stopped after opening or updating a draft PR
+   */
+  private draftResult(pr: { number: number; url: string }): WorkflowExecutionResult {
+    return {
+      success: true,
+      data: {
+        prNumber: pr.number,
+        prUrl: pr.url,
+        draft: true,
+        merged: false,
+        message: `Draft PR #${pr.number} is open for early feedback and CI`,
+        nextSteps: [
+          'Keep committing with devsolo_commit; devsolo_ship with draft updates the PR',
+          'Call devsolo_ship without draft to mark the PR ready for review and continue to merge',
+        ],
+      },
+    };
+  }
+
+  private conflictResult(rebase: RebaseResult): WorkflowExecutionResult {
+    return {
+      success: false,
+      errors: [
+        `${rebase.strategy === 'merge' ? `Merging ${rebase.onto}` : `Rebase onto ${rebase.onto}`} stopped on ` +
+          `conflicts in ${rebase.conflicts.map(file => file.path).join(', ')}`,
+      ],
+      data: {
+        conflicts: rebase.conflicts,
+        nextSteps: [
+          'Resolve each hunk: ours is the base branch, theirs is your commit, base is their common ancestor',
+          'Remove the conflict markers and save each file',
+          'Call devsolo_ship again to continue the rebase, or devsolo_abort to give up',
+        ],
+      },
+    };
+  }
+
   /**
    * Push to remote
+   * A branch rebased since its last push (by this ship or devsolo_sync)
+   * replaces its remote copy, unless someone else pushed to it
    */
   private async pushToRemote(session: WorkflowSession): Promise<void> {
-    await this.gitOps.push('origin', session.branchName, ['--set-upstream']);
+    await this.gitOps.push(
+      'origin',
+      session.branchName,
+      this.rebasedSinceLastPush(session) ? ['--set-upstream', '--force-with-lease'] : ['--set-upstream']
+    );
+  }
+
+  private rebasedSinceLastPush(session: WorkflowSession): boolean {
+    for (const entry of [...session.stateHistory].reverse()) {
+      if (entry.to === CHECKPOINT_STATES.standard.pushed) {
+        return false;
+      }
+      if (entry.metadata?.['rebased']) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Which of push, create PR and merge this run performs
+   */
+  private resolveSteps(input: ShipToolInput): ShipSteps {
+    return {
+      push: input.push !== false,
+      createPR: input.createPR !== false,
+      merge: input.merge !== false,
+    };
+  }
+
+  /**
+   * Open PR for the branch on GitHub, when merging a PR an earlier ship (or
+   * anyone else) opened; prExists passes on the same lookup
+   */
+  private async findOpenPR(session: WorkflowSession): Promise<OpenPR | null> {
+    const existingPR = await this.githubIntegration.getPullRequestForBranch(session.branchName);
+    return existingPR && { number: existingPR.number, url: existingPR.html_url, draft: existingPR.draft === true };
+  }
+
+  /**
+   * Branch the session's PR targets: its own base branch, else the trunk
+   */
+  private async getBaseBranch(session: WorkflowSession | null): Promise<string> {
+    return session?.metadata.baseBranch || this.gitOps.getMainBranch();
+  }
+
+  /**
+   * Branch being shipped; HEAD is detached while a rebase is stopped on conflicts
+   */
+  private async getShipBranch(): Promise<string> {
+    return (await this.gitOps.getRebasingBranch()) || (await this.gitOps.getCurrentBranch());
   }
 
   /**
    * Create or update PR
+   * An existing PR gets a regenerated title and body covering new commits;
+   * a title or body section someone edited on GitHub is kept
+   * A new PR is opened as a draft when draft is set
    */
   private async createOrUpdatePR(
     session: WorkflowSession,
-    prDescription?: string
-  ): Promise<{ number: number; url: string } | null> {
+    prDescription?: string,
+    draft?: boolean
+  ): Promise<{ number: number; url: string; title: string; draft: boolean } | null> {
     try {
+      const base = await this.getBaseBranch(session);
+      const commitMessages = await this.gitOps.getCommitMessagesSince(base);
+      const title = this.generatePRTitle(session, commitMessages);
+      const sections = await this.generatePRSections(session, commitMessages, prDescription);
+
       // Check if PR already exists
       const existingPR = await this.githubIntegration.getPullRequestForBranch(session.branchName);
 
       if (existingPR) {
-        // PR exists, just return it (no need to update)
+        const changes: { title?: string; body?: string } = {};
+        const generatedTitle = session.metadata.pr?.title;
+        if (
+          existingPR.title !== title &&
+          (existingPR.title === generatedTitle || /^\[(ship|launch|hotfix|release)\] /.test(existingPR.title))
+        ) {
+          changes.title = title;
+        }
+        const body = updatePRBody(existingPR.body || '', sections, prDescription ? ['description'] : []);
+        if (body !== (existingPR.body || '')) {
+          changes.body = body;
+        }
+        if (Object.keys(changes).length > 0) {
+          await this.githubIntegration.updatePullRequest(existingPR.number, changes);
+        }
+
         return {
           number: existingPR.number,
           url: existingPR.html_url,
+          title: changes.title || existingPR.title,
+          draft: existingPR.draft === true,
         };
       }
 
       // Create new PR
-      const prPrefix = session.workflowType === 'launch' ? 'ship' : session.workflowType;
       const prInfo = {
-        title: `[${prPrefix}] ${session.branchName}`,
-        body: await this.generatePRDescription(session, prDescription),
-        base: 'main',
+        title,
+        body: await this.appendPRFooter(renderPRBody(sections)),
+        base,
         head: session.branchName,
+        draft,
       };
 
       const pr = await this.githubIntegration.createPullRequest(prInfo);
@@ -328,89 +833,474 @@ export class ShipTool extends BaseMCPTool<ShipToolInput, GitHubToolResult> {
         return null;
       }
 
-      return { number: pr.number, url: pr.html_url };
+      return { number: pr.number, url: pr.html_url, title, draft: pr.draft === true };
     } catch (error) {
       throw new Error(`Failed to create/update PR: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
   /**
-   * Wait for CI checks and merge
+   * Wait for CI checks
+   * Cancellation stops polling; the session stays at its checksRunning
+   * checkpoint so that running ship again resumes waiting
+   * When every failed check is on the flaky allowlist (preferences.ci), the
+   * failed jobs are re-run up to maxReruns times each before the failure stands
    */
-  private async waitAndMerge(
-    session: WorkflowSession,
+  private async waitForChecks(
+    context: WorkflowContext,
     prNumber: number
-  ): Promise<{ success: boolean; errors?: string[] }> {
+  ): Promise<{ success: boolean; errors?: string[]; data?: Record<string, unknown> }> {
     try {
-      // Wait for CI checks
-      const result = await this.githubIntegration.waitForChecks(prNumber, {
-        timeout: 20 * 60 * 1000, // 20 minutes
-        pollInterval: 30 * 1000, // 30 seconds
-      });
+      const ci = await this.loadCIPreferences();
+      const reruns = new Map<string, number>();
+      const supersededRuns: number[] = [];
+
+      // Wait for CI checks, reporting each check as it completes
+      const reported = new Set<number | string>();
+      let result: Awaited<ReturnType<GitHubIntegration['waitForChecks']>>;
+      for (;;) {
+        result = await this.githubIntegration.waitForChecks(prNumber, {
+          timeout: 20 * 60 * 1000, // 20 minutes
+          pollInterval: 30 * 1000, // 30 seconds
+          signal: context.signal,
+          supersededRuns,
+          onProgress: (status) => {
+            for (const check of status.details) {
+              const key = check.id ?? check.name;
+              if (check.status === 'completed' && !reported.has(key)) {
+                reported.add(key);
+                this.reportProgress(context, `Check ${check.name}: ${check.conclusion || 'completed'}`);
+              }
+            }
+            this.reportProgress(
+              context,
+              `CI checks: ${status.passed} passed, ${status.failed} failed, ${status.pending} pending`
+            );
+          },
+        });
+
+        const failedRuns = result.failedRuns || [];
+        const rerunnable = failedRuns.length > 0 && failedRuns.every(run =>
+          run.id !== undefined &&
+          ci.flakyChecks.some(pattern => this.matchesCheckName(pattern, run.name)) &&
+          (reruns.get(run.name) || 0) < ci.maxReruns
+        );
+        if (result.success || !rerunnable || !(await this.rerunChecks(context, failedRuns, reruns))) {
+          break;
+        }
+        supersededRuns.push(...failedRuns.map(run => run.id!));
+      }
 
       if (!result.success) {
-        if (result.timedOut) {
+        if (result.cancelled) {
+          return {
+            success: false,
+            errors: [
+              `Cancelled while waiting for CI checks on PR #${prNumber}`,
+              'Run devsolo_ship again to resume waiting for CI checks',
+            ],
+          };
+        } else if (result.timedOut) {
           return {
             success: false,
             errors: ['Timed out waiting for CI checks (20 minutes)'],
           };
         } else {
+          const checkFailures = [];
+          for (const run of result.failedRuns || []) {
+            checkFailures.push(await this.githubIntegration.getCheckFailure(run, ci.logLines));
+          }
           return {
             success: false,
             errors: [`CI checks failed: ${result.failedChecks.join(', ')}`],
+            data: {
+              checkFailures,
+              ...(reruns.size > 0 && { checkReruns: Object.fromEntries(reruns) }),
+              nextSteps: [
+                'Fix the failures shown by each check\'s annotations and log tail',
+                'Use devsolo_commit to commit the fix',
+                'Call devsolo_ship again to push and re-run the checks',
+              ],
+            },
           };
         }
       }
+      this.reportProgress(context, 'All CI checks passed');
 
-      // Merge PR
-      const merged = await this.githubIntegration.mergePullRequest(prNumber, 'squash');
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        errors: [`Waiting for CI checks failed: ${error instanceof Error ? error.message : String(error)}`],
+      };
+    }
+  }
 
-      if (!merged) {
-        return {
-          success: false,
-          errors: ['Failed to merge PR via GitHub API'],
-        };
+  /**
+   * Re-run failed flaky checks, counting the re-runs per check name
+   * Returns false if any could not be re-run
+   */
+  private async rerunChecks(
+    context: WorkflowContext,
+    runs: CheckRunDetail[],
+    reruns: Map<string, number>
+  ): Promise<boolean> {
+    for (const run of runs) {
+      if (!(await this.githubIntegration.rerunCheck(run))) {
+        return false;
       }
+      reruns.set(run.name, (reruns.get(run.name) || 0) + 1);
+      this.reportProgress(context, `Re-running flaky check ${run.name} (attempt ${reruns.get(run.name)! + 1})`);
+    }
+    return true;
+  }
 
-      // Update session metadata
-      session.metadata = session.metadata || ({} as any);
-      if (session.metadata.pr) {
-        session.metadata.pr.merged = true;
-        session.metadata.pr.mergedAt = new Date().toISOString();
+  /**
+   * Check name patterns support '*' wildcards
+   */
+  private matchesCheckName(pattern: string, name: string): boolean {
+    const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(`^${escaped.join('.*')}$`).test(name);
+  }
+
+  private async loadCIPreferences(): Promise<{ flakyChecks: string[]; maxReruns: number; logLines: number }> {
+    try {
+      const ci = (await this.configManager.load()).preferences.ci;
+      return { flakyChecks: ci?.flakyChecks || [], maxReruns: ci?.maxReruns ?? 0, logLines: ci?.logLines ?? 50 };
+    } catch {
+      return { flakyChecks: [], maxReruns: 0, logLines: 50 };
+    }
+  }
+
+  /**
+   * Check the PR has the required approvals and no requested changes
+   * Required approvals: the larger of branch protection on the base branch and
+   * preferences.review.minReviewers (per workflow type); none for hotfixes
+   * launched with skipReview
+   */
+  private async checkReviews(
+    session: WorkflowSession,
+    prNumber: number
+  ): Promise<{ success: boolean; errors?: string[]; data?: Record<string, unknown> }> {
+    if (session.metadata.context?.['skipReview']) {
+      return { success: true, data: { reviewSkipped: true } };
+    }
+    if (recordPlannedStep('github', `Check reviews on PR #${prNumber} (assumed approved)`)) {
+      return { success: true };
+    }
+
+    const required = await this.resolveRequiredApprovals(session);
+    const status = await this.githubIntegration.getReviewStatus(prNumber);
+
+    if (status.changesRequested) {
+      const reviewComments = await this.githubIntegration.getReviewComments(prNumber);
+      return {
+        success: false,
+        errors: [`Changes requested on PR #${prNumber} by ${status.changesRequestedBy.join(', ')}`],
+        data: {
+          reviewComments,
+          nextSteps: [
+            'Address each review comment (path and line show where)',
+            'Use devsolo_commit to commit the fixes',
+            'Call devsolo_ship again to push and re-request review',
+          ],
+        },
+      };
+    }
+
+    if (status.approvals < required) {
+      return {
+        success: false,
+        errors: [`PR #${prNumber} needs ${required} approval(s), has ${status.approvals}`],
+        data: {
+          approvals: status.approvals,
+          requiredApprovals: required,
+          nextSteps: ['Ask a reviewer to approve the PR', 'Call devsolo_ship again once approved'],
+        },
+      };
+    }
+
+    return { success: true, data: { approvals: status.approvals, requiredApprovals: required } };
+  }
+
+  private async resolveRequiredApprovals(session: WorkflowSession): Promise<number> {
+    let configured = 0;
+    try {
+      const review = (await this.configManager.load()).preferences.review;
+      configured = review?.workflows?.[session.workflowType] ?? review?.minReviewers ?? 0;
+    } catch {
+      // No configuration - rely on branch protection
+    }
+
+    const base = await this.getBaseBranch(session);
+    const protectedMinimum = await this.githubIntegration.getRequiredApprovals(base).catch(() => 0);
+    return Math.max(configured, protectedMinimum);
+  }
+
+  /**
+   * Merge PR and record the merged checkpoint
+   * A PR that is already merged (by an interrupted run) is not merged again
+   */
+  private async mergePR(
+    context: WorkflowContext,
+    session: WorkflowSession,
+    prNumber: number,
+    mergeStrategy: MergeStrategy
+  ): Promise<{ success: boolean; errors?: string[] }> {
+    try {
+      const current = await this.githubIntegration.getPullRequest(prNumber).catch(() => null);
+      const alreadyMerged = current?.merged === true;
+
+      if (!alreadyMerged) {
+        const commit = mergeStrategy === 'squash'
+          ? await this.composeSquashCommit(session, prNumber, current?.title)
+          : {};
+        const merged = await this.githubIntegration.mergePullRequest(prNumber, mergeStrategy, commit);
+
+        if (!merged) {
+          return {
+            success: false,
+            errors: [`Failed to ${mergeStrategy} merge PR via GitHub API`],
+          };
+        }
       }
-      await this.sessionRepo.updateSession(session.id, session);
+
+      const mergedPR = alreadyMerged ? current : await this.githubIntegration.getPullRequest(prNumber).catch(() => null);
+      await this.recordMerged(session, prNumber, mergeStrategy, mergedPR);
+      this.reportProgress(
+        context,
+        alreadyMerged ? `PR #${prNumber} was already merged` : `Merged PR #${prNumber} (${mergeStrategy})`
+      );
 
       return { success: true };
     } catch (error) {
       return {
         success: false,
-        errors: [`Wait and merge failed: ${error instanceof Error ? error.message : String(error)}`],
+        errors: [`Merge failed: ${error instanceof Error ? error.message : String(error)}`],
+      };
+    }
+  }
+
+  /**
+   * Update session metadata and record the merged checkpoint
+   * The merge commit is verified in post-flight (not for merge queues, whose
+   * merge method is configured on GitHub)
+   */
+  private async recordMerged(
+    session: WorkflowSession,
+    prNumber: number,
+    mergeStrategy: MergeStrategy | undefined,
+    mergedPR: PullRequestInfo | null
+  ): Promise<void> {
+    session.metadata = session.metadata || ({} as any);
+    if (session.metadata.pr) {
+      session.metadata.pr.merged = true;
+      session.metadata.pr.mergedAt = session.metadata.pr.mergedAt || new Date().toISOString();
+      session.metadata.pr.mergeStrategy = mergeStrategy;
+      session.metadata.pr.mergeCommitSha = mergedPR?.merge_commit_sha;
+      session.metadata.pr.commitCount = mergedPR?.commits;
+    }
+    await this.recordCheckpoint(session, 'merged', {
+      prNumber,
+      mergeStrategy,
+      ...(session.workflowType === 'hotfix' && { deploymentSuccessful: true }),
+    });
+  }
+
+  /**
+   * Hand the merge to GitHub (auto-merge or merge queue) on the first run,
+   * then check whether GitHub has merged the PR
+   * Returns the result to stop with while the PR is still waiting, or null
+   * once it is merged and cleanup can go ahead
+   */
+  private async awaitGitHubMerge(
+    context: WorkflowContext,
+    session: WorkflowSession,
+    pr: { number: number; url: string },
+    mergeMode: Exclude<MergeMode, 'direct'>,
+    mergeStrategy: MergeStrategy,
+    waiting: boolean
+  ): Promise<WorkflowExecutionResult | null> {
+    const handOff = mergeMode === 'queue' ? 'merge queue' : 'auto-merge';
+
+    if (!session.metadata.pr?.autoMerge) {
+      try {
+        let queuePosition: number | undefined;
+        if (mergeMode === 'queue') {
+          queuePosition = (await this.githubIntegration.enqueuePullRequest(pr.number)).position;
+        } else {
+          const commit = mergeStrategy === 'squash'
+            ? await this.composeSquashCommit(session, pr.number)
+            : {};
+          await this.githubIntegration.enableAutoMerge(pr.number, mergeStrategy, commit);
+        }
+
+        session.metadata.pr = {
+          ...session.metadata.pr,
+          ...(mergeMode === 'auto' && { mergeStrategy }),
+          autoMerge: {
+            mode: mergeMode,
+            enabledAt: new Date().toISOString(),
+            ...(queuePosition !== undefined && { queuePosition }),
+          },
+        };
+      } catch (error) {
+        return {
+          success: false,
+          errors: [
+            `Failed to enable ${handOff} on PR #${pr.number}: ${error instanceof Error ? error.message : String(error)}`,
+          ],
+          data: {
+            prNumber: pr.number,
+            prUrl: pr.url,
+            nextSteps: [
+              `Check that ${handOff} is enabled for the repository`,
+              'Or call devsolo_ship again with mergeMode: "direct"',
+            ],
+          },
+        };
+      }
+      this.reportProgress(context, `Enabled ${handOff} on PR #${pr.number}`);
+    }
+
+    if (!waiting) {
+      await this.recordCheckpoint(session, 'checksRunning', { prNumber: pr.number, mergeMode });
+    }
+
+    if (recordPlannedStep('github', `Wait for GitHub to merge PR #${pr.number} (${handOff})`)) {
+      return null;
+    }
+
+    const current = await this.githubIntegration.getPullRequest(pr.number).catch(() => null);
+    if (current?.merged) {
+      await this.recordCheckpoint(session, 'approved', {
+        prNumber: pr.number,
+        mergeMode,
+        ...(await this.hotfixApproval(session, pr.number)),
+      });
+      await this.recordMerged(session, pr.number, mergeMode === 'auto' ? mergeStrategy : undefined, current);
+      this.reportProgress(context, `GitHub merged PR #${pr.number} (${handOff})`);
+      return null;
+    }
+
+    if (current?.state === 'closed') {
+      return {
+        success: false,
+        errors: [`PR #${pr.number} was closed without being merged`],
+        data: {
+          prNumber: pr.number,
+          prUrl: pr.url,
+          nextSteps: ['Reopen the PR and call devsolo_ship again, or abort the session with devsolo_abort'],
+        },
       };
     }
+
+    return {
+      success: true,
+      data: {
+        prNumber: pr.number,
+        prUrl: pr.url,
+        merged: false,
+        mergeMode,
+        ...(session.metadata.pr?.autoMerge?.queuePosition !== undefined && {
+          queuePosition: session.metadata.pr.autoMerge.queuePosition,
+        }),
+        message: `PR #${pr.number} will be merged by GitHub (${handOff}) once its checks and reviews pass`,
+        nextSteps: [
+          'Use devsolo_info to see whether GitHub has merged the PR',
+          'Call devsolo_ship again after the merge to sync main and clean up',
+        ],
+      },
+    };
+  }
+
+  /**
+   * Who merges the PR
+   * Priority: input > preferences.merge.mode > direct
+   */
+  private async resolveMergeMode(requested?: MergeMode): Promise<MergeMode> {
+    if (requested) {
+      return requested;
+    }
+
+    try {
+      return (await this.configManager.load()).preferences.merge?.mode || 'direct';
+    } catch {
+      return 'direct';
+    }
   }
 
   /**
-   * Sync main and cleanup
+   * Merge strategy for this ship
+   * Priority: input > preferences.merge.workflows[type] > preferences.merge.strategy > squash
+   */
+  private async resolveMergeStrategy(
+    session: WorkflowSession,
+    requested?: MergeStrategy
+  ): Promise<MergeStrategy> {
+    if (requested) {
+      return requested;
+    }
+
+    try {
+      const merge = (await this.configManager.load()).preferences.merge;
+      return merge?.workflows?.[session.workflowType] || merge?.strategy || 'squash';
+    } catch {
+      return 'squash';
+    }
+  }
+
+  /**
+   * Squash commit title from the PR title, body from the branch's commit
+   * trailers (Co-authored-by, Signed-off-by, ...) so they survive the squash
+   */
+  private async composeSquashCommit(
+    session: WorkflowSession,
+    prNumber: number,
+    prTitle?: string
+  ): Promise<{ commitTitle: string; commitMessage: string }> {
+    const prPrefix = session.workflowType === 'launch' ? 'ship' : session.workflowType;
+    const title = prTitle || session.metadata.pr?.title || `[${prPrefix}] ${session.branchName}`;
+    const trailers = await this.gitOps.getCommitTrailersSince(await this.getBaseBranch(session));
+
+    return {
+      commitTitle: `${title} (#${prNumber})`,
+      commitMessage: trailers.join('\n'),
+    };
+  }
+
+  /**
+   * Sync the base branch (the trunk, unless the session has its own) and cleanup
+   * Sessions stacked on this one are restacked before its branch is deleted
    * Uses try-finally to ensure session cleanup always happens
    */
-  private async syncMainAndCleanup(session: WorkflowSession): Promise<void> {
+  private async syncMainAndCleanup(session: WorkflowSession): Promise<RestackResult[]> {
+    let restacked: RestackResult[] = [];
     try {
-      // Switch to main
+      // Switch to the base branch
+      const base = await this.getBaseBranch(session);
       try {
-        await this.gitOps.checkoutBranch('main');
+        await this.gitOps.checkoutBranch(base);
       } catch (error) {
-        console.error('Failed to checkout main branch:', error);
+        console.error(`Failed to checkout ${base} branch:`, error);
         // Continue anyway - session cleanup must happen
       }
 
-      // Pull latest (includes squashed merge)
+      // Pull latest (includes the merge)
       try {
-        await this.gitOps.pull('origin', 'main');
+        await this.gitOps.pull('origin', base);
       } catch (error) {
-        console.error('Failed to pull main branch:', error);
+        console.error(`Failed to pull ${base} branch:`, error);
         // Continue anyway - session cleanup must happen
       }
 
+      // Move stacked sessions onto the base (their PRs would close with this branch)
+      try {
+        restacked = await this.stackService.restackChildren(session, 'ship_command');
+      } catch (error) {
+        console.error('Failed to restack stacked sessions:', error);
+      }
+
       // Delete local branch
       try {
         await this.gitOps.deleteBranch(session.branchName, true);
@@ -431,8 +1321,7 @@ export class ShipTool extends BaseMCPTool<ShipToolInput, GitHubToolResult> {
     } finally {
       // CRITICAL: Always mark session as complete and cleanup, even if git operations fail
       try {
-        session.transitionTo('COMPLETE', 'ship_command');
-        await this.sessionRepo.updateSession(session.id, session);
+        await this.recordCheckpoint(session, 'complete');
       } catch (error) {
         console.error('Failed to mark session as complete:', error);
       }
@@ -445,63 +1334,184 @@ export class ShipTool extends BaseMCPTool<ShipToolInput, GitHubToolResult> {
         console.error('Failed to cleanup session:', error);
       }
     }
+    return restacked;
+  }
+
+  /**
+   * Stacked sessions that still need attention after a restack
+   */
+  private restackWarnings(restacked: RestackResult[]): string[] {
+    return restacked.flatMap(child => [
+      ...(child.status === 'conflicts'
+        ? [`Restacking ${child.branch} onto ${child.base} conflicts; run devsolo_sync on it to resolve`]
+        : []),
+      ...(child.prRetargeted === false ? [`Failed to retarget PR #${child.prNumber} to ${child.base}`] : []),
+      ...(child.error ? [`${child.branch}: ${child.error}`] : []),
+    ]);
+  }
+
+  /**
+   * Tag the merge commit of a release session and publish its GitHub release
+   * A failure is reported as a warning: the merge itself has succeeded
+   */
+  private async publishRelease(
+    context: WorkflowContext,
+    session: WorkflowSession
+  ): Promise<PublishedRelease | null> {
+    if (session.workflowType !== 'release' || !session.metadata.release) {
+      return null;
+    }
+
+    const release = await this.releaseService.publish(session);
+    if (release.published) {
+      this.reportProgress(context, `Published release ${release.tag}: ${release.url || ''}`);
+    }
+    return release;
+  }
+
+  private releaseWarnings(release: PublishedRelease | null): string[] {
+    if (!release || release.published) {
+      return [];
+    }
+    return [
+      `Release ${release.tag} was not published: ${release.error}. ` +
+        `Tag the merge commit ${release.tag} and publish it with its changelog entry as the release notes`,
+    ];
   }
 
   /**
-   * Generate PR description
+   * Record a completed ship step in the session's stateHistory
    */
-  private async generatePRDescription(
+  private async recordCheckpoint(
     session: WorkflowSession,
-    customDescription?: string
-  ): Promise<string> {
-    const config = await this.configManager.load();
-    const footer = config.preferences.prTemplate?.footer || '';
+    checkpoint: ShipCheckpoint,
+    metadata: Record<string, unknown> = {}
+  ): Promise<void> {
+    const state = CHECKPOINT_STATES[this.checkpointStates(session)][checkpoint];
+    await this.sessionRepo.transitionSession(session, state, 'ship_command', { ...metadata, checkpoint });
+  }
 
-    let description: string;
+  /**
+   * Last ship checkpoint, if nothing has happened to the session since
+   * Any later transition (e.g. a new commit) means shipping starts over
+   */
+  private getResumePoint(session: WorkflowSession): ShipCheckpoint | null {
+    const last = session.stateHistory[session.stateHistory.length - 1];
+    const checkpoint = last?.metadata?.['checkpoint'] as ShipCheckpoint | undefined;
 
-    if (customDescription) {
-      // Use provided description
-      description = customDescription.trim();
-    } else {
-      // Generate from template or defaults
-      const bodyTemplate = config.preferences.prTemplate?.body;
-      const storedDescription =
-        (session.metadata?.context as any)?.description ||
-        session.branchName.replace(/^[^/]+\//, '').replace(/-/g, ' ');
+    if (!last || !checkpoint || !SHIP_CHECKPOINTS.includes(checkpoint) || last.to !== session.currentState) {
+      return null;
+    }
+    return checkpoint;
+  }
 
-      const commitMessages = await this.gitOps.getCommitMessagesSince('main');
-      const commitsText =
-        commitMessages.length > 0
-          ? commitMessages.map(msg => `- ${msg}`).join('\n')
-          : '- Initial commit';
+  private isCheckpointReached(resumeFrom: ShipCheckpoint | null, checkpoint: ShipCheckpoint): boolean {
+    return resumeFrom !== null && SHIP_CHECKPOINTS.indexOf(resumeFrom) >= SHIP_CHECKPOINTS.indexOf(checkpoint);
+  }
 
-      if (bodyTemplate) {
-        description = bodyTemplate
-          .replace(/\{\{description\}\}/g, storedDescription)
-          .replace(/\{\{commits\}\}/g, commitsText)
-          .trim();
-      } else {
-        description = `## Summary
+  private checkpointStates(session: WorkflowSession): 'standard' | 'hotfix' {
+    return session.workflowType === 'hotfix' ? 'hotfix' : 'standard';
+  }
 
-Branch: ${session.branchName}
-Workflow: ${session.workflowType} (${session.currentState})
-Created: ${new Date(session.createdAt).toLocaleString()}
+  /**
+   * What a hotfix's approval (HOTFIX_VALIDATED) is validated against
+   * Its checks have passed by then; it counts as reviewed when it was launched
+   * with skipReview or has the required approvals, so reviews are checked
+   * here when GitHub merged it without checkReviews having run
+   */
+  private async hotfixApproval(
+    session: WorkflowSession,
+    prNumber: number,
+    reviewResult?: { success: boolean }
+  ): Promise<Record<string, unknown>> {
+    if (session.workflowType !== 'hotfix') {
+      return {};
+    }
 
-## Changes
+    const review = reviewResult ?? (await this.checkReviews(session, prNumber));
+    return {
+      severity: session.metadata.context?.['severity'],
+      testsPass: true,
+      ciPassed: true,
+      reviewApproved: review.success,
+    };
+  }
 
-${commitsText}`;
-      }
+  /**
+   * Session whose ship was interrupted during cleanup, after the branch was
+   * switched back to main, or whose PR is waiting for GitHub to merge it;
+   * used when no session matches the current branch
+   */
+  private async findSessionInCleanup(): Promise<WorkflowSession | null> {
+    const sessions = await this.sessionRepo.listSessions();
+    const inCleanup = sessions.filter(session =>
+      this.getResumePoint(session) === 'merged' || (session.metadata.pr?.autoMerge && !session.metadata.pr.merged)
+    );
+    return inCleanup.length === 1 ? inCleanup[0]! : null;
+  }
+
+  /**
+   * PR title from the branch's conventional commits or the session description
+   */
+  private generatePRTitle(session: WorkflowSession, commitMessages: string[]): string {
+    const description = session.metadata?.context?.['description'] as string | undefined;
+    const branchText = session.branchName.replace(/^[^/]+\//, '').replace(/-/g, ' ');
+    return derivePRTitle([...commitMessages].reverse(), description) || branchText;
+  }
+
+  /**
+   * Generated PR body sections: the description (custom, from the PR
+   * template, or a summary) and the list of commits
+   */
+  private async generatePRSections(
+    session: WorkflowSession,
+    commitMessages: string[],
+    customDescription?: string
+  ): Promise<PRSection[]> {
+    const config = await this.configManager.load();
+    const commitsText =
+      commitMessages.length > 0
+        ? commitMessages.map(msg => `- ${msg}`).join('\n')
+        : '- Initial commit';
+    const changes = { name: 'changes', content: `## Changes\n\n${commitsText}` };
+
+    if (customDescription) {
+      return [{ name: 'description', content: customDescription }, changes];
     }
 
-    // Add footer with blank line separation
-    if (footer) {
-      if (!description.endsWith('\n\n')) {
-        description += '\n\n';
-      }
-      description += footer;
+    // Generate from template or defaults
+    const bodyTemplate = config.preferences.prTemplate?.body;
+    if (bodyTemplate) {
+      const storedDescription =
+        (session.metadata?.context as any)?.description ||
+        session.branchName.replace(/^[^/]+\//, '').replace(/-/g, ' ');
+      return [{
+        name: 'description',
+        content: bodyTemplate
+          .replace(/\{\{description\}\}/g, storedDescription)
+          .replace(/\{\{commits\}\}/g, commitsText),
+      }];
     }
 
-    return description;
+    return [
+      {
+        name: 'description',
+        content: `## Summary
+
+Branch: ${session.branchName}
+Workflow: ${session.workflowType}
+Created: ${new Date(session.createdAt).toLocaleString()}`,
+      },
+      changes,
+    ];
+  }
+
+  /**
+   * Add the configured footer with blank line separation
+   */
+  private async appendPRFooter(body: string): Promise<string> {
+    const footer = (await this.configManager.load()).preferences.prTemplate?.footer || '';
+    return footer ? `${body}\n\n${footer}` : body;
   }
 
 }
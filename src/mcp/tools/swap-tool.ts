@@ -3,8 +3,9 @@ import {
   WorkflowToolInput,
   WorkflowContext,
   WorkflowExecutionResult,
+  LockServices,
 } from './workflow-tool-base';
-import { SessionToolResult } from './base-tool';
+import { SessionToolResult, SessionToolResultSchema } from './base-tool';
 import { SessionRepository } from '../../services/session-repository';
 import { GitOperations } from '../../services/git-operations';
 import { StashManager } from '../../services/stash-manager';
@@ -12,6 +13,7 @@ import { ConfigurationManager } from '../../services/configuration-manager';
 import { WorkflowSession } from '../../models/workflow-session';
 import { PreFlightVerificationResult, PreFlightCheckResult } from '../../services/validation/pre-flight-check-service';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { z } from 'zod';
 
 /**
  * Input for swap tool
@@ -21,10 +23,25 @@ export interface SwapToolInput extends WorkflowToolInput {
   stash?: boolean;
 }
 
+/**
+ * Input schema for swap tool
+ */
+export const SwapSchema = z.object({
+  branchName: z.string().describe('Branch to swap to'),
+  auto: z.boolean().optional().describe('Automatically choose recommended options for prompts'),
+  stash: z.boolean().optional().describe('Stash changes before swapping'),
+});
+
 /**
  * Swap tool - Switches between workflow sessions
  */
 export class SwapTool extends BaseMCPTool<SwapToolInput, SessionToolResult> {
+  readonly name = 'devsolo_swap';
+  readonly description = 'Switch between workflow sessions';
+  readonly inputSchema = SwapSchema;
+  readonly outputSchema = SessionToolResultSchema;
+  readonly supportsDryRun = true;
+
   constructor(
     private sessionRepo: SessionRepository,
     private gitOps: GitOperations,
@@ -45,6 +62,10 @@ export class SwapTool extends BaseMCPTool<SwapToolInput, SessionToolResult> {
     return '/devsolo:swap';
   }
 
+  protected getLockServices(): LockServices {
+    return { sessionRepo: this.sessionRepo, gitOps: this.gitOps };
+  }
+
   protected async createContext(input: SwapToolInput): Promise<Record<string, unknown>> {
     // Get target session (will be validated in pre-flight checks)
     const targetSession = await this.sessionRepo.getSessionByBranch(input.branchName);
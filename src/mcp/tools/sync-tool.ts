@@ -0,0 +1,256 @@
+import {
+  BaseMCPTool,
+  WorkflowToolInput,
+  WorkflowContext,
+  WorkflowExecutionResult,
+  LockServices,
+} from './workflow-tool-base';
+import { SyncToolResult, SyncToolResultSchema } from './base-tool';
+import { GitOperations } from '../../services/git-operations';
+import { SessionRepository } from '../../services/session-repository';
+import { StashManager } from '../../services/stash-manager';
+import { ConfigurationManager } from '../../services/configuration-manager';
+import { RebaseService, RebaseResult } from '../../services/rebase-service';
+import { WorkflowSession } from '../../models/workflow-session';
+import { SyncStrategy } from '../../models/types';
+import { PreFlightCheckService, PreFlightVerificationResult } from '../../services/validation/pre-flight-check-service';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { z } from 'zod';
+
+/**
+ * Input for sync tool
+ */
+export interface SyncToolInput extends WorkflowToolInput {
+  strategy?: SyncStrategy;
+}
+
+/**
+ * Input schema for sync tool
+ */
+export const SyncSchema = z.object({
+  strategy: z.enum(['rebase', 'merge']).optional().describe(
+    'Rebase onto the base branch, or merge it in (default: preferences.sync.strategy, else rebase)'
+  ),
+  auto: z.boolean().optional().describe('Automatically choose recommended options for prompts'),
+});
+
+/**
+ * Sync tool - Brings the current session's branch up to date with its base branch
+ */
+export class SyncTool extends BaseMCPTool<SyncToolInput, SyncToolResult> {
+  readonly name = 'devsolo_sync';
+  readonly description = 'Fetch and rebase (or merge) the current branch onto its base branch, stashing uncommitted work';
+  readonly inputSchema = SyncSchema;
+  readonly outputSchema = SyncToolResultSchema;
+  readonly supportsBackground = true;
+  readonly supportsDryRun = true;
+  readonly annotations = {
+    destructiveHint: true,
+    openWorldHint: true,
+  };
+
+  private preFlightCheckService: PreFlightCheckService;
+  private rebaseService: RebaseService;
+
+  constructor(
+    private gitOps: GitOperations,
+    private sessionRepo: SessionRepository,
+    private stashManager: StashManager,
+    configManager: ConfigurationManager,
+    server?: Server
+  ) {
+    super(configManager, server);
+    this.preFlightCheckService = new PreFlightCheckService(gitOps, sessionRepo);
+    this.rebaseService = new RebaseService(gitOps, sessionRepo);
+  }
+
+  protected getBanner(): string {
+    return `░█▀▀░█░█░█▀█░█▀▀░▀█▀░█▀█░█▀▀░
+░▀▀█░░█░░█░█░█░░░░█░░█░█░█░█░
+░▀▀▀░░▀░░▀░▀░▀▀▀░▀▀▀░▀░▀░▀▀▀░`;
+  }
+
+  protected getSlashCommand(): string | null {
+    return '/devsolo:sync';
+  }
+
+  protected getLockServices(): LockServices {
+    return { sessionRepo: this.sessionRepo, gitOps: this.gitOps };
+  }
+
+  protected async createContext(_input: SyncToolInput): Promise<Record<string, unknown>> {
+    // HEAD is detached while a rebase is stopped on conflicts
+    const currentBranch = (await this.gitOps.getRebasingBranch()) || (await this.gitOps.getCurrentBranch());
+    const session = await this.sessionRepo.getSessionByBranch(currentBranch);
+
+    return { session };
+  }
+
+  protected async runPreFlightChecks(
+    context: WorkflowContext
+  ): Promise<PreFlightVerificationResult> {
+    const session = context['session'] as WorkflowSession | undefined;
+
+    // Resolving conflicts leaves the working tree dirty with HEAD detached
+    if (session?.currentState === 'CONFLICT_RESOLUTION') {
+      return this.preFlightCheckService.runAll(['sessionExists'], { session });
+    }
+
+    return this.preFlightCheckService.runAll(['sessionExists', 'onFeatureBranch'], { session });
+  }
+
+  protected async executeWorkflow(
+    context: WorkflowContext
+  ): Promise<WorkflowExecutionResult> {
+    const input = context.input as SyncToolInput;
+    const session = context['session'] as WorkflowSession;
+
+    let result: RebaseResult;
+    if (session.currentState === 'CONFLICT_RESOLUTION') {
+      // Continue the update that stopped; work stashed before it is still recorded
+      result = await this.rebaseService.continueRebase(session, 'sync_command');
+    } else {
+      if (!this.rebaseService.canRebase(session)) {
+        return {
+          success: false,
+          errors: [`Cannot sync: session ${session.branchName} is in state ${session.currentState}`],
+        };
+      }
+
+      // Like git's --autostash: set uncommitted work aside, restore it once updated
+      if (await this.stashManager.hasUncommittedChanges()) {
+        const { stashRef } = await this.stashManager.stashChanges('sync', session.branchName);
+        session.metadata.sync = { stashRef };
+        this.reportProgress(context, `Stashed uncommitted changes (${stashRef})`);
+      }
+
+      const strategy = await this.resolveStrategy(input.strategy);
+      try {
+        result = strategy === 'merge'
+          ? await this.rebaseService.mergeBase(session, 'sync_command')
+          : await this.rebaseService.rebaseOntoBase(session, 'sync_command');
+      } catch (error) {
+        await this.restoreStash(session).catch(() => {
+          // Reported with the original error below; the stash is still listed
+        });
+        throw error;
+      }
+    }
+    this.throwIfCancelled(context);
+
+    const summary = {
+      sessionId: session.id,
+      branchName: session.branchName,
+      state: session.currentState,
+      status: result.status,
+      strategy: result.strategy,
+      onto: result.onto,
+      ...(result.behind !== undefined && { behind: result.behind }),
+    };
+
+    if (result.status === 'conflicts') {
+      const verb = result.strategy === 'merge' ? `Merging ${result.onto}` : `Rebase onto ${result.onto}`;
+      return {
+        success: false,
+        errors: [`${verb} stopped on conflicts in ${result.conflicts.map(file => file.path).join(', ')}`],
+        data: {
+          ...summary,
+          conflicts: result.conflicts,
+          nextSteps: [
+            result.strategy === 'merge'
+              ? 'Resolve each hunk: ours is your branch, theirs is the base branch, base is their common ancestor'
+              : 'Resolve each hunk: ours is the base branch, theirs is your commit, base is their common ancestor',
+            'Remove the conflict markers and save each file',
+            'Call devsolo_sync again to continue, or devsolo_abort to give up',
+          ],
+        },
+      };
+    }
+
+    const warnings: string[] = [];
+    const stashRef = session.metadata.sync?.stashRef;
+    let stashRestored: boolean | undefined;
+    if (stashRef) {
+      try {
+        await this.restoreStash(session);
+        stashRestored = true;
+      } catch (error) {
+        stashRestored = false;
+        warnings.push(
+          `Failed to restore stashed changes (${stashRef}): ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    return {
+      success: true,
+      warnings,
+      data: {
+        ...summary,
+        ...(stashRestored !== undefined && { stashRestored }),
+        nextSteps: this.getNextSteps(result, stashRestored === false ? stashRef : undefined),
+      },
+    };
+  }
+
+  /**
+   * Keep the conflict report on failure
+   */
+  protected createWorkflowErrorResult(workflowResult: WorkflowExecutionResult): SyncToolResult {
+    const { nextSteps, ...data } = workflowResult.data || {};
+    return {
+      ...super.createWorkflowErrorResult(workflowResult),
+      ...data,
+      ...(Array.isArray(nextSteps) && { nextSteps: nextSteps as string[] }),
+    };
+  }
+
+  /**
+   * How to update the branch
+   * Priority: input > preferences.sync.strategy > rebase
+   */
+  private async resolveStrategy(requested?: SyncStrategy): Promise<SyncStrategy> {
+    if (requested) {
+      return requested;
+    }
+
+    try {
+      return (await this.configManager.load()).preferences.sync?.strategy || 'rebase';
+    } catch {
+      return 'rebase';
+    }
+  }
+
+  /**
+   * Pop the work stashed before the update
+   * A pop that fails leaves the stash in place for the user to restore
+   */
+  private async restoreStash(session: WorkflowSession): Promise<void> {
+    const stashRef = session.metadata.sync?.stashRef;
+    if (!stashRef) {
+      return;
+    }
+
+    try {
+      await this.stashManager.popStash(stashRef);
+    } finally {
+      delete session.metadata.sync;
+      await this.sessionRepo.updateSession(session.id, session);
+    }
+  }
+
+  private getNextSteps(result: RebaseResult, unrestoredStash?: string): string[] {
+    const steps: string[] = [];
+    if (unrestoredStash) {
+      steps.push(`Resolve the stash conflicts, or restore your changes with git stash pop ${unrestoredStash}`);
+    }
+    if (result.status === 'up-to-date') {
+      steps.push(`Already up to date with ${result.onto}`);
+    } else if (result.status === 'rebased') {
+      steps.push('Use devsolo_ship to push the rebased branch (with --force-with-lease) and update the PR');
+    } else {
+      steps.push('Use devsolo_ship to push the merge and update the PR');
+    }
+    return steps;
+  }
+}
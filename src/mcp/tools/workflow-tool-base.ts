@@ -1,8 +1,15 @@
-import { BaseToolResult, MCPTool } from './base-tool';
+import { BaseToolResult, MCPTool, ToolExecutionOptions, ToolResultWithValidation } from './base-tool';
 import { ConfigurationManager } from '../../services/configuration-manager';
 import { PreFlightVerificationResult } from '../../services/validation/pre-flight-check-service';
 import { PostFlightVerificationResult } from '../../services/validation/post-flight-verification';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { GUIDED_PROMPTS } from '../prompt-provider';
+import { DryRunPlan, runWithDryRun } from '../../services/dry-run';
+import { SessionRepository } from '../../services/session-repository';
+import { GitOperations } from '../../services/git-operations';
+import { LockHolder } from '../../models/types';
 
 /**
  * Standard input structure for all workflow tools
@@ -10,14 +17,36 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 export interface WorkflowToolInput {
   auto?: boolean; // Automatically choose recommended options for prompts
   _via_prompt?: boolean; // Hidden: validates call is via MCP prompt (ensures banner display)
+  dryRun?: boolean; // Run pre-flight checks and return the plan instead of executing
   [key: string]: unknown; // Allow additional tool-specific parameters
 }
 
+/**
+ * Extra argument accepted by tools that support dry runs
+ */
+export const DryRunArgumentSchema = z.object({
+  dryRun: z.boolean().optional()
+    .describe(
+      'Run pre-flight checks and return the ordered plan of git commands, GitHub API calls ' +
+      'and session changes without executing them'
+    ),
+});
+
+/**
+ * Services a mutating tool is serialised through
+ */
+export interface LockServices {
+  sessionRepo: SessionRepository;
+  gitOps: GitOperations;
+}
+
 /**
  * Context passed through workflow phases
  */
 export interface WorkflowContext {
   input: WorkflowToolInput;
+  signal?: AbortSignal; // Aborted when the client cancels the request
+  onProgress?: (message: string) => void; // Forwards progress to the client
   [key: string]: unknown; // Tool-specific context
 }
 
@@ -43,26 +72,82 @@ export interface WorkflowExecutionResult {
 /**
  * Abstract base class for all MCP workflow tools
  * Enforces standard workflow pattern:
- * 1. Check initialization
+ * 1. Check initialization (then take the repository/session locks for mutating tools)
  * 2. Collect missing parameters (prompt-based)
  * 3. Run pre-flight checks
  * 4. Handle prompts (return options or auto-resolve)
- * 5. Execute core workflow
+ * 5. Execute core workflow (recorded as a plan when dryRun is set)
  * 6. Run post-flight verifications
  * 7. Return result
  */
 export abstract class BaseMCPTool<TInput extends WorkflowToolInput, TResult extends BaseToolResult>
 implements MCPTool<TInput, TResult> {
+  /**
+   * Tool name advertised to MCP clients (e.g., 'devsolo_ship')
+   */
+  abstract readonly name: string;
+
+  /**
+   * Human-readable description shown in tools/list
+   */
+  abstract readonly description: string;
+
+  /**
+   * Zod schema for tool arguments
+   * Single source of truth for both the advertised JSON schema and call-time parsing
+   */
+  abstract readonly inputSchema: z.AnyZodObject;
+
+  /**
+   * Zod schema for the tool result
+   * Advertised as outputSchema; results are returned as structuredContent
+   */
+  abstract readonly outputSchema: z.AnyZodObject;
+
+  /**
+   * Optional MCP behaviour hints (read-only, destructive, idempotent)
+   */
+  readonly annotations?: ToolAnnotations;
+
+  /**
+   * Whether the tool can be started with `background: true` as a job
+   * Enable for mutating tools whose workflow can be re-run from session state
+   */
+  readonly supportsBackground: boolean = false;
+
+  /**
+   * Whether the tool accepts `dryRun: true`
+   * Enable for tools whose side effects all go through GitOperations,
+   * GitHubIntegration and SessionRepository
+   */
+  readonly supportsDryRun: boolean = false;
+
+  /**
+   * Whether the tool accepts `repoPath` to run against another repository
+   * The server resolves it to that repository's services before dispatch
+   */
+  readonly supportsRepoPath: boolean = true;
+
   constructor(
     protected configManager: ConfigurationManager,
     protected server?: Server
   ) {}
 
+  /**
+   * Parse raw MCP arguments against the tool's input schema
+   */
+  parseInput(args: Record<string, unknown>): TInput {
+    const schema = this.supportsDryRun ? this.inputSchema.merge(DryRunArgumentSchema) : this.inputSchema;
+    return schema.parse(args) as TInput;
+  }
+
   /**
    * Main execution flow - DO NOT OVERRIDE
    * This enforces the standard pattern for all tools
    */
-  async execute(input: TInput): Promise<TResult> {
+  async execute(input: TInput, options: ToolExecutionOptions = {}): Promise<TResult> {
+    let releaseLocks: (() => Promise<void>) | undefined;
+
     try {
       // Note: Banner display is now handled by slash commands, not MCP tools
       // Slash commands display the banner before invoking MCP tools
@@ -79,6 +164,15 @@ implements MCPTool<TInput, TResult> {
         return initCheck as TResult;
       }
 
+      // Phase 1.2: Serialise mutating calls (dry runs change nothing, so they don't wait)
+      if (!input.dryRun) {
+        const locks = await this.acquireLocks();
+        if ('busy' in locks) {
+          return locks.busy as TResult;
+        }
+        releaseLocks = locks.release;
+      }
+
       // Phase 1.5: Resolve auto mode from config + explicit input
       // Priority: explicit input.auto > config.autoMode > false
       const effectiveAuto = await this.resolveAutoMode(input);
@@ -96,6 +190,8 @@ implements MCPTool<TInput, TResult> {
       // Create workflow context with resolved auto mode
       const context: WorkflowContext = {
         input: effectiveInput,
+        signal: options.signal,
+        onProgress: options.onProgress,
         ...await this.createContext(effectiveInput),
       };
 
@@ -115,6 +211,11 @@ implements MCPTool<TInput, TResult> {
         return this.createPreFlightErrorResult(preFlightResult) as TResult;
       }
 
+      // Phase 5.5: Dry run - record the workflow's operations instead of performing them
+      if (effectiveInput.dryRun) {
+        return await this.executeDryRun(context, preFlightResult) as TResult;
+      }
+
       // Phase 6: Execute core workflow
       const workflowResult = await this.executeWorkflow(context);
       if (!workflowResult.success) {
@@ -128,6 +229,10 @@ implements MCPTool<TInput, TResult> {
       return this.createFinalResult(workflowResult, preFlightResult, postFlightResult);
     } catch (error) {
       return this.createErrorResult(error);
+    } finally {
+      await releaseLocks?.().catch((error) => {
+        console.error(`${this.name}: failed to release locks:`, error);
+      });
     }
   }
 
@@ -151,9 +256,10 @@ implements MCPTool<TInput, TResult> {
     // Direct MCP calls leave auto undefined
     if (input.auto === undefined) {
       // Not called via slash command - return redirect prompt
+      const promptName = slashCommand.replace(/^\/devsolo:/, '');
       const result: any = {
         success: true,
-        message: 'This operation requires configuration context. Please use the slash command instead.',
+        message: 'This operation requires configuration context. Please use the slash command or MCP prompt instead.',
         nextSteps: [
           `Use SlashCommand tool with command: '${slashCommand}'`,
           'The slash command will:',
@@ -164,6 +270,11 @@ implements MCPTool<TInput, TResult> {
           'After the slash command prepares everything, the operation will execute automatically.',
         ],
       };
+      if (GUIDED_PROMPTS.includes(promptName)) {
+        result.nextSteps.push(
+          `Without the plugin: get MCP prompt '${promptName}' (prompts/get) and follow its instructions`
+        );
+      }
       return result;
     }
 
@@ -178,6 +289,67 @@ implements MCPTool<TInput, TResult> {
    */
   protected abstract getSlashCommand(): string | null;
 
+  /**
+   * Services used to serialise mutating calls
+   * Tools that change the repository or sessions return theirs; the default
+   * (null) takes no locks
+   */
+  protected getLockServices(): LockServices | null {
+    return null;
+  }
+
+  /**
+   * Take the repository lock, then the lock of the current branch's session
+   * Returns a busy result naming the holder if either is held by another call
+   */
+  private async acquireLocks(): Promise<{ release: () => Promise<void> } | { busy: BaseToolResult }> {
+    const services = this.getLockServices();
+    if (!services) {
+      return { release: async () => { /* nothing to release */ } };
+    }
+
+    const { sessionRepo, gitOps } = services;
+    const repositoryLock = await sessionRepo.acquireRepositoryLock(this.name);
+    if (!repositoryLock.acquired) {
+      return { busy: this.createBusyResult('Repository', repositoryLock.holder) };
+    }
+
+    try {
+      const session = await sessionRepo.getSessionByBranch(await gitOps.getCurrentBranch());
+      const sessionLock = session ? await sessionRepo.acquireSessionLock(session.id, this.name) : null;
+
+      if (session && sessionLock && !sessionLock.acquired) {
+        await sessionRepo.releaseRepositoryLock(repositoryLock.holder);
+        return { busy: this.createBusyResult(`Session ${session.branchName}`, sessionLock.holder) };
+      }
+
+      return {
+        release: async () => {
+          if (session && sessionLock) {
+            await sessionRepo.releaseLock(session.id, sessionLock.holder);
+          }
+          await sessionRepo.releaseRepositoryLock(repositoryLock.holder);
+        },
+      };
+    } catch (error) {
+      await sessionRepo.releaseRepositoryLock(repositoryLock.holder);
+      throw error;
+    }
+  }
+
+  private createBusyResult(resource: string, holder: LockHolder): BaseToolResult {
+    const result: any = {
+      success: false,
+      lockHolder: holder,
+      errors: [`${resource} is busy: held by PID ${holder.pid} (${holder.tool}) since ${holder.acquiredAt}`],
+      nextSteps: [
+        `Wait for ${holder.tool} to finish, then try again`,
+        'Use devsolo_job_status to follow background jobs',
+      ],
+    };
+    return result;
+  }
+
   /**
    * Phase 1: Check initialization
    * Override if tool doesn't require initialization (e.g., InitTool)
@@ -350,6 +522,39 @@ implements MCPTool<TInput, TResult> {
     context: WorkflowContext
   ): Promise<WorkflowExecutionResult>;
 
+  /**
+   * Dry run: execute the workflow with GitOperations, GitHubIntegration and
+   * SessionRepository writes recorded rather than performed
+   * Post-flight verifications are skipped since nothing changed
+   */
+  protected async executeDryRun(
+    context: WorkflowContext,
+    preFlightResult: PreFlightVerificationResult | null
+  ): Promise<ToolResultWithValidation> {
+    const plan = new DryRunPlan();
+    const workflowResult = await runWithDryRun(plan, () => this.executeWorkflow(context));
+
+    const result: any = {
+      success: workflowResult.success,
+      dryRun: true,
+      message: workflowResult.success
+        ? `Dry run: ${plan.steps.length} operation(s) planned, nothing was changed`
+        : 'Dry run: the workflow would fail before completing',
+      plan: plan.steps,
+      errors: workflowResult.errors || [],
+      warnings: [...(workflowResult.warnings || []), ...(preFlightResult?.warnings || [])],
+      nextSteps: workflowResult.success
+        ? ['Review the plan', 'Run the same command without dryRun to execute it']
+        : ['Resolve the errors above and try again'],
+    };
+
+    if (preFlightResult) {
+      result.preFlightChecks = preFlightResult.checks;
+    }
+
+    return result;
+  }
+
   /**
    * Create error result from workflow execution failure
    */
@@ -422,6 +627,22 @@ implements MCPTool<TInput, TResult> {
     } as TResult;
   }
 
+  /**
+   * Report progress to the client (no-op if the client did not ask for progress)
+   */
+  protected reportProgress(context: WorkflowContext, message: string): void {
+    context.onProgress?.(message);
+  }
+
+  /**
+   * Stop the workflow between steps if the client cancelled the request
+   */
+  protected throwIfCancelled(context: WorkflowContext): void {
+    if (context.signal?.aborted) {
+      throw new Error('Cancelled by client');
+    }
+  }
+
   /**
    * Get tool name for error messages
    */
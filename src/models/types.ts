@@ -1,4 +1,4 @@
-export type WorkflowType = 'launch' | 'ship' | 'hotfix';
+export type WorkflowType = 'launch' | 'ship' | 'hotfix' | 'release';
 
 export type StateName =
   // Standard workflow states
@@ -6,6 +6,7 @@ export type StateName =
   | 'BRANCH_READY'
   | 'CHANGES_COMMITTED'
   | 'PUSHED'
+  | 'PR_DRAFT'
   | 'PR_CREATED'
   | 'WAITING_APPROVAL'
   | 'REBASING'
@@ -27,12 +28,28 @@ export type StateName =
   | 'ROLLBACK'
   | 'ABORTED';
 
+export type MergeStrategy = 'squash' | 'rebase' | 'merge';
+
+// How devsolo_sync brings a branch up to date with its base branch
+export type SyncStrategy = 'rebase' | 'merge';
+
+// Semantic version component devsolo_release increments
+export type VersionBump = 'major' | 'minor' | 'patch';
+
+/**
+ * Who merges a shipped PR: devsolo after waiting for checks and reviews
+ * (direct), GitHub auto-merge (auto) or the base branch's merge queue (queue)
+ */
+export type MergeMode = 'direct' | 'auto' | 'queue';
+
 export type TransitionTrigger =
   | 'user_action'
   | 'auto_progression'
   | 'error_recovery'
   | 'abort_command'
-  | 'ship_command';
+  | 'ship_command'
+  | 'sync_command'
+  | 'release_command';
 
 export type AuditAction =
   | 'session_created'
@@ -68,6 +85,35 @@ export interface SessionMetadata {
   skipTests?: boolean;
   skipReview?: boolean;
   startedAt?: string;
+  baseBranch?: string; // Branch the session was launched from and merges into, when not the trunk
+  parent?: {
+    sessionId: string;
+    branch: string; // Session branch this one is stacked on (its base branch until the parent merges)
+  };
+  restack?: {
+    from: string; // Merged parent branch
+    upstream: string; // Parent's tip when it merged; the next rebase drops commits up to it (--onto)
+  };
+  sync?: {
+    stashRef?: string; // Work devsolo_sync stashed, restored once its rebase or merge completes
+  };
+  release?: {
+    version: string;
+    tag: string; // Tag created on the merge commit once the release PR merges
+    previousTag?: string;
+    bump?: VersionBump; // Absent when the version was given explicitly
+    notes: string; // CHANGELOG.md entry, published as the GitHub release notes
+    url?: string;
+    publishedAt?: string;
+  };
+  backports?: Array<{
+    target: string; // Release branch the merged PR was cherry-picked onto
+    branch: string;
+    status: 'opened' | 'conflicts' | 'failed';
+    prNumber?: number;
+    prUrl?: string;
+    createdAt: string;
+  }>;
   pr?: {
     number?: number;
     url?: string;
@@ -77,6 +123,14 @@ export interface SessionMetadata {
     head?: string;
     merged?: boolean;
     mergedAt?: string;
+    mergeStrategy?: MergeStrategy;
+    mergeCommitSha?: string;
+    commitCount?: number; // Commits on the PR when it was merged
+    autoMerge?: {
+      mode: Exclude<MergeMode, 'direct'>;
+      enabledAt: string;
+      queuePosition?: number;
+    };
   };
   branch?: {
     remoteDeleted?: boolean;
@@ -94,6 +148,23 @@ export interface GitBranchStatus {
   conflicted?: string[];
 }
 
+/**
+ * One conflict marker block in a file
+ * During a rebase, ours is the branch being rebased onto (main) and theirs
+ * is the feature commit being replayed
+ */
+export interface ConflictHunk {
+  startLine: number; // 1-based line of the <<<<<<< marker
+  ours: string;
+  base?: string; // Common ancestor, when the file has diff3 markers
+  theirs: string;
+}
+
+export interface ConflictedFile {
+  path: string;
+  hunks: ConflictHunk[]; // Empty for conflicts without markers (e.g. modify/delete)
+}
+
 export interface StateTransitionRecord {
   from: StateName;
   to: StateName;
@@ -122,6 +193,7 @@ export type LogLevelConfig = 'debug' | 'info' | 'warn' | 'error' | 'none';
 
 export interface UserPreferences {
   defaultBranchPrefix: string;
+  trunkBranch?: string; // Branch features merge into (default: origin/HEAD, else main or master)
   autoCleanup: boolean;
   confirmBeforePush: boolean;
   colorOutput: boolean;
@@ -149,6 +221,28 @@ export interface UserPreferences {
     body?: string;
     footer?: string;
   };
+  merge?: {
+    strategy?: MergeStrategy; // How devsolo_ship merges PRs (default: squash)
+    workflows?: Partial<Record<WorkflowType, MergeStrategy>>; // Per workflow type, overrides strategy
+    mode?: MergeMode; // Who merges shipped PRs (default: direct)
+  };
+  review?: {
+    minReviewers?: number; // Approvals devsolo_ship requires before merging (default: 0)
+    workflows?: Partial<Record<WorkflowType, number>>; // Per workflow type, overrides minReviewers
+  };
+  sync?: {
+    strategy?: SyncStrategy; // How devsolo_sync updates a branch from its base (default: rebase)
+  };
+  release?: {
+    tagPrefix?: string; // Prefix of release tags (default: v)
+    versionFiles?: string[]; // JSON files whose version field is bumped (default: package.json, package-lock.json)
+    changelog?: string; // Changelog devsolo_release adds an entry to (default: CHANGELOG.md)
+  };
+  ci?: {
+    flakyChecks?: string[]; // Check names devsolo_ship may re-run when they fail ('*' wildcards)
+    maxReruns?: number; // Re-runs per flaky check before the failure stands (default: 0)
+    logLines?: number; // Job log lines returned for each failed check (default: 50)
+  };
 }
 
 export interface ValidationResult {
@@ -179,4 +273,39 @@ export interface GitPlatformConfig {
   repo?: string;
   projectId?: string | number; // For GitLab
   host?: string; // For self-hosted GitLab
-}
\ No newline at end of file
+}
+
+export type JobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobProgressEntry {
+  timestamp: string;
+  message: string;
+}
+
+export interface BackgroundJob {
+  id: string;
+  tool: string;
+  args: Record<string, unknown>;
+  status: JobStatus;
+  branchName: string; // Branch checked out when the job started
+  sessionId?: string;
+  pid: number; // Server process running the job
+  progress: JobProgressEntry[];
+  result?: Record<string, unknown>;
+  error?: string;
+  resumeCount: number;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface LockHolder {
+  pid: number; // Process holding the lock
+  tool: string; // Tool call that took it (e.g. 'devsolo_ship')
+  acquiredAt: string;
+}
+
+export interface LockResult {
+  acquired: boolean;
+  holder: LockHolder; // This call's holder when acquired, otherwise the current holder
+}
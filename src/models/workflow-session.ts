@@ -7,6 +7,7 @@ import {
   TransitionTrigger,
   ValidationResult,
 } from './types';
+import { getStateMachine } from '../state-machines/workflow-engine';
 
 export class WorkflowSession {
   public id: string;
@@ -48,6 +49,7 @@ export class WorkflowSession {
   private getInitialState(): StateName {
     switch (this.workflowType) {
     case 'launch':
+    case 'release':
       return 'INIT';
     case 'ship':
       return 'BRANCH_READY';
@@ -57,7 +59,7 @@ export class WorkflowSession {
   }
 
   private generateBranchName(): string {
-    const prefix = this.workflowType === 'hotfix' ? 'hotfix' : 'feature';
+    const prefix = this.workflowType === 'launch' || this.workflowType === 'ship' ? 'feature' : this.workflowType;
     const timestamp = Date.now().toString().slice(-3);
     const randomWords = ['update', 'fix', 'add', 'improve', 'refactor'];
     const word = randomWords[Math.floor(Math.random() * randomWords.length)];
@@ -89,23 +91,7 @@ export class WorkflowSession {
   }
 
   public isValidState(state: StateName): boolean {
-    const standardStates: StateName[] = [
-      'INIT', 'BRANCH_READY', 'CHANGES_COMMITTED', 'PUSHED',
-      'PR_CREATED', 'WAITING_APPROVAL', 'REBASING', 'MERGING',
-      'CLEANUP', 'COMPLETE', 'CONFLICT_RESOLUTION', 'ABORTED',
-    ];
-
-    const hotfixStates: StateName[] = [
-      'HOTFIX_INIT', 'HOTFIX_READY', 'HOTFIX_COMMITTED',
-      'HOTFIX_PUSHED', 'HOTFIX_VALIDATED', 'HOTFIX_DEPLOYED',
-      'HOTFIX_CLEANUP', 'HOTFIX_COMPLETE', 'ROLLBACK',
-    ];
-
-    if (this.workflowType === 'hotfix') {
-      return hotfixStates.includes(state) || state === 'ABORTED';
-    } else {
-      return standardStates.includes(state);
-    }
+    return getStateMachine(this.workflowType)?.hasState(state) ?? false;
   }
 
   public isExpired(): boolean {
@@ -131,6 +117,11 @@ export class WorkflowSession {
     if (!this.isValidState(newState)) {
       throw new Error(`Invalid state transition: ${newState} is not valid for ${this.workflowType} workflow`);
     }
+    if (!getStateMachine(this.workflowType).canTransition(this.currentState, newState)) {
+      throw new Error(
+        `Invalid state transition: ${this.currentState} -> ${newState} is not allowed for ${this.workflowType} workflow`
+      );
+    }
 
     const transition: StateTransitionRecord = {
       from: this.currentState,
@@ -192,7 +183,7 @@ export class WorkflowSession {
       errors.push('Branch name is required');
     }
 
-    if (!this.workflowType || !['launch', 'ship', 'hotfix'].includes(this.workflowType)) {
+    if (!this.workflowType || !['launch', 'ship', 'hotfix', 'release'].includes(this.workflowType)) {
       errors.push('Invalid workflow type');
     }
 
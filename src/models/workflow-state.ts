@@ -37,7 +37,7 @@ export class WorkflowState {
     if (!config.name.match(/^[A-Z_]+$/)) {
       throw new Error('Invalid state name format');
     }
-    if (!['launch', 'ship', 'hotfix'].includes(config.workflowType)) {
+    if (!['launch', 'ship', 'hotfix', 'release'].includes(config.workflowType)) {
       throw new Error('Invalid workflow type');
     }
 
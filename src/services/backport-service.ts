@@ -0,0 +1,225 @@
+import { GitOperations } from './git-operations';
+import { GitHubIntegration } from './github-integration';
+import { SessionRepository } from './session-repository';
+import { WorkflowSession } from '../models/workflow-session';
+import { ConflictedFile } from '../models/types';
+
+export const BACKPORT_LABEL = 'backport';
+
+/**
+ * A merged PR to backport and the commit it landed as on its base branch
+ * session is set while devsolo still has the session that shipped the PR
+ */
+export interface BackportSource {
+  prNumber: number;
+  title: string;
+  url?: string;
+  base: string;
+  commit: string; // Squash (or merge) commit on the base branch
+  session?: WorkflowSession;
+}
+
+/**
+ * What happened to one target branch
+ */
+export interface BackportResult {
+  target: string;
+  branch: string; // Backport branch cut from the target
+  status: 'opened' | 'conflicts' | 'skipped' | 'failed';
+  prNumber?: number;
+  prUrl?: string;
+  conflicts?: ConflictedFile[]; // Files the cherry-pick stopped on; it was aborted
+  error?: string;
+}
+
+/**
+ * BackportService carries merged PRs to release branches
+ * The PR's commit is cherry-picked (-x) onto a backport/<pr>-to-<target>
+ * branch cut from each target, which is pushed and opened as a labeled PR
+ * against the target; a cherry-pick that conflicts is aborted and reported,
+ * leaving the other targets unaffected
+ */
+export class BackportService {
+  constructor(
+    private gitOps: GitOperations,
+    private sessionRepo: SessionRepository,
+    private githubIntegration: GitHubIntegration
+  ) {}
+
+  /**
+   * The merged PR of a session, or a PR looked up by number
+   * A PR number resolves to the session that shipped it while devsolo still
+   * has it, otherwise to the PR on GitHub
+   */
+  async resolveSource(options: { sessionId?: string; prNumber?: number }): Promise<BackportSource> {
+    let session: WorkflowSession | undefined;
+    if (options.sessionId) {
+      session = (await this.sessionRepo.getSession(options.sessionId)) || undefined;
+      if (!session) {
+        throw new Error(`Session ${options.sessionId} not found`);
+      }
+    } else if (options.prNumber) {
+      const sessions = await this.sessionRepo.listSessions({ all: true });
+      session = sessions.find(candidate => candidate.metadata.pr?.number === options.prNumber);
+    } else {
+      throw new Error('Specify the session or PR number to backport');
+    }
+
+    const pr = session?.metadata.pr;
+    if (session && pr?.merged && pr.number && pr.mergeCommitSha) {
+      return {
+        prNumber: pr.number,
+        title: pr.title || session.branchName,
+        ...(pr.url && { url: pr.url }),
+        base: pr.base || session.metadata.baseBranch || (await this.gitOps.getMainBranch()),
+        commit: pr.mergeCommitSha,
+        session,
+      };
+    }
+
+    const prNumber = pr?.number || options.prNumber;
+    if (!prNumber) {
+      throw new Error(`Session ${session!.branchName} has no PR to backport`);
+    }
+    const merged = await this.githubIntegration.getPullRequest(prNumber);
+    if (!merged) {
+      throw new Error(`PR #${prNumber} not found`);
+    }
+    if (!merged.merged || !merged.merge_commit_sha) {
+      throw new Error(`PR #${prNumber} has not been merged`);
+    }
+    return {
+      prNumber,
+      title: merged.title,
+      url: merged.html_url,
+      base: merged.base,
+      commit: merged.merge_commit_sha,
+      ...(session && { session }),
+    };
+  }
+
+  /**
+   * Open a backport PR against each target, then return to the branch that
+   * was checked out and record the attempts on the source's session
+   */
+  async backport(source: BackportSource, targets: string[]): Promise<BackportResult[]> {
+    await this.gitOps.fetch('origin');
+    const returnTo = await this.gitOps.getCurrentBranch();
+
+    // A merge commit (merge strategy) is picked against the base branch side
+    const [merge] = await this.gitOps.getCommitParents(source.commit, 1);
+    const mainline = merge && merge.parents.length > 1 ? 1 : undefined;
+
+    const results: BackportResult[] = [];
+    for (const target of targets) {
+      results.push(await this.backportTo(source, target, mainline, returnTo));
+    }
+
+    try {
+      await this.gitOps.checkoutBranch(returnTo);
+    } catch (error) {
+      console.error(`Failed to return to ${returnTo} after backporting:`, error);
+    }
+
+    if (source.session) {
+      await this.record(source.session, results);
+    }
+    return results;
+  }
+
+  private async backportTo(
+    source: BackportSource,
+    target: string,
+    mainline: number | undefined,
+    returnTo: string
+  ): Promise<BackportResult> {
+    const branch = `backport/${source.prNumber}-to-${target}`;
+    const result: BackportResult = { target, branch, status: 'failed' };
+    try {
+      if (target === source.base) {
+        result.error = `PR #${source.prNumber} was merged into ${target}`;
+        return result;
+      }
+      if (!(await this.gitOps.remoteBranchExists(target))) {
+        result.error = `Branch ${target} does not exist on origin`;
+        return result;
+      }
+      if ((await this.gitOps.branchExists(branch)) || (await this.gitOps.remoteBranchExists(branch))) {
+        result.status = 'skipped';
+        result.error = `Branch ${branch} already exists`;
+        return result;
+      }
+
+      await this.gitOps.createBranch(branch, target);
+      const { conflictedFiles } = await this.gitOps.cherryPick(source.commit, mainline);
+      if (conflictedFiles.length > 0) {
+        result.status = 'conflicts';
+        result.conflicts = await this.describeConflicts(conflictedFiles);
+        await this.gitOps.abortCherryPick();
+        await this.gitOps.checkoutBranch(returnTo);
+        await this.gitOps.deleteBranch(branch, true);
+        return result;
+      }
+
+      await this.gitOps.push('origin', branch, true);
+      const pr = await this.githubIntegration.createPullRequest({
+        title: `[${target}] ${source.title}`,
+        body: [
+          `Backport of #${source.prNumber} to \`${target}\`.`,
+          '',
+          `Cherry-picked from ${source.commit}.`,
+        ].join('\n'),
+        base: target,
+        head: branch,
+      });
+      if (!pr) {
+        result.error = `Pushed ${branch}, but failed to open its PR`;
+        return result;
+      }
+
+      result.status = 'opened';
+      result.prNumber = pr.number;
+      result.prUrl = pr.html_url;
+      if (!(await this.githubIntegration.addLabels(pr.number, [BACKPORT_LABEL]))) {
+        result.error = `Failed to label PR #${pr.number} ${BACKPORT_LABEL}`;
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+    return result;
+  }
+
+  /**
+   * Latest attempt per target; skipped targets keep their earlier record
+   */
+  private async record(session: WorkflowSession, results: BackportResult[]): Promise<void> {
+    const createdAt = new Date().toISOString();
+    const attempted = results.filter(result => result.status !== 'skipped');
+    if (attempted.length === 0) {
+      return;
+    }
+
+    session.metadata.backports = [
+      ...(session.metadata.backports || []).filter(
+        backport => !attempted.some(result => result.target === backport.target)
+      ),
+      ...attempted.map(result => ({
+        target: result.target,
+        branch: result.branch,
+        status: result.status as 'opened' | 'conflicts' | 'failed',
+        ...(result.prNumber !== undefined && { prNumber: result.prNumber }),
+        ...(result.prUrl && { prUrl: result.prUrl }),
+        createdAt,
+      })),
+    ];
+    await this.sessionRepo.updateSession(session.id, session);
+  }
+
+  private async describeConflicts(files: string[]): Promise<ConflictedFile[]> {
+    const conflicts: ConflictedFile[] = [];
+    for (const file of files) {
+      conflicts.push({ path: file, hunks: await this.gitOps.getConflictHunks(file) });
+    }
+    return conflicts;
+  }
+}
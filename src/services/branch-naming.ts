@@ -47,8 +47,8 @@ export class BranchNamingService {
   // Maximum branch name length
   private readonly MAX_BRANCH_NAME_LENGTH = 80;
 
-  constructor() {
-    this.gitOps = new GitOperations();
+  constructor(gitOps?: GitOperations) {
+    this.gitOps = gitOps || new GitOperations();
   }
 
   /**
@@ -444,7 +444,10 @@ When working with devsolo workflows, **ALWAYS use slash commands** instead of ca
 - \`/devsolo:commit\` - Commit changes
 - \`/devsolo:ship\` - Push, create PR, and merge
 - \`/devsolo:hotfix\` - Create emergency hotfix
+- \`/devsolo:release\` - Prepare a versioned release
+- \`/devsolo:backport\` - Backport a merged fix to release branches
 - \`/devsolo:swap\` - Switch between workflow sessions
+- \`/devsolo:sync\` - Update the branch from its base branch
 - \`/devsolo:abort\` - Abort current workflow
 - \`/devsolo:cleanup\` - Clean up expired sessions
 
@@ -816,7 +819,7 @@ if [ -n "$SESSION_ID" ]; then
       EMOJI="❌"
       state_color="$RED"
       ;;
-    "WAITING_APPROVAL"|"PR_CREATED")
+    "WAITING_APPROVAL"|"PR_CREATED"|"PR_DRAFT")
       EMOJI="⏳"
       state_color="$YELLOW"
       ;;
@@ -0,0 +1,53 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * One step a workflow would take
+ */
+export interface PlannedStep {
+  kind: 'git' | 'github' | 'session' | 'file';
+  description: string; // e.g. 'git push origin feature/x --set-upstream'
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Ordered list of steps recorded during a dry run
+ */
+export class DryRunPlan {
+  readonly steps: PlannedStep[] = [];
+
+  record(step: PlannedStep): void {
+    this.steps.push(step);
+  }
+}
+
+const activePlan = new AsyncLocalStorage<DryRunPlan>();
+
+/**
+ * Run a function in dry-run mode
+ * GitOperations, GitHubIntegration and SessionRepository calls made inside
+ * (including across awaits) are recorded in the plan instead of executed
+ */
+export function runWithDryRun<T>(plan: DryRunPlan, fn: () => Promise<T>): Promise<T> {
+  return activePlan.run(plan, fn);
+}
+
+export function isDryRun(): boolean {
+  return activePlan.getStore() !== undefined;
+}
+
+/**
+ * Record a step if a dry run is active
+ * Returns true when the caller should skip the real operation
+ */
+export function recordPlannedStep(
+  kind: PlannedStep['kind'],
+  description: string,
+  details?: Record<string, unknown>
+): boolean {
+  const plan = activePlan.getStore();
+  if (!plan) {
+    return false;
+  }
+  plan.record(details ? { kind, description, details } : { kind, description });
+  return true;
+}
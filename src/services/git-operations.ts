@@ -1,17 +1,49 @@
 import simpleGit, { SimpleGit, StatusResult } from 'simple-git';
-import { GitBranchStatus } from '../models/types';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ConflictHunk, GitBranchStatus } from '../models/types';
+import { isDryRun, recordPlannedStep } from './dry-run';
+
+/**
+ * Subcommands that never modify the repository
+ * Passed through to git even during a dry run
+ */
+const READ_ONLY_COMMANDS = new Set([
+  '--version', 'cat-file', 'describe', 'diff', 'diff-tree', 'for-each-ref', 'log', 'ls-files',
+  'ls-remote', 'merge-base', 'name-rev', 'rev-list', 'rev-parse', 'shortlog', 'show', 'status',
+]);
+const READ_ONLY_BRANCH_FLAGS = new Set([
+  '--list', '--merged', '--no-merged', '--contains', '--show-current', '-a', '-r', '-v', '-vv',
+]);
+
+export interface GitOperationsOptions {
+  /** Configured trunk branch (preferences.trunkBranch), overriding detection */
+  trunkBranch?: () => Promise<string | undefined>;
+}
 
 export class GitOperations {
   private git: SimpleGit;
+  private workingDir: string;
+  private mainBranch?: Promise<string>;
 
-  constructor(basePath?: string) {
+  constructor(basePath?: string, private options: GitOperationsOptions = {}) {
     // Use basePath if provided, otherwise default to cwd
     // Use proper options format to avoid simple-git validation errors
-    const workingDir = basePath || process.cwd();
-    this.git = simpleGit({ baseDir: workingDir, binary: 'git', maxConcurrentProcesses: 6 });
+    this.workingDir = basePath || process.cwd();
+    this.git = simpleGit({ baseDir: this.workingDir, binary: 'git', maxConcurrentProcesses: 6 });
+  }
+
+  /**
+   * Directory git commands run in
+   */
+  getWorkingDirectory(): string {
+    return this.workingDir;
   }
 
   async init(): Promise<void> {
+    if (this.planned(['init'])) {
+      return;
+    }
     await this.git.init();
   }
 
@@ -29,7 +61,15 @@ export class GitOperations {
     return status.current || 'main';
   }
 
-  async createBranch(branchName: string, baseBranch: string = 'main'): Promise<void> {
+  async createBranch(branchName: string, baseBranch?: string): Promise<void> {
+    baseBranch = baseBranch || (await this.getMainBranch());
+    if (isDryRun()) {
+      this.planned(['checkout', baseBranch]);
+      this.planned(['pull', 'origin', baseBranch]);
+      this.planned(['checkout', '-b', branchName, baseBranch]);
+      return;
+    }
+
     // Ensure we're on the base branch
     await this.git.checkout(baseBranch);
 
@@ -48,10 +88,16 @@ export class GitOperations {
   }
 
   async checkoutBranch(branchName: string): Promise<void> {
+    if (this.planned(['checkout', branchName])) {
+      return;
+    }
     await this.git.checkout(branchName);
   }
 
   async deleteBranch(branchName: string, force: boolean = false): Promise<void> {
+    if (this.planned(['branch', force ? '-D' : '-d', branchName])) {
+      return;
+    }
     if (force) {
       await this.git.deleteLocalBranch(branchName, true);
     } else {
@@ -60,10 +106,16 @@ export class GitOperations {
   }
 
   async deleteRemoteBranch(branchName: string): Promise<void> {
+    if (this.planned(['push', 'origin', branchName, '--delete'])) {
+      return;
+    }
     await this.git.push('origin', branchName, ['--delete']);
   }
 
   async pruneRemoteRefs(remote: string = 'origin'): Promise<void> {
+    if (this.planned(['remote', 'prune', remote])) {
+      return;
+    }
     await this.git.remote(['prune', remote]);
   }
 
@@ -87,6 +139,9 @@ export class GitOperations {
 
   async stashChanges(message?: string): Promise<{ stashRef: string }> {
     const stashMessage = message || `devsolo stash ${new Date().toISOString()}`;
+    if (this.planned(['stash', 'push', '-m', stashMessage])) {
+      return { stashRef: 'stash@{0}' };
+    }
     await this.git.stash(['push', '-m', stashMessage]);
 
     // Get the SHA of the stash we just created (it's always stash@{0} immediately after creation)
@@ -98,6 +153,9 @@ export class GitOperations {
   }
 
   async add(files?: string | string[]): Promise<void> {
+    if (this.planned(['add', ...(files ? [files].flat() : ['.'])])) {
+      return;
+    }
     if (files) {
       await this.git.add(files);
     } else {
@@ -106,6 +164,9 @@ export class GitOperations {
   }
 
   async stageAll(): Promise<void> {
+    if (this.planned(['add', '.'])) {
+      return;
+    }
     await this.git.add('.');
   }
 
@@ -139,6 +200,10 @@ export class GitOperations {
       args.push('--no-verify');
     }
 
+    if (this.planned(['commit', ...args])) {
+      return { commit: 'dry-run' };
+    }
+
     const result = await this.git.raw(['commit', ...args]);
     const match = result.match(/\[\w+\s+([a-f0-9]+)\]/);
     return { commit: match?.[1] || 'unknown' };
@@ -147,6 +212,11 @@ export class GitOperations {
   async push(remote: string = 'origin', branch?: string, options?: boolean | string[]): Promise<void> {
     const currentBranch = branch || await this.getCurrentBranch();
 
+    const pushOptions = Array.isArray(options) ? options : options ? ['--set-upstream'] : [];
+    if (this.planned(['push', remote, currentBranch, ...pushOptions])) {
+      return;
+    }
+
     if (Array.isArray(options)) {
       // Pass through options array
       await this.git.push(remote, currentBranch, options);
@@ -160,15 +230,42 @@ export class GitOperations {
 
   async pull(remote: string = 'origin', branch?: string): Promise<void> {
     const currentBranch = branch || await this.getCurrentBranch();
+    if (this.planned(['pull', remote, currentBranch])) {
+      return;
+    }
     await this.git.pull(remote, currentBranch);
   }
 
-  async rebase(branch: string = 'main'): Promise<void> {
-    await this.git.rebase([branch]);
+  /**
+   * Rebase the current branch onto another
+   * With upstream, only the commits after it are replayed (--onto)
+   * Stops on conflicts instead of throwing, returning the conflicted files
+   */
+  async rebase(branch?: string, upstream?: string): Promise<{ conflictedFiles: string[] }> {
+    branch = branch || (await this.getMainBranch());
+    const args = upstream ? ['--onto', branch, upstream] : [branch];
+    if (this.planned(['rebase', ...args])) {
+      return { conflictedFiles: [] };
+    }
+    return this.runUpdate('rebase', args);
+  }
+
+  /**
+   * Merge another branch into the current one with a merge commit
+   * Stops on conflicts instead of throwing, returning the conflicted files
+   */
+  async mergeBranch(branch: string): Promise<{ conflictedFiles: string[] }> {
+    if (this.planned(['merge', '--no-edit', branch])) {
+      return { conflictedFiles: [] };
+    }
+    return this.runUpdate('merge', ['--no-edit', branch]);
   }
 
   async merge(branch: string, squash: boolean = true): Promise<void> {
     const args = squash ? ['--squash'] : [];
+    if (this.planned(['merge', branch, ...args])) {
+      return;
+    }
     await this.git.merge([branch, ...args]);
   }
 
@@ -220,10 +317,16 @@ export class GitOperations {
   }
 
   async addRemote(name: string, url: string): Promise<void> {
+    if (this.planned(['remote', 'add', name, url])) {
+      return;
+    }
     await this.git.addRemote(name, url);
   }
 
   async fetch(remote: string = 'origin', branch?: string): Promise<void> {
+    if (this.planned(['fetch', remote, ...(branch ? [branch] : [])])) {
+      return;
+    }
     if (branch) {
       await this.git.fetch(remote, branch);
     } else {
@@ -236,12 +339,15 @@ export class GitOperations {
     return result.all;
   }
 
-  async createTag(tagName: string, message?: string): Promise<void> {
-    if (message) {
-      await this.git.tag(['-a', tagName, '-m', message]);
-    } else {
-      await this.git.tag([tagName]);
+  /**
+   * Tag a commit (default: HEAD), annotated when given a message
+   */
+  async createTag(tagName: string, message?: string, ref?: string): Promise<void> {
+    const args = [...(message ? ['-a', tagName, '-m', message] : [tagName]), ...(ref ? [ref] : [])];
+    if (this.planned(['tag', ...args])) {
+      return;
     }
+    await this.git.tag(args);
   }
 
   async getCommitHash(ref: string = 'HEAD'): Promise<string> {
@@ -296,6 +402,11 @@ export class GitOperations {
   }
 
   async resolveConflict(file: string, resolution: 'ours' | 'theirs'): Promise<void> {
+    if (isDryRun()) {
+      this.planned(['checkout', `--${resolution}`, file]);
+      this.planned(['add', file]);
+      return;
+    }
     if (resolution === 'ours') {
       await this.git.raw(['checkout', '--ours', file]);
     } else {
@@ -305,11 +416,89 @@ export class GitOperations {
   }
 
   async abortRebase(): Promise<void> {
+    if (this.planned(['rebase', '--abort'])) {
+      return;
+    }
     await this.git.rebase(['--abort']);
   }
 
-  async continueRebase(): Promise<void> {
-    await this.git.rebase(['--continue']);
+  /**
+   * Continue a rebase once conflicts are resolved and staged
+   * Returns the conflicted files if a later commit conflicts too
+   */
+  async continueRebase(): Promise<{ conflictedFiles: string[] }> {
+    if (this.planned(['rebase', '--continue'])) {
+      return { conflictedFiles: [] };
+    }
+    return this.runUpdate('rebase', ['--continue']);
+  }
+
+  async abortMerge(): Promise<void> {
+    if (this.planned(['merge', '--abort'])) {
+      return;
+    }
+    await this.git.raw(['merge', '--abort']);
+  }
+
+  /**
+   * Conclude a merge once conflicts are resolved and staged
+   */
+  async continueMerge(): Promise<{ conflictedFiles: string[] }> {
+    if (this.planned(['merge', '--continue'])) {
+      return { conflictedFiles: [] };
+    }
+    return this.runUpdate('merge', ['--continue']);
+  }
+
+  /**
+   * Apply a commit to the current branch, recording its origin (-x)
+   * A merge commit is applied against its first parent
+   * Stops on conflicts instead of throwing, returning the conflicted files
+   */
+  async cherryPick(commit: string, mainline?: number): Promise<{ conflictedFiles: string[] }> {
+    const args = ['-x', ...(mainline ? ['-m', String(mainline)] : []), commit];
+    if (this.planned(['cherry-pick', ...args])) {
+      return { conflictedFiles: [] };
+    }
+    return this.runUpdate('cherry-pick', args);
+  }
+
+  async abortCherryPick(): Promise<void> {
+    if (this.planned(['cherry-pick', '--abort'])) {
+      return;
+    }
+    await this.git.raw(['cherry-pick', '--abort']);
+  }
+
+  /**
+   * Conflict markers are written diff3-style so hunks include the base, and
+   * commit messages are kept without opening an editor
+   */
+  private async runUpdate(
+    command: 'rebase' | 'merge' | 'cherry-pick',
+    args: string[]
+  ): Promise<{ conflictedFiles: string[] }> {
+    try {
+      await this.git.raw(['-c', 'merge.conflictStyle=diff3', '-c', 'core.editor=true', command, ...args]);
+    } catch (error) {
+      const conflictedFiles = await this.getConflictedFiles();
+      if (conflictedFiles.length === 0) {
+        throw error;
+      }
+      return { conflictedFiles };
+    }
+    return { conflictedFiles: [] };
+  }
+
+  /**
+   * Conflict marker blocks in a file of the working tree
+   */
+  async getConflictHunks(file: string): Promise<ConflictHunk[]> {
+    try {
+      return parseConflictHunks(await fs.readFile(path.join(this.workingDir, file), 'utf-8'));
+    } catch {
+      return [];
+    }
   }
 
   async getConfig(key: string): Promise<string | null> {
@@ -327,10 +516,16 @@ export class GitOperations {
       args.push('--global');
     }
     args.push(key, value);
+    if (this.planned(args)) {
+      return;
+    }
     await this.git.raw(args);
   }
 
   async raw(args: string[]): Promise<string> {
+    if (!this.isReadOnly(args) && this.planned(args)) {
+      return '';
+    }
     return await this.git.raw(args);
   }
 
@@ -340,6 +535,9 @@ export class GitOperations {
   }
 
   async checkout(branch: string): Promise<void> {
+    if (this.planned(['checkout', branch])) {
+      return;
+    }
     await this.git.checkout(branch);
   }
 
@@ -378,15 +576,43 @@ export class GitOperations {
   }
 
   async isRebasing(): Promise<boolean> {
+    return (await this.getRebasingBranch()) !== null;
+  }
+
+  async isMerging(): Promise<boolean> {
     try {
-      await this.git.raw(['rev-parse', '--git-path', 'rebase-merge']);
-      return true;
+      return (await fs.readFile(await this.getGitPath('MERGE_HEAD'), 'utf-8')).trim().length > 0;
     } catch {
+      // No merge in progress
       return false;
     }
   }
 
+  /**
+   * Branch being rebased, or null when no rebase is in progress
+   * (HEAD is detached during a rebase)
+   */
+  async getRebasingBranch(): Promise<string | null> {
+    for (const dir of ['rebase-merge', 'rebase-apply']) {
+      try {
+        const headName = await fs.readFile(path.join(await this.getGitPath(dir), 'head-name'), 'utf-8');
+        return headName.trim().replace(/^refs\/heads\//, '');
+      } catch {
+        // No rebase of this kind in progress
+      }
+    }
+    return null;
+  }
+
+  private async getGitPath(name: string): Promise<string> {
+    const gitPath = await this.git.raw(['rev-parse', '--git-path', name]);
+    return path.resolve(this.workingDir, gitPath.trim());
+  }
+
   async rebaseInteractive(branch?: string): Promise<any> {
+    if (this.planned(['rebase', branch || '--continue'])) {
+      return;
+    }
     if (branch) {
       return await this.git.rebase([branch]);
     }
@@ -395,6 +621,9 @@ export class GitOperations {
 
   // Generic execute method for raw git commands
   async execute(args: string[]): Promise<string> {
+    if (!this.isReadOnly(args) && this.planned(args)) {
+      return '';
+    }
     return await this.git.raw(args);
   }
 
@@ -405,14 +634,47 @@ export class GitOperations {
     return match?.[1] || '0.0.0';
   }
 
+  /**
+   * Trunk branch: the configured one, else the remote's default branch
+   * (origin/HEAD), else a local main or master
+   * Resolved once and cached
+   */
   async getMainBranch(): Promise<string> {
-    // Try to detect main branch name (main or master)
-    const branches = await this.git.branchLocal();
-    if (branches.all.includes('main')) {
-      return 'main';
+    if (!this.mainBranch) {
+      this.mainBranch = this.detectMainBranch();
     }
-    if (branches.all.includes('master')) {
-      return 'master';
+    return this.mainBranch;
+  }
+
+  private async detectMainBranch(): Promise<string> {
+    try {
+      const configured = await this.options.trunkBranch?.();
+      if (configured) {
+        return configured;
+      }
+    } catch {
+      // Unreadable configuration: fall back to detection
+    }
+
+    try {
+      const remoteHead = (await this.git.raw(['rev-parse', '--abbrev-ref', 'origin/HEAD'])).trim();
+      if (remoteHead.startsWith('origin/') && remoteHead !== 'origin/HEAD') {
+        return remoteHead.substring('origin/'.length);
+      }
+    } catch {
+      // No origin/HEAD (e.g. the remote was added rather than cloned)
+    }
+
+    try {
+      const branches = await this.git.branchLocal();
+      if (branches.all.includes('main')) {
+        return 'main';
+      }
+      if (branches.all.includes('master')) {
+        return 'master';
+      }
+    } catch {
+      // Fall through to the default
     }
     return 'main'; // default
   }
@@ -429,10 +691,11 @@ export class GitOperations {
   }
 
   /**
-   * Get commit messages since diverging from a base branch (default: main)
+   * Get commit messages since diverging from a base branch (default: trunk)
    * Returns array of commit messages suitable for PR descriptions
    */
-  async getCommitMessagesSince(baseBranch: string = 'main'): Promise<string[]> {
+  async getCommitMessagesSince(baseBranch?: string): Promise<string[]> {
+    baseBranch = baseBranch || (await this.getMainBranch());
     try {
       // Get commits that are on current branch but not on base branch
       const commits = await this.git.log({ from: baseBranch, to: 'HEAD' });
@@ -446,6 +709,44 @@ export class GitOperations {
     }
   }
 
+  /**
+   * Get the full messages of the commits after a ref up to HEAD (every
+   * commit without one), newest first
+   */
+  async getCommitMessagesAfter(ref?: string): Promise<Array<{ hash: string; message: string }>> {
+    const output = await this.git.raw(['log', '--format=%H%x1f%B%x1e', ref ? `${ref}..HEAD` : 'HEAD']);
+    return output.split('\x1e').map(entry => entry.trim()).filter(entry => entry.length > 0).map(entry => {
+      const [hash, message] = entry.split('\x1f');
+      return { hash: hash!, message: (message || '').trim() };
+    });
+  }
+
+  /**
+   * Get the unique trailers (Co-authored-by, Signed-off-by, ...) of commits
+   * since diverging from a base branch (default: trunk), in commit order
+   */
+  async getCommitTrailersSince(baseBranch?: string): Promise<string[]> {
+    baseBranch = baseBranch || (await this.getMainBranch());
+    try {
+      const output = await this.git.raw(['log', '--reverse', '--format=%(trailers:only,unfold)', `${baseBranch}..HEAD`]);
+      const trailers = output.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+      return [...new Set(trailers)];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Get commits reachable from a ref with their parents, newest first
+   */
+  async getCommitParents(ref: string, count: number): Promise<Array<{ sha: string; parents: string[] }>> {
+    const output = await this.git.raw(['rev-list', '--parents', '-n', String(count), ref]);
+    return output.trim().split('\n').filter(line => line.length > 0).map(line => {
+      const [sha, ...parents] = line.split(' ');
+      return { sha: sha!, parents };
+    });
+  }
+
   async getAheadBehindCount(): Promise<{ ahead: number; behind: number }> {
     try {
       const status = await this.git.status();
@@ -464,6 +765,9 @@ export class GitOperations {
   }
 
   async fetchRemote(): Promise<void> {
+    if (this.planned(['fetch'])) {
+      return;
+    }
     await this.git.fetch();
   }
 
@@ -528,6 +832,9 @@ export class GitOperations {
   }
 
   async stash(message?: string): Promise<void> {
+    if (this.planned(message ? ['stash', 'push', '-m', message] : ['stash'])) {
+      return;
+    }
     if (message) {
       await this.git.stash(['push', '-m', message]);
     } else {
@@ -536,10 +843,16 @@ export class GitOperations {
   }
 
   async stashPop(): Promise<void> {
+    if (this.planned(['stash', 'pop'])) {
+      return;
+    }
     await this.git.stash(['pop']);
   }
 
   async stashPopSpecific(stashRef: string): Promise<void> {
+    if (this.planned(['stash', 'pop', stashRef])) {
+      return;
+    }
     // If stashRef is a SHA, convert it to stash@{N} reference
     const stashIndex = await this.findStashBySha(stashRef);
     if (stashIndex !== null) {
@@ -580,4 +893,70 @@ export class GitOperations {
     const result = await this.git.revparse(['--show-toplevel']);
     return result.trim();
   }
-}
\ No newline at end of file
+
+  /**
+   * Commits on a ref that the current branch doesn't have
+   */
+  async getCommitsBehind(ref: string): Promise<number> {
+    const result = await this.git.raw(['rev-list', '--count', `HEAD..${ref}`]);
+    return parseInt(result.trim()) || 0;
+  }
+
+  /**
+   * Record a mutating command instead of running it during a dry run
+   * Returns true when the command should be skipped
+   */
+  private planned(args: string[]): boolean {
+    return recordPlannedStep('git', ['git', ...args].join(' '));
+  }
+
+  private isReadOnly(args: string[]): boolean {
+    const [command, ...rest] = args;
+    if (!command) {
+      return true;
+    }
+    if (command === 'config') {
+      return rest.some(arg => ['--get', '--get-regexp', '--list', '-l'].includes(arg));
+    }
+    if (command === 'branch') {
+      return rest.length === 0 || rest.some(arg => READ_ONLY_BRANCH_FLAGS.has(arg));
+    }
+    return READ_ONLY_COMMANDS.has(command);
+  }
+}
+
+/**
+ * Parse the conflict marker blocks (<<<<<<<, |||||||, =======, >>>>>>>) of a file
+ * Hunks are returned in file order; base is set only for diff3-style markers
+ */
+export function parseConflictHunks(content: string): ConflictHunk[] {
+  const hunks: ConflictHunk[] = [];
+  let current: { startLine: number; ours: string[]; base?: string[]; theirs: string[] } | null = null;
+  let section: 'ours' | 'base' | 'theirs' = 'ours';
+
+  content.split('\n').forEach((line, index) => {
+    if (/^<{7}( |$)/.test(line)) {
+      current = { startLine: index + 1, ours: [], theirs: [] };
+      section = 'ours';
+    } else if (!current) {
+      return;
+    } else if (/^\|{7}( |$)/.test(line)) {
+      current.base = [];
+      section = 'base';
+    } else if (/^={7}$/.test(line)) {
+      section = 'theirs';
+    } else if (/^>{7}( |$)/.test(line)) {
+      hunks.push({
+        startLine: current.startLine,
+        ours: current.ours.join('\n'),
+        ...(current.base && { base: current.base.join('\n') }),
+        theirs: current.theirs.join('\n'),
+      });
+      current = null;
+    } else {
+      current[section]!.push(line);
+    }
+  });
+
+  return hunks;
+}
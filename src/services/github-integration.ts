@@ -2,6 +2,8 @@ import { Octokit } from '@octokit/rest';
 import { GitOperations } from './git-operations';
 import { ConfigurationManager } from './configuration-manager';
 import { execSync } from 'child_process';
+import { recordPlannedStep } from './dry-run';
+import { MergeStrategy } from '../models/types';
 
 export interface PullRequestOptions {
   title: string;
@@ -17,12 +19,66 @@ export interface PullRequestInfo {
   html_url: string;
   state: string;
   merged: boolean;
+  draft?: boolean;
   mergeable?: boolean;
   mergeable_state?: string;
   title: string;
   body?: string;
   head: string;
   base: string;
+  merge_commit_sha?: string;
+  commits?: number;
+}
+
+/**
+ * Review feedback on a pull request
+ * Inline comments carry the file and line they refer to; review summaries don't
+ */
+export interface ReviewComment {
+  author: string;
+  body: string;
+  path?: string;
+  line?: number;
+  diffHunk?: string;
+  url: string;
+}
+
+/**
+ * A check run, as reported while waiting for checks
+ */
+export interface CheckRunDetail {
+  id?: number;
+  name: string;
+  status: string;
+  conclusion?: string;
+  url?: string;
+}
+
+/**
+ * Why a check run failed: its annotations and the end of its job log
+ * (the log is only available for GitHub Actions jobs)
+ */
+export interface CheckFailure {
+  name: string;
+  url?: string;
+  annotations: Array<{
+    path: string;
+    startLine: number;
+    endLine: number;
+    level: string;
+    message: string;
+    title?: string;
+  }>;
+  logTail?: string;
+}
+
+/**
+ * Commit title and message for squash and merge commits
+ * GitHub ignores both for rebase merges
+ */
+export interface MergeCommitOptions {
+  commitTitle?: string;
+  commitMessage?: string;
 }
 
 export class GitHubIntegration {
@@ -32,8 +88,8 @@ export class GitHubIntegration {
   private gitOps: GitOperations;
   private configManager: ConfigurationManager;
 
-  constructor(basePath: string = '.devsolo') {
-    this.gitOps = new GitOperations();
+  constructor(basePath: string = '.devsolo', gitOps?: GitOperations) {
+    this.gitOps = gitOps || new GitOperations();
     this.configManager = new ConfigurationManager(basePath);
   }
 
@@ -138,6 +194,26 @@ export class GitHubIntegration {
   }
 
   async createPullRequest(options: PullRequestOptions): Promise<PullRequestInfo | null> {
+    const base = options.base || (await this.gitOps.getMainBranch());
+    if (this.planned('POST', 'pulls', {
+      title: options.title,
+      head: options.head,
+      base,
+      draft: options.draft || false,
+    })) {
+      return {
+        number: 0,
+        html_url: `https://github.com/${this.repoPath()}/pull/new/${options.head}`,
+        state: 'open',
+        merged: false,
+        draft: options.draft || false,
+        title: options.title,
+        body: options.body,
+        head: options.head,
+        base,
+      };
+    }
+
     if (!this.octokit || !this.owner || !this.repo) {
       const initialized = await this.initialize();
       if (!initialized) {
@@ -152,7 +228,7 @@ export class GitHubIntegration {
         title: options.title,
         body: options.body,
         head: options.head,
-        base: options.base || 'main',
+        base,
         draft: options.draft || false,
         maintainer_can_modify: options.maintainerCanModify !== false,
       });
@@ -162,6 +238,7 @@ export class GitHubIntegration {
         html_url: response.data.html_url,
         state: response.data.state,
         merged: response.data.merged,
+        draft: response.data.draft ?? false,
         mergeable: response.data.mergeable ?? undefined,
         mergeable_state: response.data.mergeable_state ?? undefined,
         title: response.data.title,
@@ -201,12 +278,15 @@ export class GitHubIntegration {
         html_url: response.data.html_url,
         state: response.data.state,
         merged: response.data.merged,
+        draft: response.data.draft ?? false,
         mergeable: response.data.mergeable ?? undefined,
         mergeable_state: response.data.mergeable_state ?? undefined,
         title: response.data.title,
         body: response.data.body ?? undefined,
         head: response.data.head.ref,
         base: response.data.base.ref,
+        merge_commit_sha: response.data.merge_commit_sha ?? undefined,
+        commits: response.data.commits,
       };
     } catch (error) {
       console.error('Failed to get pull request:', error);
@@ -241,6 +321,7 @@ export class GitHubIntegration {
             html_url: pr.html_url,
             state: pr.state,
             merged: pr.merged ?? false,
+            draft: pr.draft ?? false,
             mergeable: pr.mergeable ?? undefined,
             mergeable_state: pr.mergeable_state ?? undefined,
             title: pr.title,
@@ -258,7 +339,20 @@ export class GitHubIntegration {
     }
   }
 
-  async mergePullRequest(prNumber: number, mergeMethod: 'merge' | 'squash' | 'rebase' = 'squash'): Promise<boolean> {
+  async mergePullRequest(
+    prNumber: number,
+    mergeMethod: MergeStrategy = 'squash',
+    options: MergeCommitOptions = {}
+  ): Promise<boolean> {
+    const params = {
+      merge_method: mergeMethod,
+      ...(options.commitTitle && { commit_title: options.commitTitle }),
+      ...(options.commitMessage !== undefined && { commit_message: options.commitMessage }),
+    };
+    if (this.planned('PUT', `pulls/${prNumber}/merge`, params)) {
+      return true;
+    }
+
     if (!this.octokit || !this.owner || !this.repo) {
       const initialized = await this.initialize();
       if (!initialized) {
@@ -271,7 +365,7 @@ export class GitHubIntegration {
         owner: this.owner!,
         repo: this.repo!,
         pull_number: prNumber,
-        merge_method: mergeMethod,
+        ...params,
       });
 
       return true;
@@ -281,7 +375,141 @@ export class GitHubIntegration {
     }
   }
 
+  /**
+   * Enable GitHub auto-merge, so GitHub merges the PR once its required
+   * checks and reviews pass
+   * Throws when auto-merge can't be enabled (e.g. not allowed on the repository)
+   */
+  async enableAutoMerge(
+    prNumber: number,
+    mergeMethod: MergeStrategy = 'squash',
+    options: MergeCommitOptions = {}
+  ): Promise<void> {
+    if (this.plannedGraphQL('enablePullRequestAutoMerge', { pullRequest: prNumber, mergeMethod })) {
+      return;
+    }
+
+    const pullRequestId = await this.getPullRequestNodeId(prNumber);
+    await this.octokit!.graphql(
+      `mutation($pullRequestId: ID!, $mergeMethod: PullRequestMergeMethod!, $commitHeadline: String, $commitBody: String) {
+        enablePullRequestAutoMerge(input: {
+          pullRequestId: $pullRequestId,
+          mergeMethod: $mergeMethod,
+          commitHeadline: $commitHeadline,
+          commitBody: $commitBody
+        }) {
+          pullRequest { number }
+        }
+      }`,
+      {
+        pullRequestId,
+        mergeMethod: mergeMethod.toUpperCase(),
+        commitHeadline: options.commitTitle,
+        commitBody: options.commitMessage,
+      }
+    );
+  }
+
+  /**
+   * Add the PR to its base branch's merge queue
+   * Returns the PR's position in the queue
+   * Throws when the PR can't be queued (e.g. the base branch has no merge queue)
+   */
+  async enqueuePullRequest(prNumber: number): Promise<{ position: number }> {
+    if (this.plannedGraphQL('enqueuePullRequest', { pullRequest: prNumber })) {
+      return { position: 0 };
+    }
+
+    const pullRequestId = await this.getPullRequestNodeId(prNumber);
+    const response = await this.octokit!.graphql<{
+      enqueuePullRequest: { mergeQueueEntry: { position: number } | null };
+    }>(
+      `mutation($pullRequestId: ID!) {
+        enqueuePullRequest(input: { pullRequestId: $pullRequestId }) {
+          mergeQueueEntry { position }
+        }
+      }`,
+      { pullRequestId }
+    );
+
+    return { position: response.enqueuePullRequest.mergeQueueEntry?.position ?? 0 };
+  }
+
+  /**
+   * Mark a draft PR as ready for review
+   */
+  async markReadyForReview(prNumber: number): Promise<void> {
+    if (this.plannedGraphQL('markPullRequestReadyForReview', { pullRequest: prNumber })) {
+      return;
+    }
+
+    const pullRequestId = await this.getPullRequestNodeId(prNumber);
+    await this.octokit!.graphql(
+      `mutation($pullRequestId: ID!) {
+        markPullRequestReadyForReview(input: { pullRequestId: $pullRequestId }) {
+          pullRequest { number }
+        }
+      }`,
+      { pullRequestId }
+    );
+  }
+
+  /**
+   * GraphQL node ID of a pull request
+   */
+  private async getPullRequestNodeId(prNumber: number): Promise<string> {
+    if (!this.octokit || !this.owner || !this.repo) {
+      const initialized = await this.initialize();
+      if (!initialized) {
+        throw new Error('Failed to initialize GitHub integration');
+      }
+    }
+
+    const response = await this.octokit!.pulls.get({
+      owner: this.owner!,
+      repo: this.repo!,
+      pull_number: prNumber,
+    });
+    return response.data.node_id;
+  }
+
+  async updatePullRequest(
+    prNumber: number,
+    changes: { title?: string; body?: string; base?: string }
+  ): Promise<boolean> {
+    const planned = { ...(changes.title && { title: changes.title }), ...(changes.base && { base: changes.base }) };
+    const fields = (['title', 'body', 'base'] as const).filter(field => changes[field] !== undefined);
+    if (this.planned('PATCH', `pulls/${prNumber} (${fields.join(' + ')})`, planned)) {
+      return true;
+    }
+
+    if (!this.octokit || !this.owner || !this.repo) {
+      const initialized = await this.initialize();
+      if (!initialized) {
+        throw new Error('Failed to initialize GitHub integration');
+      }
+    }
+
+    try {
+      await this.octokit!.pulls.update({
+        owner: this.owner!,
+        repo: this.repo!,
+        pull_number: prNumber,
+        ...changes,
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Failed to update pull request:', error);
+      return false;
+    }
+  }
+
   async closePullRequest(prNumber: number): Promise<boolean> {
+    if (this.planned('PATCH', `pulls/${prNumber}`, { state: 'closed' })) {
+      return true;
+    }
+
     if (!this.octokit || !this.owner || !this.repo) {
       const initialized = await this.initialize();
       if (!initialized) {
@@ -305,6 +533,10 @@ export class GitHubIntegration {
   }
 
   async addComment(prNumber: number, body: string): Promise<boolean> {
+    if (this.planned('POST', `issues/${prNumber}/comments`)) {
+      return true;
+    }
+
     if (!this.octokit || !this.owner || !this.repo) {
       const initialized = await this.initialize();
       if (!initialized) {
@@ -327,11 +559,11 @@ export class GitHubIntegration {
     }
   }
 
-  async getReviewStatus(prNumber: number): Promise<{
-    approved: boolean;
-    changesRequested: boolean;
-    reviewCount: number;
-  }> {
+  async addLabels(prNumber: number, labels: string[]): Promise<boolean> {
+    if (this.planned('POST', `issues/${prNumber}/labels`, { labels })) {
+      return true;
+    }
+
     if (!this.octokit || !this.owner || !this.repo) {
       const initialized = await this.initialize();
       if (!initialized) {
@@ -340,36 +572,48 @@ export class GitHubIntegration {
     }
 
     try {
-      const response = await this.octokit!.pulls.listReviews({
+      await this.octokit!.issues.addLabels({
         owner: this.owner!,
         repo: this.repo!,
-        pull_number: prNumber,
+        issue_number: prNumber,
+        labels,
       });
 
-      let approved = false;
-      let changesRequested = false;
-      const reviewCount = response.data.length;
+      return true;
+    } catch (error) {
+      console.error('Failed to add labels:', error);
+      return false;
+    }
+  }
 
-      // Check latest review from each reviewer
-      const reviewerStates = new Map<string, string>();
-      for (const review of response.data) {
-        if (review.user && review.state) {
-          reviewerStates.set(review.user.login, review.state);
-        }
+  async getReviewStatus(prNumber: number): Promise<{
+    approved: boolean;
+    changesRequested: boolean;
+    reviewCount: number;
+    approvals: number;
+    changesRequestedBy: string[];
+  }> {
+    if (!this.octokit || !this.owner || !this.repo) {
+      const initialized = await this.initialize();
+      if (!initialized) {
+        throw new Error('Failed to initialize GitHub integration');
       }
+    }
 
-      for (const state of reviewerStates.values()) {
-        if (state === 'APPROVED') {
-          approved = true;
-        } else if (state === 'CHANGES_REQUESTED') {
-          changesRequested = true;
-        }
-      }
+    try {
+      const reviewerStates = await this.getLatestReviews(prNumber);
+      const states = [...reviewerStates.entries()];
+      const approvals = states.filter(([, review]) => review.state === 'APPROVED').length;
+      const changesRequestedBy = states
+        .filter(([, review]) => review.state === 'CHANGES_REQUESTED')
+        .map(([login]) => login);
 
       return {
-        approved,
-        changesRequested,
-        reviewCount,
+        approved: approvals > 0,
+        changesRequested: changesRequestedBy.length > 0,
+        reviewCount: states.length,
+        approvals,
+        changesRequestedBy,
       };
     } catch (error) {
       console.error('Failed to get review status:', error);
@@ -377,16 +621,107 @@ export class GitHubIntegration {
         approved: false,
         changesRequested: false,
         reviewCount: 0,
+        approvals: 0,
+        changesRequestedBy: [],
       };
     }
   }
 
+  /**
+   * Feedback from reviewers whose latest review requests changes: their
+   * review summaries and inline comments (with file and line)
+   */
+  async getReviewComments(prNumber: number): Promise<ReviewComment[]> {
+    if (!this.octokit || !this.owner || !this.repo) {
+      const initialized = await this.initialize();
+      if (!initialized) {
+        throw new Error('Failed to initialize GitHub integration');
+      }
+    }
+
+    const reviewerStates = await this.getLatestReviews(prNumber);
+    const requesting = [...reviewerStates.entries()].filter(([, review]) => review.state === 'CHANGES_REQUESTED');
+    const authors = new Set(requesting.map(([login]) => login));
+
+    const comments: ReviewComment[] = requesting
+      .filter(([, review]) => review.body)
+      .map(([login, review]) => ({ author: login, body: review.body!, url: review.html_url }));
+
+    const inline = await this.octokit!.paginate(this.octokit!.pulls.listReviewComments, {
+      owner: this.owner!,
+      repo: this.repo!,
+      pull_number: prNumber,
+      per_page: 100,
+    });
+    for (const comment of inline) {
+      if (comment.user && authors.has(comment.user.login)) {
+        comments.push({
+          author: comment.user.login,
+          body: comment.body,
+          path: comment.path,
+          line: comment.line ?? comment.original_line ?? undefined,
+          diffHunk: comment.diff_hunk,
+          url: comment.html_url,
+        });
+      }
+    }
+
+    return comments;
+  }
+
+  /**
+   * Approvals required by branch protection on a branch (default: the trunk)
+   * 0 when the branch is unprotected or protection can't be read (403 without admin access)
+   */
+  async getRequiredApprovals(branch?: string): Promise<number> {
+    branch = branch || (await this.gitOps.getMainBranch());
+    if (!this.octokit || !this.owner || !this.repo) {
+      const initialized = await this.initialize();
+      if (!initialized) {
+        throw new Error('Failed to initialize GitHub integration');
+      }
+    }
+
+    try {
+      const response = await this.octokit!.repos.getBranchProtection({
+        owner: this.owner!,
+        repo: this.repo!,
+        branch,
+      });
+      return response.data.required_pull_request_reviews?.required_approving_review_count ?? 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Latest substantive review (not COMMENTED) per reviewer
+   */
+  private async getLatestReviews(
+    prNumber: number
+  ): Promise<Map<string, { state: string; body: string | null; html_url: string }>> {
+    const reviews = await this.octokit!.paginate(this.octokit!.pulls.listReviews, {
+      owner: this.owner!,
+      repo: this.repo!,
+      pull_number: prNumber,
+      per_page: 100,
+    });
+
+    const latest = new Map<string, { state: string; body: string | null; html_url: string }>();
+    for (const review of reviews) {
+      if (review.user && review.state && review.state !== 'COMMENTED') {
+        latest.set(review.user.login, { state: review.state, body: review.body, html_url: review.html_url });
+      }
+    }
+    return latest;
+  }
+
   async getChecksStatus(branchName: string): Promise<{
     passed: boolean;
     failed: boolean;
     pending: boolean;
     total: number;
-    details: Array<{ name: string; status: string; conclusion?: string }>;
+    details: CheckRunDetail[];
   }> {
     if (!this.octokit || !this.owner || !this.repo) {
       const initialized = await this.initialize();
@@ -405,13 +740,15 @@ export class GitHubIntegration {
       let passed = 0;
       let failed = 0;
       let pending = 0;
-      const details = [];
+      const details: CheckRunDetail[] = [];
 
       for (const check of response.data.check_runs) {
         details.push({
+          id: check.id,
           name: check.name,
           status: check.status,
           conclusion: check.conclusion || undefined,
+          url: check.html_url ?? undefined,
         });
 
         if (check.status === 'completed') {
@@ -449,13 +786,31 @@ export class GitHubIntegration {
     options: {
       timeout?: number;
       pollInterval?: number;
-      onProgress?: (status: { passed: number; failed: number; pending: number }) => void;
+      signal?: AbortSignal;
+      supersededRuns?: number[]; // Re-run check runs, treated as pending until their new run reports
+      onProgress?: (status: {
+        passed: number;
+        failed: number;
+        pending: number;
+        details: CheckRunDetail[];
+      }) => void;
     } = {}
-  ): Promise<{ success: boolean; timedOut: boolean; failedChecks: string[] }> {
+  ): Promise<{
+    success: boolean;
+    timedOut: boolean;
+    cancelled?: boolean;
+    failedChecks: string[];
+    failedRuns?: CheckRunDetail[];
+  }> {
     const timeout = options.timeout || 20 * 60 * 1000; // 20 minutes default
     const pollInterval = options.pollInterval || 30 * 1000; // 30 seconds default
     const startTime = Date.now();
 
+    // Dry run: assume the checks pass
+    if (this.planned('GET', `commits/{head}/check-runs (poll until PR #${prNumber} checks complete)`)) {
+      return { success: true, timedOut: false, failedChecks: [] };
+    }
+
     // Get PR details to find branch name
     const pr = await this.getPullRequest(prNumber);
     if (!pr) {
@@ -463,39 +818,150 @@ export class GitHubIntegration {
     }
 
     while (Date.now() - startTime < timeout) {
+      if (options.signal?.aborted) {
+        return { success: false, timedOut: false, cancelled: true, failedChecks: [] };
+      }
+
       const status = await this.getChecksStatus(pr.head);
+      const details = status.details.map(d =>
+        d.id !== undefined && options.supersededRuns?.includes(d.id)
+          ? { ...d, status: 'queued', conclusion: undefined }
+          : d
+      );
+      const failedRuns = details.filter(d => d.conclusion === 'failure' || d.conclusion === 'cancelled');
+      const passed = details.filter(d => d.conclusion === 'success').length;
+      const pending = details.filter(d => d.status !== 'completed').length;
 
       if (options.onProgress) {
-        const passed = status.details.filter(d => d.conclusion === 'success').length;
-        const failed = status.details.filter(d => d.conclusion === 'failure' || d.conclusion === 'cancelled').length;
-        const pending = status.details.filter(d => d.status !== 'completed').length;
-        options.onProgress({ passed, failed, pending });
+        options.onProgress({ passed, failed: failedRuns.length, pending, details });
       }
 
-      if (status.passed) {
+      if (passed > 0 && failedRuns.length === 0 && pending === 0) {
         return { success: true, timedOut: false, failedChecks: [] };
       }
 
-      if (status.failed) {
-        const failedChecks = status.details
-          .filter(d => d.conclusion === 'failure' || d.conclusion === 'cancelled')
-          .map(d => d.name);
-        return { success: false, timedOut: false, failedChecks };
+      if (failedRuns.length > 0) {
+        return { success: false, timedOut: false, failedChecks: failedRuns.map(d => d.name), failedRuns };
       }
 
-      // Wait before polling again
-      await new Promise(resolve => setTimeout(resolve, pollInterval));
+      // Wait before polling again (wakes early on cancellation)
+      await this.sleep(pollInterval, options.signal);
     }
 
     return { success: false, timedOut: true, failedChecks: ['Timeout waiting for checks'] };
   }
 
+  /**
+   * Annotations and the last lines of the job log of a failed check run
+   */
+  async getCheckFailure(run: CheckRunDetail, logLines: number = 50): Promise<CheckFailure> {
+    const failure: CheckFailure = { name: run.name, url: run.url, annotations: [] };
+    if (run.id === undefined) {
+      return failure;
+    }
+
+    if (!this.octokit || !this.owner || !this.repo) {
+      const initialized = await this.initialize();
+      if (!initialized) {
+        throw new Error('Failed to initialize GitHub integration');
+      }
+    }
+
+    try {
+      const annotations = await this.octokit!.paginate(this.octokit!.checks.listAnnotations, {
+        owner: this.owner!,
+        repo: this.repo!,
+        check_run_id: run.id,
+        per_page: 100,
+      });
+      failure.annotations = annotations.map(annotation => ({
+        path: annotation.path,
+        startLine: annotation.start_line,
+        endLine: annotation.end_line,
+        level: annotation.annotation_level ?? 'failure',
+        message: annotation.message ?? '',
+        ...(annotation.title && { title: annotation.title }),
+      }));
+    } catch (error) {
+      console.error('Failed to get check run annotations:', error);
+    }
+
+    // GitHub Actions check runs share their ID with the job
+    try {
+      const response = await this.octokit!.actions.downloadJobLogsForWorkflowRun({
+        owner: this.owner!,
+        repo: this.repo!,
+        job_id: run.id,
+      });
+      const lines = String(response.data)
+        .split('\n')
+        .map(line => line.replace(/^\d{4}-\d{2}-\d{2}T[\d:.]+Z /, '').trimEnd());
+      while (lines.length > 0 && lines[lines.length - 1] === '') {
+        lines.pop();
+      }
+      failure.logTail = lines.slice(-logLines).join('\n');
+    } catch {
+      // Not a GitHub Actions job, or its logs have expired
+    }
+
+    return failure;
+  }
+
+  /**
+   * Re-run the GitHub Actions job behind a failed check run
+   */
+  async rerunCheck(run: CheckRunDetail): Promise<boolean> {
+    if (run.id === undefined) {
+      return false;
+    }
+    if (this.planned('POST', `actions/jobs/${run.id}/rerun`, { check: run.name })) {
+      return true;
+    }
+
+    if (!this.octokit || !this.owner || !this.repo) {
+      const initialized = await this.initialize();
+      if (!initialized) {
+        throw new Error('Failed to initialize GitHub integration');
+      }
+    }
+
+    try {
+      await this.octokit!.actions.reRunJobForWorkflowRun({
+        owner: this.owner!,
+        repo: this.repo!,
+        job_id: run.id,
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to re-run check:', error);
+      return false;
+    }
+  }
+
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
   async createRelease(tagName: string, options: {
     name?: string;
     body?: string;
     draft?: boolean;
     prerelease?: boolean;
   } = {}): Promise<{ html_url: string } | null> {
+    if (this.planned('POST', 'releases', { tag_name: tagName, name: options.name || tagName })) {
+      return { html_url: `https://github.com/${this.repoPath()}/releases/tag/${tagName}` };
+    }
+
     if (!this.octokit || !this.owner || !this.repo) {
       const initialized = await this.initialize();
       if (!initialized) {
@@ -523,6 +989,22 @@ export class GitHubIntegration {
     }
   }
 
+  /**
+   * Record an API call instead of making it during a dry run
+   * Returns true when the call should be skipped
+   */
+  private planned(method: string, endpoint: string, details?: Record<string, unknown>): boolean {
+    return recordPlannedStep('github', `${method} /repos/${this.repoPath()}/${endpoint}`, details);
+  }
+
+  private plannedGraphQL(mutation: string, details?: Record<string, unknown>): boolean {
+    return recordPlannedStep('github', `POST /graphql ${mutation}`, { repository: this.repoPath(), ...details });
+  }
+
+  private repoPath(): string {
+    return `${this.owner || '{owner}'}/${this.repo || '{repo}'}`;
+  }
+
   isInitialized(): boolean {
     return this.octokit !== null && this.owner !== null && this.repo !== null;
   }
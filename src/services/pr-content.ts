@@ -0,0 +1,110 @@
+import { createHash } from 'crypto';
+
+/**
+ * A generated part of a PR body, wrapped in markers so that a later ship can
+ * regenerate it, unless someone has edited it since:
+ *
+ *   <!-- devsolo:changes sha=1a2b3c4d -->
+ *   ...
+ *   <!-- /devsolo:changes -->
+ */
+export interface PRSection {
+  name: string;
+  content: string;
+}
+
+// type(scope)!: description
+export const CONVENTIONAL_COMMIT = /^(\w+)(?:\(([^)]+)\))?(!)?: (.+)$/;
+
+// Most significant first; unlisted types rank last
+const TYPE_PRIORITY = ['feat', 'fix', 'perf', 'refactor', 'revert', 'docs', 'style', 'test', 'build', 'ci', 'chore'];
+
+/**
+ * PR title from the branch's commit subjects (oldest first)
+ * - A single commit: its subject
+ * - Conventional commits: the most significant type (feat, fix, ...) with the
+ *   session description, or else the oldest commit of that type
+ * - Otherwise: the session description, or the oldest commit subject
+ */
+export function derivePRTitle(commitSubjects: string[], description?: string): string | null {
+  const first = commitSubjects[0];
+  if (commitSubjects.length === 1 && first) {
+    return first;
+  }
+
+  const conventional = commitSubjects
+    .map(subject => subject.match(CONVENTIONAL_COMMIT))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([header, type, scope, bang]) => ({ header: header!, type: type!, scope, breaking: bang === '!' }));
+
+  if (conventional.length > 0) {
+    const rank = (type: string): number =>
+      TYPE_PRIORITY.includes(type) ? TYPE_PRIORITY.indexOf(type) : TYPE_PRIORITY.length;
+    const type = conventional.map(commit => commit.type).sort((a, b) => rank(a) - rank(b))[0]!;
+    const ofType = conventional.filter(commit => commit.type === type);
+
+    if (!description) {
+      return ofType[0]!.header;
+    }
+    const scopes = new Set(ofType.map(commit => commit.scope));
+    const scope = scopes.size === 1 && ofType[0]!.scope ? `(${ofType[0]!.scope})` : '';
+    const breaking = conventional.some(commit => commit.breaking) ? '!' : '';
+    return `${type}${scope}${breaking}: ${description}`;
+  }
+
+  return description || first || null;
+}
+
+/**
+ * PR body from generated sections, each wrapped in markers
+ */
+export function renderPRBody(sections: PRSection[]): string {
+  return sections.map(renderSection).join('\n\n');
+}
+
+/**
+ * Regenerate the marked sections of an existing PR body
+ * Sections edited since they were generated are kept (unless listed in
+ * replace), as is everything outside the markers
+ * A body without any markers (not generated by devsolo), or whose sections
+ * are all current, is returned as given so callers can compare it
+ */
+export function updatePRBody(body: string, sections: PRSection[], replace: string[] = []): string {
+  if (!/<!-- devsolo:\w+ sha=\w+ -->/.test(body)) {
+    return body;
+  }
+
+  // Bodies edited on github.com come back with CRLF line endings
+  const normalized = body.replace(/\r\n/g, '\n');
+  let updated = normalized;
+  const missing: PRSection[] = [];
+  for (const section of sections) {
+    const pattern = new RegExp(
+      `<!-- devsolo:${section.name} sha=(\\w+) -->\\n([\\s\\S]*?)\\n?<!-- /devsolo:${section.name} -->`
+    );
+    const match = updated.match(pattern);
+    if (!match) {
+      missing.push(section);
+      continue;
+    }
+
+    const edited = hash(match[2]!) !== match[1];
+    if (!edited || replace.includes(section.name)) {
+      updated = updated.replace(pattern, () => renderSection(section));
+    }
+  }
+
+  if (missing.length > 0) {
+    return `${updated.trimEnd()}\n\n${renderPRBody(missing)}`;
+  }
+  return updated === normalized ? body : updated;
+}
+
+function renderSection(section: PRSection): string {
+  const content = section.content.trim();
+  return `<!-- devsolo:${section.name} sha=${hash(content)} -->\n${content}\n<!-- /devsolo:${section.name} -->`;
+}
+
+function hash(content: string): string {
+  return createHash('sha1').update(content.trim()).digest('hex').substring(0, 8);
+}
@@ -0,0 +1,188 @@
+import { GitOperations } from './git-operations';
+import { SessionRepository } from './session-repository';
+import { WorkflowSession } from '../models/workflow-session';
+import { ConflictedFile, SyncStrategy, TransitionTrigger } from '../models/types';
+
+export interface RebaseResult {
+  status: 'up-to-date' | 'rebased' | 'merged' | 'conflicts';
+  onto: string;
+  strategy: SyncStrategy;
+  conflicts: ConflictedFile[];
+  behind?: number; // Commits the branch was behind its base before updating
+}
+
+/**
+ * RebaseService keeps session branches up to date with their base branch
+ * (the trunk, unless the session was launched from another branch)
+ * The session moves through REBASING, and into CONFLICT_RESOLUTION when the
+ * rebase stops on conflicts; a rebased branch is back in CHANGES_COMMITTED,
+ * ready to be pushed with --force-with-lease
+ * Merging the base in instead goes through the same states, without
+ * rewriting the branch
+ * A session restacked after its parent merged (metadata.restack) is always
+ * rebased, with --onto, so the parent's already merged commits are dropped
+ */
+export class RebaseService {
+  constructor(
+    private gitOps: GitOperations,
+    private sessionRepo: SessionRepository
+  ) {}
+
+  /**
+   * Whether the session's workflow supports rebasing from its current state
+   */
+  canRebase(session: WorkflowSession): boolean {
+    return this.sessionRepo.getWorkflowEngine().canTransition(session, 'REBASING');
+  }
+
+  /**
+   * Fetch the session's base branch and rebase the current branch onto it
+   * (origin/<base>) if it is behind
+   */
+  async rebaseOntoBase(session: WorkflowSession, trigger: TransitionTrigger): Promise<RebaseResult> {
+    return this.updateFromBase(session, trigger, 'rebase');
+  }
+
+  /**
+   * Fetch the session's base branch and merge it (origin/<base>) into the
+   * current branch if it is behind
+   */
+  async mergeBase(session: WorkflowSession, trigger: TransitionTrigger): Promise<RebaseResult> {
+    return this.updateFromBase(session, trigger, 'merge');
+  }
+
+  /**
+   * Rebase a stacked session onto its new base after its parent merged
+   * A restack that conflicts is aborted, leaving the branch as it was; the
+   * session's next sync or ship retries it and stops on the conflicts
+   */
+  async restack(session: WorkflowSession, trigger: TransitionTrigger): Promise<RebaseResult> {
+    return this.updateFromBase(session, trigger, 'rebase', true);
+  }
+
+  /**
+   * Continue a rebase or merge that stopped on conflicts
+   * Conflicted files that still contain conflict markers are returned
+   * without continuing; resolved ones are staged
+   */
+  async continueRebase(session: WorkflowSession, trigger: TransitionTrigger): Promise<RebaseResult> {
+    const onto = await this.getRebaseTarget(session);
+
+    const conflicted = await this.gitOps.getConflictedFiles();
+    const unresolved = (await this.describeConflicts(conflicted)).filter(file => file.hunks.length > 0);
+    if (unresolved.length > 0) {
+      return { status: 'conflicts', onto, strategy: this.getStrategy(session), conflicts: unresolved };
+    }
+
+    if (conflicted.length > 0) {
+      await this.gitOps.add(conflicted);
+    }
+    const strategy = this.getStrategy(session);
+    await this.sessionRepo.transitionSession(session, 'REBASING', trigger, { onto, strategy });
+
+    // Nothing to continue if the rebase or merge was finished or aborted outside devsolo
+    let conflictedFiles: string[] = [];
+    if (strategy === 'merge' && (await this.gitOps.isMerging())) {
+      ({ conflictedFiles } = await this.gitOps.continueMerge());
+    } else if (strategy === 'rebase' && (await this.gitOps.isRebasing())) {
+      ({ conflictedFiles } = await this.gitOps.continueRebase());
+    }
+    return this.finishUpdate(session, trigger, onto, strategy, conflictedFiles);
+  }
+
+  private async updateFromBase(
+    session: WorkflowSession,
+    trigger: TransitionTrigger,
+    strategy: SyncStrategy,
+    abortOnConflict: boolean = false
+  ): Promise<RebaseResult> {
+    const base = await this.getBaseBranch(session);
+    const onto = `origin/${base}`;
+    await this.gitOps.fetch('origin', base);
+
+    const upstream = session.metadata.restack?.upstream;
+    if (upstream) {
+      strategy = 'rebase';
+    }
+
+    const behind = await this.gitOps.getCommitsBehind(onto);
+    if (behind === 0 && !upstream) {
+      return { status: 'up-to-date', onto, strategy, conflicts: [], behind };
+    }
+
+    await this.sessionRepo.transitionSession(session, 'REBASING', trigger, {
+      onto,
+      behind,
+      strategy,
+      ...(upstream && { upstream }),
+    });
+    let conflictedFiles: string[];
+    if (strategy === 'merge') {
+      ({ conflictedFiles } = await this.gitOps.mergeBranch(onto));
+    } else {
+      ({ conflictedFiles } = upstream ? await this.gitOps.rebase(onto, upstream) : await this.gitOps.rebase(onto));
+    }
+
+    if (conflictedFiles.length > 0 && abortOnConflict) {
+      const conflicts = await this.describeConflicts(conflictedFiles);
+      await this.gitOps.abortRebase();
+      await this.sessionRepo.transitionSession(session, 'CHANGES_COMMITTED', trigger, { onto, strategy, aborted: true });
+      return { status: 'conflicts', onto, strategy, conflicts, behind };
+    }
+    return { ...(await this.finishUpdate(session, trigger, onto, strategy, conflictedFiles)), behind };
+  }
+
+  private async finishUpdate(
+    session: WorkflowSession,
+    trigger: TransitionTrigger,
+    onto: string,
+    strategy: SyncStrategy,
+    conflictedFiles: string[]
+  ): Promise<RebaseResult> {
+    if (conflictedFiles.length > 0) {
+      await this.sessionRepo.transitionSession(session, 'CONFLICT_RESOLUTION', trigger, { onto, conflictedFiles });
+      return { status: 'conflicts', onto, strategy, conflicts: await this.describeConflicts(conflictedFiles) };
+    }
+
+    if (strategy === 'rebase') {
+      delete session.metadata.restack;
+    }
+    await this.sessionRepo.transitionSession(session, 'CHANGES_COMMITTED', trigger, {
+      onto,
+      strategy,
+      ...(strategy === 'rebase' && { rebased: true }),
+    });
+    return { status: strategy === 'merge' ? 'merged' : 'rebased', onto, strategy, conflicts: [] };
+  }
+
+  private async describeConflicts(files: string[]): Promise<ConflictedFile[]> {
+    const conflicts: ConflictedFile[] = [];
+    for (const file of files) {
+      conflicts.push({ path: file, hunks: await this.gitOps.getConflictHunks(file) });
+    }
+    return conflicts;
+  }
+
+  /**
+   * Ref the session's current rebase started onto
+   */
+  private async getRebaseTarget(session: WorkflowSession): Promise<string> {
+    const started = this.getRebaseStart(session);
+    return (started?.metadata?.['onto'] as string | undefined) || `origin/${await this.getBaseBranch(session)}`;
+  }
+
+  /**
+   * Whether the session's current update is a rebase or a merge
+   */
+  private getStrategy(session: WorkflowSession): SyncStrategy {
+    return this.getRebaseStart(session)?.metadata?.['strategy'] === 'merge' ? 'merge' : 'rebase';
+  }
+
+  private getRebaseStart(session: WorkflowSession): WorkflowSession['stateHistory'][number] | undefined {
+    return [...session.stateHistory].reverse().find(entry => entry.to === 'REBASING');
+  }
+
+  private async getBaseBranch(session: WorkflowSession): Promise<string> {
+    return session.metadata.baseBranch || this.gitOps.getMainBranch();
+  }
+}
@@ -0,0 +1,417 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { GitOperations } from './git-operations';
+import { GitHubIntegration } from './github-integration';
+import { SessionRepository } from './session-repository';
+import { CONVENTIONAL_COMMIT } from './pr-content';
+import { isDryRun, recordPlannedStep } from './dry-run';
+import { WorkflowSession } from '../models/workflow-session';
+import { VersionBump } from '../models/types';
+
+const SEMVER = /^(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?$/;
+const BREAKING_FOOTER = /^BREAKING[ -]CHANGE: /m;
+
+// Changelog section (Keep a Changelog) for each commit type; other types
+// (docs, test, chore, ...) are left out of the notes
+const CHANGELOG_SECTIONS: Array<{ heading: string; types: string[] }> = [
+  { heading: 'Added', types: ['feat'] },
+  { heading: 'Fixed', types: ['fix'] },
+  { heading: 'Changed', types: ['perf', 'refactor', 'revert'] },
+];
+
+/**
+ * Where devsolo_release reads and writes versions (preferences.release)
+ */
+export interface ReleaseSettings {
+  tagPrefix: string;
+  versionFiles: string[];
+  changelog: string;
+}
+
+export const DEFAULT_RELEASE_SETTINGS: ReleaseSettings = {
+  tagPrefix: 'v',
+  versionFiles: ['package.json', 'package-lock.json'],
+  changelog: 'CHANGELOG.md',
+};
+
+/**
+ * A commit, as it appears in the release notes
+ * type is absent for commits that aren't conventional
+ */
+export interface ReleaseCommit {
+  type?: string;
+  scope?: string;
+  description: string;
+  breaking: boolean;
+}
+
+/**
+ * The next release, computed from the commits since the latest release tag
+ */
+export interface ReleasePlan {
+  version: string;
+  tag: string;
+  previousVersion: string;
+  previousTag?: string;
+  bump?: VersionBump; // Absent when the version was given explicitly
+  commits: number;
+  notes: string; // Changelog entry without its heading
+}
+
+/**
+ * Outcome of tagging a merged release and publishing it on GitHub
+ */
+export interface PublishedRelease {
+  version: string;
+  tag: string;
+  published: boolean;
+  url?: string;
+  error?: string;
+}
+
+export function parseCommit(message: string): ReleaseCommit {
+  const subject = message.split('\n')[0]!.trim();
+  const match = subject.match(CONVENTIONAL_COMMIT);
+  if (!match) {
+    return { description: subject, breaking: BREAKING_FOOTER.test(message) };
+  }
+
+  const [, type, scope, bang, description] = match;
+  return {
+    type: type!.toLowerCase(),
+    ...(scope && { scope }),
+    description: description!,
+    breaking: bang === '!' || BREAKING_FOOTER.test(message),
+  };
+}
+
+/**
+ * Semver increment for a set of commits: major for breaking changes, minor
+ * for features, patch for anything else
+ */
+export function determineBump(commits: ReleaseCommit[]): VersionBump {
+  if (commits.some(commit => commit.breaking)) {
+    return 'major';
+  }
+  return commits.some(commit => commit.type === 'feat') ? 'minor' : 'patch';
+}
+
+export function isValidVersion(version: string): boolean {
+  return SEMVER.test(version);
+}
+
+export function bumpVersion(version: string, bump: VersionBump): string {
+  const match = version.match(SEMVER);
+  if (!match) {
+    throw new Error(`Invalid semantic version: ${version}`);
+  }
+
+  const [major, minor, patch] = match.slice(1, 4).map(Number) as [number, number, number];
+  switch (bump) {
+  case 'major':
+    return `${major + 1}.0.0`;
+  case 'minor':
+    return `${major}.${minor + 1}.0`;
+  case 'patch':
+    return `${major}.${minor}.${patch + 1}`;
+  }
+}
+
+/**
+ * Negative when a precedes b; a pre-release precedes its release
+ */
+export function compareVersions(a: string, b: string): number {
+  const [ma, mb] = [a.match(SEMVER), b.match(SEMVER)];
+  if (!ma || !mb) {
+    throw new Error(`Invalid semantic version: ${ma ? b : a}`);
+  }
+
+  for (let i = 1; i <= 3; i++) {
+    const diff = Number(ma[i]) - Number(mb[i]);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  if (ma[4] === mb[4]) {
+    return 0;
+  }
+  if (!ma[4] || !mb[4]) {
+    return ma[4] ? -1 : 1;
+  }
+  return ma[4].localeCompare(mb[4], undefined, { numeric: true });
+}
+
+/**
+ * Changelog section of a commit, or null when it is left out of the notes
+ * Commits that aren't conventional, and breaking changes of unlisted types, are changes
+ */
+function changelogSection(commit: ReleaseCommit): string | null {
+  if (!commit.type) {
+    return commit.description.startsWith('Merge ') ? null : 'Changed';
+  }
+  const section = CHANGELOG_SECTIONS.find(({ types }) => types.includes(commit.type!));
+  return section?.heading || (commit.breaking ? 'Changed' : null);
+}
+
+/**
+ * Release notes grouped into Keep a Changelog sections
+ * Breaking changes are listed first in their section, marked **BREAKING**
+ */
+export function renderReleaseNotes(commits: ReleaseCommit[]): string {
+  const sections: string[] = [];
+  for (const { heading } of CHANGELOG_SECTIONS) {
+    const entries = commits
+      .filter(commit => changelogSection(commit) === heading)
+      .sort((a, b) => Number(b.breaking) - Number(a.breaking))
+      .map(commit => {
+        const prefix = `${commit.breaking ? '**BREAKING**: ' : ''}${commit.scope ? `**${commit.scope}**: ` : ''}`;
+        return `- ${prefix}${commit.description}`;
+      });
+
+    if (entries.length > 0) {
+      sections.push(`### ${heading}\n${entries.join('\n')}`);
+    }
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * Hand-written notes under the changelog's [Unreleased] heading
+ */
+export function getUnreleasedNotes(changelog: string): string {
+  const match = changelog.match(/^## \[Unreleased\][^\n]*\n([\s\S]*?)(?=^## |^\[[^\]]+\]: |(?![\s\S]))/m);
+  return match?.[1]?.trim() || '';
+}
+
+/**
+ * Add a release entry to a Keep a Changelog file
+ * The entry replaces the [Unreleased] notes (leaving the heading), or goes
+ * before the latest release; the compare links at the bottom are updated
+ */
+export function addChangelogEntry(
+  changelog: string,
+  release: { version: string; tag: string; date: string; notes: string }
+): string {
+  const entry = `## [${release.version}] - ${release.date}\n\n${release.notes}\n\n`;
+  let updated = changelog.replace(/\r\n/g, '\n');
+
+  const unreleased = updated.match(/^## \[Unreleased\][^\n]*\n[\s\S]*?(?=^## |^\[[^\]]+\]: |(?![\s\S]))/m);
+  if (unreleased) {
+    updated = updated.replace(unreleased[0], () => `## [Unreleased]\n\n${entry}`);
+  } else {
+    const latest = updated.search(/^## /m);
+    updated = latest >= 0
+      ? `${updated.slice(0, latest)}${entry}${updated.slice(latest)}`
+      : `${updated.trimEnd()}${updated.trim() ? '\n\n' : ''}${entry}`;
+  }
+
+  const link = updated.match(/^\[Unreleased\]: (\S+)\/compare\/(\S+)\.\.\.HEAD$/m);
+  if (link) {
+    const [line, repoUrl, from] = link;
+    const links = [
+      `[Unreleased]: ${repoUrl}/compare/${release.tag}...HEAD`,
+      `[${release.version}]: ${repoUrl}/compare/${from}...${release.tag}`,
+    ];
+    updated = updated.replace(line, () => links.join('\n'));
+  }
+  return updated.replace(/\n*$/, '\n');
+}
+
+/**
+ * Set the version field of a JSON version file (and, for package-lock.json,
+ * of its root package), keeping its indentation
+ */
+export function setJsonVersion(content: string, version: string): string {
+  const json = JSON.parse(content);
+  json.version = version;
+  if (json.packages?.['']) {
+    json.packages[''].version = version;
+  }
+
+  const indent = content.match(/^([ \t]+)"/m)?.[1] || '  ';
+  return `${JSON.stringify(json, null, indent)}${content.endsWith('\n') ? '\n' : ''}`;
+}
+
+/**
+ * ReleaseService prepares and publishes releases
+ * A release is prepared on a release branch (version files and changelog
+ * updated and committed), shipped like any other session, and published
+ * once its PR merges: the merge commit is tagged and a GitHub release created
+ */
+export class ReleaseService {
+  constructor(
+    private gitOps: GitOperations,
+    private sessionRepo: SessionRepository,
+    private githubIntegration: GitHubIntegration
+  ) {}
+
+  /**
+   * Highest release tag with the prefix (pre-releases are skipped)
+   */
+  async getLatestTag(tagPrefix: string): Promise<{ tag: string; version: string } | null> {
+    const releases = (await this.gitOps.getTags())
+      .filter(tag => tag.startsWith(tagPrefix))
+      .map(tag => ({ tag, version: tag.slice(tagPrefix.length) }))
+      .filter(({ version }) => isValidVersion(version) && !version.includes('-'))
+      .sort((a, b) => compareVersions(b.version, a.version));
+    return releases[0] || null;
+  }
+
+  /**
+   * Compute the next release from the commits since the latest release tag
+   * Without a tag, the current version is read from the first version file
+   * Hand-written [Unreleased] notes take precedence over generated ones
+   */
+  async planRelease(
+    settings: ReleaseSettings,
+    options: { version?: string; bump?: VersionBump } = {}
+  ): Promise<ReleasePlan> {
+    const latest = await this.getLatestTag(settings.tagPrefix);
+    const previousVersion = latest?.version || (await this.readVersion(settings.versionFiles)) || '0.0.0';
+    const commits = (await this.gitOps.getCommitMessagesAfter(latest?.tag)).map(commit => parseCommit(commit.message));
+
+    let version: string;
+    let bump: VersionBump | undefined;
+    if (options.version) {
+      version = options.version.replace(/^v/, '');
+      if (!isValidVersion(version)) {
+        throw new Error(`Invalid semantic version: ${options.version}`);
+      }
+      if (latest && compareVersions(version, previousVersion) <= 0) {
+        throw new Error(`Version ${version} is not after the latest release ${latest.tag}`);
+      }
+    } else {
+      if (commits.length === 0) {
+        throw new Error(`No commits to release since ${latest?.tag || 'the first commit'}`);
+      }
+      bump = options.bump || determineBump(commits);
+      version = bumpVersion(previousVersion, bump);
+    }
+
+    const tag = `${settings.tagPrefix}${version}`;
+    if ((await this.gitOps.getTags()).includes(tag)) {
+      throw new Error(`Tag ${tag} already exists`);
+    }
+
+    const changelog = await this.readFile(settings.changelog);
+    const notes =
+      getUnreleasedNotes(changelog || '') || renderReleaseNotes(commits) || '### Changed\n- Maintenance release';
+
+    return {
+      version,
+      tag,
+      previousVersion,
+      ...(latest && { previousTag: latest.tag }),
+      ...(bump && { bump }),
+      commits: commits.length,
+      notes,
+    };
+  }
+
+  /**
+   * Write the release's version to the version files that exist and add its
+   * changelog entry; returns the files changed, relative to the repository
+   */
+  async applyRelease(plan: ReleasePlan, settings: ReleaseSettings, date: string): Promise<string[]> {
+    const changed: string[] = [];
+
+    for (const file of settings.versionFiles) {
+      const content = await this.readFile(file);
+      if (content !== null) {
+        await this.writeFile(file, setJsonVersion(content, plan.version), `Set version ${plan.version}`);
+        changed.push(file);
+      }
+    }
+
+    const changelog = await this.readFile(settings.changelog);
+    await this.writeFile(
+      settings.changelog,
+      addChangelogEntry(changelog ?? '# Changelog\n', { ...plan, date }),
+      `Add ${plan.version} to the changelog`
+    );
+    changed.push(settings.changelog);
+
+    return changed;
+  }
+
+  /**
+   * Tag the merge commit of a release session's PR, push the tag and create
+   * the GitHub release with the session's notes
+   * Safe to repeat: an existing tag is reused and a published release skipped
+   */
+  async publish(session: WorkflowSession): Promise<PublishedRelease> {
+    const release = session.metadata.release;
+    if (!release) {
+      throw new Error(`Session ${session.branchName} is not a release`);
+    }
+    if (release.publishedAt) {
+      return { version: release.version, tag: release.tag, published: true, ...(release.url && { url: release.url }) };
+    }
+
+    const result: PublishedRelease = { version: release.version, tag: release.tag, published: false };
+    try {
+      if (!(await this.gitOps.getTags()).includes(release.tag)) {
+        await this.gitOps.fetch('origin');
+        const base = session.metadata.baseBranch || (await this.gitOps.getMainBranch());
+        await this.gitOps.createTag(
+          release.tag,
+          `Release ${release.tag}`,
+          session.metadata.pr?.mergeCommitSha || `origin/${base}`
+        );
+      }
+      await this.gitOps.push('origin', release.tag);
+
+      const created = await this.githubIntegration.createRelease(release.tag, {
+        name: release.tag,
+        body: release.notes,
+        prerelease: release.version.includes('-'),
+      });
+      if (!created) {
+        result.error = `Pushed tag ${release.tag}, but failed to create the GitHub release`;
+        return result;
+      }
+
+      release.url = created.html_url;
+      release.publishedAt = new Date().toISOString();
+      await this.sessionRepo.updateSession(session.id, session);
+      return { ...result, published: true, url: created.html_url };
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+      return result;
+    }
+  }
+
+  /**
+   * Version in the first version file that has one
+   */
+  private async readVersion(files: string[]): Promise<string | null> {
+    for (const file of files) {
+      const content = await this.readFile(file);
+      try {
+        const version = content && JSON.parse(content).version;
+        if (typeof version === 'string' && isValidVersion(version)) {
+          return version;
+        }
+      } catch {
+        // Not JSON; try the next file
+      }
+    }
+    return null;
+  }
+
+  private async readFile(file: string): Promise<string | null> {
+    try {
+      return await fs.readFile(path.join(this.gitOps.getWorkingDirectory(), file), 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeFile(file: string, content: string, description: string): Promise<void> {
+    if (isDryRun()) {
+      recordPlannedStep('file', `${description} in ${file}`);
+      return;
+    }
+    await fs.writeFile(path.join(this.gitOps.getWorkingDirectory(), file), content);
+  }
+}
@@ -5,12 +5,21 @@ import { AuditEntry } from '../models/audit-entry';
 import { Configuration } from '../models/configuration';
 import { ConfigurationManager } from './configuration-manager';
 import { GitOperations } from './git-operations';
-import { StateName, TransitionTrigger } from '../models/types';
+import { LockHolder, LockResult, StateName, TransitionTrigger } from '../models/types';
+import { isDryRun, recordPlannedStep } from './dry-run';
+import { WorkflowEngine } from '../state-machines/workflow-engine';
+
+/**
+ * Repository-wide lock; branch names cannot start with '.', so this never
+ * collides with a session lock
+ */
+const REPOSITORY_LOCK_FILE = '.repository.lock';
 
 export class SessionRepository {
   private sessionPath: string;
   private lockPath: string;
   private configManager: ConfigurationManager;
+  private engine: WorkflowEngine = new WorkflowEngine();
 
   constructor(basePath: string = '.devsolo') {
     // Always resolve relative to current working directory
@@ -35,11 +44,15 @@ export class SessionRepository {
   }
 
   async createSession(session: WorkflowSession): Promise<WorkflowSession> {
+    const description = `Create ${session.workflowType} session for ${session.branchName} (${session.currentState})`;
+    if (recordPlannedStep('session', description, { sessionId: session.id, state: session.currentState })) {
+      return session;
+    }
+
     await this.initialize();
 
     const filename = this.branchToFilename(session.branchName);
     const sessionFile = path.join(this.sessionPath, filename);
-    const lockFile = path.join(this.lockPath, filename.replace('.json', '.lock'));
 
     // Check if session already exists
     try {
@@ -56,9 +69,6 @@ export class SessionRepository {
     await fs.writeFile(tempFile, JSON.stringify(session.toJSON(), null, 2));
     await fs.rename(tempFile, sessionFile);
 
-    // Create lock file with PID
-    await fs.writeFile(lockFile, process.pid.toString());
-
     // Create audit entry
     const auditEntry = new AuditEntry({
       sessionId: session.id,
@@ -125,6 +135,9 @@ export class SessionRepository {
 
   async updateSession(sessionId: string, updates: Partial<WorkflowSession>): Promise<WorkflowSession> {
     const session = await this.getSession(sessionId);
+    if (isDryRun()) {
+      return this.planUpdate(sessionId, session, updates);
+    }
     if (!session) {
       throw new Error(`Session ${sessionId} not found`);
     }
@@ -143,6 +156,47 @@ export class SessionRepository {
     return session;
   }
 
+  /**
+   * Workflow engine that session transitions go through (register hooks here)
+   */
+  getWorkflowEngine(): WorkflowEngine {
+    return this.engine;
+  }
+
+  /**
+   * Transition a session through the workflow engine and save it
+   * A rejected transition is recorded in the audit log and thrown; the
+   * session is left unchanged
+   */
+  async transitionSession(
+    session: WorkflowSession,
+    toState: StateName,
+    trigger: TransitionTrigger = 'user_action',
+    metadata?: Record<string, unknown>
+  ): Promise<WorkflowSession> {
+    const fromState = session.currentState;
+    const result = await this.engine.transition(session, toState, trigger, metadata);
+
+    if (!result.success) {
+      if (!isDryRun()) {
+        await this.appendAudit(new AuditEntry({
+          sessionId: session.id,
+          action: 'state_transition',
+          actor: process.env['USER'] || 'unknown',
+          details: {
+            command: trigger,
+            stateTransition: { from: fromState, to: toState },
+          },
+          result: 'failure',
+          errorMessage: result.error,
+        }));
+      }
+      throw new Error(`${session.branchName}: ${result.error}`);
+    }
+
+    return this.updateSession(session.id, session);
+  }
+
   async deleteSession(sessionId: string): Promise<void> {
     // Get session for audit (also gives us branch name)
     const session = await this.getSession(sessionId);
@@ -155,6 +209,14 @@ export class SessionRepository {
     const sessionFile = path.join(this.sessionPath, filename);
     const lockFile = path.join(this.lockPath, filename.replace('.json', '.lock'));
 
+    if (isDryRun()) {
+      recordPlannedStep('session', `Delete session for ${session.branchName}`, { sessionId });
+      for (const file of [sessionFile, lockFile]) {
+        recordPlannedStep('file', `Delete ${path.relative(process.cwd(), file)}`);
+      }
+      return;
+    }
+
     // Delete files
     await fs.unlink(sessionFile).catch(() => { /* ignore */ });
     await fs.unlink(lockFile).catch(() => { /* ignore */ });
@@ -278,9 +340,8 @@ export class SessionRepository {
     return cleaned;
   }
 
-  async cleanupCompletedSessions(): Promise<number> {
+  async cleanupCompletedSessions(gitOps: GitOperations = new GitOperations()): Promise<number> {
     const sessions = await this.listSessions(true);
-    const gitOps = new GitOperations();
     let cleaned = 0;
 
     for (const session of sessions) {
@@ -306,67 +367,63 @@ export class SessionRepository {
     return cleaned;
   }
 
-  async acquireLock(sessionId: string): Promise<boolean> {
-    // Get session to find branch name
-    const session = await this.getSession(sessionId);
-    if (!session) {
-      throw new Error(`Session ${sessionId} not found`);
-    }
-
-    const filename = this.branchToFilename(session.branchName);
-    const lockFile = path.join(this.lockPath, filename.replace('.json', '.lock'));
+  /**
+   * Take the repository-wide lock that serialises mutating tool calls
+   * When busy, the result carries the current holder
+   */
+  async acquireRepositoryLock(tool: string): Promise<LockResult> {
+    await this.initialize();
+    return this.tryLock(path.join(this.lockPath, REPOSITORY_LOCK_FILE), tool);
+  }
 
-    try {
-      // Check if lock exists
-      const existingPid = await fs.readFile(lockFile, 'utf-8');
+  async releaseRepositoryLock(holder?: LockHolder): Promise<void> {
+    await this.unlock(path.join(this.lockPath, REPOSITORY_LOCK_FILE), holder);
+  }
 
-      // Check if process is still running
-      try {
-        process.kill(parseInt(existingPid), 0);
-        return false; // Process still running, lock is held
-      } catch {
-        // Process not running, can acquire lock
-      }
-    } catch (error: any) {
-      if (error.code !== 'ENOENT') {
-        throw error;
-      }
+  /**
+   * Take the lock for one session
+   * When busy, the result carries the current holder
+   */
+  async acquireSessionLock(sessionId: string, tool: string): Promise<LockResult> {
+    const lockFile = await this.sessionLockFile(sessionId);
+    if (!lockFile) {
+      throw new Error(`Session ${sessionId} not found`);
     }
 
-    // Acquire lock
-    await fs.writeFile(lockFile, process.pid.toString());
-    return true;
+    await this.initialize();
+    return this.tryLock(lockFile, tool);
   }
 
-  async releaseLock(sessionId: string): Promise<void> {
-    // Get session to find branch name
-    const session = await this.getSession(sessionId);
-    if (!session) {
+  async acquireLock(sessionId: string, tool: string = 'unknown'): Promise<boolean> {
+    const result = await this.acquireSessionLock(sessionId, tool);
+    return result.acquired;
+  }
+
+  /**
+   * Release a session lock
+   * If a holder is given, the lock is only removed while that holder still owns it
+   */
+  async releaseLock(sessionId: string, holder?: LockHolder): Promise<void> {
+    const lockFile = await this.sessionLockFile(sessionId);
+    if (!lockFile) {
       return; // Session already deleted, lock doesn't matter
     }
-
-    const filename = this.branchToFilename(session.branchName);
-    const lockFile = path.join(this.lockPath, filename.replace('.json', '.lock'));
-    await fs.unlink(lockFile).catch(() => { /* ignore */ });
+    await this.unlock(lockFile, holder);
   }
 
   async isLocked(sessionId: string): Promise<boolean> {
-    // Get session to find branch name
-    const session = await this.getSession(sessionId);
-    if (!session) {
+    const lockFile = await this.sessionLockFile(sessionId);
+    if (!lockFile) {
       return false; // Session doesn't exist, can't be locked
     }
 
-    const filename = this.branchToFilename(session.branchName);
-    const lockFile = path.join(this.lockPath, filename.replace('.json', '.lock'));
-    try {
-      await fs.access(lockFile);
-      return true;
-    } catch {
-      return false;
-    }
+    const holder = await this.readLockHolder(lockFile);
+    return holder !== null && this.isProcessAlive(holder.pid);
   }
 
+  /**
+   * Remove locks left behind by processes that are no longer running
+   */
   async cleanupOrphanedLocks(): Promise<number> {
     await this.initialize();
     const lockFiles = await fs.readdir(this.lockPath);
@@ -374,13 +431,11 @@ export class SessionRepository {
 
     for (const file of lockFiles) {
       if (file.endsWith('.lock')) {
-        const lockPath = path.join(this.lockPath, file);
-        const stat = await fs.stat(lockPath);
-        const ageMs = Date.now() - stat.mtimeMs;
+        const lockFile = path.join(this.lockPath, file);
+        const holder = await this.readLockHolder(lockFile);
 
-        // Remove locks older than 1 hour
-        if (ageMs > 60 * 60 * 1000) {
-          await fs.unlink(lockPath).catch(() => { /* ignore error */ });
+        if (!holder || !this.isProcessAlive(holder.pid)) {
+          await fs.unlink(lockFile).catch(() => { /* ignore error */ });
           cleaned++;
         }
       }
@@ -389,6 +444,98 @@ export class SessionRepository {
     return cleaned;
   }
 
+  private async sessionLockFile(sessionId: string): Promise<string | null> {
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    const filename = this.branchToFilename(session.branchName);
+    return path.join(this.lockPath, filename.replace('.json', '.lock'));
+  }
+
+  /**
+   * Create the lock file exclusively; a lock whose holder is no longer running
+   * is treated as stale and taken over
+   */
+  private async tryLock(lockFile: string, tool: string): Promise<LockResult> {
+    const holder: LockHolder = { pid: process.pid, tool, acquiredAt: new Date().toISOString() };
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        await fs.writeFile(lockFile, JSON.stringify(holder), { flag: 'wx' });
+        return { acquired: true, holder };
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const current = await this.readLockHolder(lockFile);
+      if (current && this.isProcessAlive(current.pid)) {
+        return { acquired: false, holder: current };
+      }
+      await fs.unlink(lockFile).catch(() => { /* ignore */ });
+    }
+
+    // Lost the race for a stale lock to another process
+    const current = await this.readLockHolder(lockFile);
+    return { acquired: false, holder: current || { pid: 0, tool: 'unknown', acquiredAt: holder.acquiredAt } };
+  }
+
+  private async unlock(lockFile: string, holder?: LockHolder): Promise<void> {
+    if (holder) {
+      const current = await this.readLockHolder(lockFile);
+      if (!current || current.pid !== holder.pid || current.acquiredAt !== holder.acquiredAt) {
+        return; // Taken over by someone else
+      }
+    }
+    await fs.unlink(lockFile).catch(() => { /* ignore */ });
+  }
+
+  /**
+   * Read a lock file; returns null for missing or unreadable locks
+   * (including the bare-PID locks written by earlier versions)
+   */
+  private async readLockHolder(lockFile: string): Promise<LockHolder | null> {
+    try {
+      const holder = JSON.parse(await fs.readFile(lockFile, 'utf-8'));
+      return typeof holder?.pid === 'number' ? holder as LockHolder : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private isProcessAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Dry run: record the state transition (or metadata update) without writing
+   */
+  private planUpdate(
+    sessionId: string,
+    stored: WorkflowSession | null,
+    updates: Partial<WorkflowSession>
+  ): WorkflowSession {
+    const branchName = updates.branchName || stored?.branchName || sessionId;
+    const from = stored?.currentState;
+    const to = updates.currentState || from;
+
+    if (from && to && from !== to) {
+      recordPlannedStep('session', `Transition ${branchName}: ${from} -> ${to}`, { sessionId, from, to });
+    } else {
+      recordPlannedStep('session', `Update session metadata for ${branchName}`, { sessionId });
+    }
+
+    return stored ? Object.assign(stored, updates) : updates as WorkflowSession;
+  }
+
   private async appendAudit(entry: AuditEntry): Promise<void> {
     const auditPath = path.join(path.dirname(this.sessionPath), 'audit');
     await fs.mkdir(auditPath, { recursive: true });
@@ -422,17 +569,6 @@ export class SessionRepository {
       throw new Error(`Session ${sessionId} not found`);
     }
 
-    // Add state transition to history
-    session.stateHistory.push({
-      from: session.currentState,
-      to: newState as StateName,
-      trigger: 'user_action' as TransitionTrigger,
-      timestamp: new Date().toISOString(),
-    });
-
-    session.currentState = newState as StateName;
-    session.updatedAt = new Date().toISOString();
-
-    await this.updateSession(session.id, session);
+    await this.transitionSession(session, newState as StateName);
   }
 }
\ No newline at end of file
@@ -0,0 +1,145 @@
+import { GitOperations } from './git-operations';
+import { SessionRepository } from './session-repository';
+import { GitHubIntegration } from './github-integration';
+import { RebaseService } from './rebase-service';
+import { WorkflowSession } from '../models/workflow-session';
+import { TransitionTrigger } from '../models/types';
+
+/**
+ * What happened to one stacked session when its parent merged
+ */
+export interface RestackResult {
+  branch: string;
+  base: string; // Branch the session now targets
+  status: 'rebased' | 'up-to-date' | 'conflicts' | 'skipped';
+  pushed: boolean; // Rebased branch pushed with --force-with-lease
+  prNumber?: number;
+  prRetargeted?: boolean;
+  error?: string;
+}
+
+/**
+ * StackService tracks sessions stacked on other sessions' branches
+ * A stacked session records its parent in metadata.parent and uses the
+ * parent's branch as its base branch; once the parent merges, its children
+ * move to the parent's base and drop the parent's commits with a rebase --onto
+ */
+export class StackService {
+  private rebaseService: RebaseService;
+
+  constructor(
+    private gitOps: GitOperations,
+    private sessionRepo: SessionRepository,
+    private githubIntegration: GitHubIntegration
+  ) {
+    this.rebaseService = new RebaseService(gitOps, sessionRepo);
+  }
+
+  /**
+   * The session's parent, while the parent is still active (unmerged)
+   */
+  async getParent(session: WorkflowSession): Promise<WorkflowSession | null> {
+    const parentId = session.metadata.parent?.sessionId;
+    if (!parentId) {
+      return null;
+    }
+    const parent = await this.sessionRepo.getSession(parentId);
+    return parent?.isActive() ? parent : null;
+  }
+
+  /**
+   * Active sessions stacked directly on the session
+   */
+  async getChildren(session: WorkflowSession): Promise<WorkflowSession[]> {
+    const sessions = await this.sessionRepo.listSessions();
+    return sessions.filter(other => other.isActive() && other.metadata.parent?.sessionId === session.id);
+  }
+
+  /**
+   * Move the children of a merged session onto its base branch
+   * Each child's PR is retargeted before the parent's branch is deleted
+   * (GitHub closes PRs whose base branch disappears), then the child is
+   * rebased onto the new base and, if it was pushed, force-pushed
+   * Returns to the branch that was checked out
+   */
+  async restackChildren(parent: WorkflowSession, trigger: TransitionTrigger): Promise<RestackResult[]> {
+    const children = await this.getChildren(parent);
+    if (children.length === 0) {
+      return [];
+    }
+
+    const returnTo = await this.gitOps.getCurrentBranch();
+    const upstream = await this.gitOps.getCommitHash(parent.branchName);
+    const results: RestackResult[] = [];
+    for (const child of children) {
+      results.push(await this.restackChild(child, parent, upstream, trigger));
+    }
+
+    try {
+      await this.gitOps.checkoutBranch(returnTo);
+    } catch (error) {
+      console.error(`Failed to return to ${returnTo} after restacking:`, error);
+    }
+    return results;
+  }
+
+  private async restackChild(
+    child: WorkflowSession,
+    parent: WorkflowSession,
+    upstream: string,
+    trigger: TransitionTrigger
+  ): Promise<RestackResult> {
+    // Take over the parent's place in the stack
+    if (parent.metadata.baseBranch) {
+      child.metadata.baseBranch = parent.metadata.baseBranch;
+    } else {
+      delete child.metadata.baseBranch;
+    }
+    if (parent.metadata.parent) {
+      child.metadata.parent = parent.metadata.parent;
+    } else {
+      delete child.metadata.parent;
+    }
+    child.metadata.restack = { from: parent.branchName, upstream };
+    await this.sessionRepo.updateSession(child.id, child);
+
+    const base = child.metadata.baseBranch || (await this.gitOps.getMainBranch());
+    const result: RestackResult = { branch: child.branchName, base, status: 'skipped', pushed: false };
+    try {
+      const prNumber = child.metadata.pr?.number;
+      if (prNumber) {
+        result.prNumber = prNumber;
+        result.prRetargeted = await this.githubIntegration.updatePullRequest(prNumber, { base });
+        child.metadata.pr = { ...child.metadata.pr, base };
+        await this.sessionRepo.updateSession(child.id, child);
+      }
+
+      if (!this.rebaseService.canRebase(child)) {
+        result.error = `Session is in state ${child.currentState}; devsolo_sync restacks it later`;
+        return result;
+      }
+
+      await this.gitOps.checkoutBranch(child.branchName);
+      const oldTip = await this.gitOps.getCommitHash(child.branchName);
+      const rebase = await this.rebaseService.restack(child, trigger);
+      result.status = rebase.status === 'merged' ? 'rebased' : rebase.status;
+      if (rebase.status !== 'rebased') {
+        return result;
+      }
+
+      if ((await this.gitOps.getBranchStatus(child.branchName)).hasRemote) {
+        await this.gitOps.push('origin', child.branchName, ['--force-with-lease']);
+        result.pushed = true;
+
+        // The child's own children still contain its old commits
+        for (const grandchild of await this.getChildren(child)) {
+          grandchild.metadata.restack = { from: child.branchName, upstream: oldTip };
+          await this.sessionRepo.updateSession(grandchild.id, grandchild);
+        }
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+    return result;
+  }
+}
@@ -1,6 +1,6 @@
 import { GitOperations } from './git-operations';
 
-export type StashReason = 'swap' | 'launch' | 'abort';
+export type StashReason = 'swap' | 'launch' | 'abort' | 'sync';
 
 export interface StashResult {
   stashRef: string;
@@ -14,15 +14,15 @@ export interface StashResult {
 export class StashManager {
   private gitOps: GitOperations;
 
-  constructor(_basePath?: string) {
-    // Don't pass basePath to GitOperations - it should use cwd (the git repo root)
+  constructor(_basePath?: string, gitOps?: GitOperations) {
+    // Don't pass basePath to GitOperations - it should use the git repo root
     // basePath is for devsolo data storage (.devsolo directory), not git operations
-    this.gitOps = new GitOperations();
+    this.gitOps = gitOps || new GitOperations();
   }
 
   /**
    * Stash uncommitted changes with a devsolo specific message
-   * @param reason - The workflow reason for stashing (swap, launch, abort)
+   * @param reason - The workflow reason for stashing (swap, launch, abort, sync)
    * @param branchName - Optional branch name to include in stash message
    * @returns StashResult with stashRef and message
    */
@@ -2,6 +2,7 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { GitOperations } from './git-operations';
 import { StateName, WorkflowType } from '../models/types';
+import { getStateMachine } from '../state-machines/workflow-engine';
 
 export interface ValidationResult {
   valid: boolean;
@@ -139,11 +140,8 @@ export class ValidationService {
       info: [],
     };
 
-    // Validate based on workflow type
-    const validTransitions = this.getValidTransitions(context.workflowType);
-    const allowedTransitions = validTransitions[from] || [];
-
-    if (!allowedTransitions.includes(to)) {
+    // Same transitions the workflow engine enforces
+    if (!getStateMachine(context.workflowType).canTransition(from, to)) {
       result.valid = false;
       result.errors.push(
         `Invalid state transition: ${from} -> ${to} for ${context.workflowType} workflow`
@@ -156,53 +154,6 @@ export class ValidationService {
     return result;
   }
 
-  private getValidTransitions(workflowType: WorkflowType): Partial<Record<StateName, StateName[]>> {
-    switch (workflowType) {
-    case 'launch':
-      return {
-        'INIT': ['BRANCH_READY'],
-        'BRANCH_READY': ['CHANGES_COMMITTED', 'ABORTED'],
-        'CHANGES_COMMITTED': ['PUSHED', 'ABORTED'],
-        'PUSHED': ['PR_CREATED', 'ABORTED'],
-        'PR_CREATED': ['WAITING_APPROVAL', 'ABORTED'],
-        'WAITING_APPROVAL': ['COMPLETE', 'ABORTED'],
-        'COMPLETE': [],
-        'ABORTED': [],
-      };
-
-    case 'ship':
-      return {
-        'INIT': ['CHANGES_COMMITTED', 'PUSHED'],
-        'CHANGES_COMMITTED': ['PUSHED', 'ABORTED'],
-        'PUSHED': ['PR_CREATED', 'WAITING_APPROVAL', 'ABORTED'],
-        'PR_CREATED': ['WAITING_APPROVAL', 'ABORTED'],
-        'WAITING_APPROVAL': ['REBASING', 'ABORTED'],
-        'REBASING': ['MERGING', 'ABORTED'],
-        'MERGING': ['CLEANUP', 'ABORTED'],
-        'CLEANUP': ['COMPLETE'],
-        'COMPLETE': [],
-        'ABORTED': [],
-      };
-
-    case 'hotfix':
-      return {
-        'HOTFIX_INIT': ['HOTFIX_READY'],
-        'HOTFIX_READY': ['HOTFIX_COMMITTED', 'ABORTED'],
-        'HOTFIX_COMMITTED': ['HOTFIX_PUSHED', 'ABORTED'],
-        'HOTFIX_PUSHED': ['HOTFIX_VALIDATED', 'ABORTED'],
-        'HOTFIX_VALIDATED': ['HOTFIX_DEPLOYED', 'ABORTED'],
-        'HOTFIX_DEPLOYED': ['HOTFIX_CLEANUP', 'ABORTED'],
-        'HOTFIX_CLEANUP': ['HOTFIX_COMPLETE'],
-        'HOTFIX_COMPLETE': [],
-        'COMPLETE': [],
-        'ABORTED': [],
-      };
-
-    default:
-      return {};
-    }
-  }
-
   private async validateStateRequirements(
     state: StateName,
     context: StateValidationContext,
@@ -445,10 +396,7 @@ export class ValidationService {
       }
 
       // Check if state is valid for workflow type
-      const validTransitions = this.getValidTransitions(session.workflowType);
-      const validStates = Object.keys(validTransitions);
-
-      if (!validStates.includes(session.currentState)) {
+      if (!getStateMachine(session.workflowType)?.hasState(session.currentState)) {
         return false;
       }
 
@@ -19,8 +19,8 @@ export class BranchValidator {
   private gitOps: GitOperations;
   private sessionRepo: SessionRepository;
 
-  constructor(basePath: string = '.devsolo') {
-    this.gitOps = new GitOperations();
+  constructor(basePath: string = '.devsolo', gitOps?: GitOperations) {
+    this.gitOps = gitOps || new GitOperations();
     this.sessionRepo = new SessionRepository(basePath);
   }
 
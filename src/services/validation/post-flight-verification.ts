@@ -69,7 +69,8 @@ export type PostFlightCheckType =
   | 'ciChecksStarted'
   | 'branchMerged'
   | 'featureBranchDeleted'
-  | 'sessionClosed';
+  | 'sessionClosed'
+  | 'linearHistory';
 
 /**
  * Service for running post-flight verifications after workflow operations
@@ -160,6 +161,8 @@ export class PostFlightVerification {
       return this.checkFeatureBranchDeleted(context);
     case 'sessionClosed':
       return this.checkSessionClosed(context);
+    case 'linearHistory':
+      return this.checkLinearHistory(context);
     default:
       return {
         name: checkType,
@@ -320,7 +323,7 @@ export class PostFlightVerification {
       };
     }
 
-    const validStates = ['BRANCH_READY', 'CHANGES_COMMITTED', 'PUSHED', 'PR_CREATED', 'READY_TO_MERGE', 'COMPLETE'];
+    const validStates = ['BRANCH_READY', 'CHANGES_COMMITTED', 'PUSHED', 'PR_DRAFT', 'PR_CREATED', 'READY_TO_MERGE', 'COMPLETE'];
 
     if (validStates.includes(session.currentState)) {
       return {
@@ -567,7 +570,7 @@ export class PostFlightVerification {
 
     try {
       const currentBranch = await this.gitOps.getCurrentBranch();
-      const mainBranch = 'main';
+      const mainBranch = session?.metadata.baseBranch || (await this.gitOps.getMainBranch());
 
       if (currentBranch === mainBranch) {
         return {
@@ -686,4 +689,59 @@ export class PostFlightVerification {
       };
     }
   }
+
+  /**
+   * Verify main's history stayed linear for the merge strategy used
+   * - squash: one commit with a single parent
+   * - rebase: each of the PR's commits has a single parent
+   * - merge: one merge commit, so main's first-parent history stays linear
+   */
+  private async checkLinearHistory(context: PostFlightContext): Promise<PostFlightCheckResult> {
+    const pr = context.session?.metadata?.pr;
+
+    if (!pr?.mergeStrategy || !pr.mergeCommitSha) {
+      return {
+        name: 'Linear History',
+        passed: false,
+        message: 'Merge commit not recorded, history not verified',
+        level: 'warning',
+      };
+    }
+
+    const { mergeStrategy, mergeCommitSha } = pr;
+    const count = mergeStrategy === 'rebase' ? pr.commitCount || 1 : 1;
+
+    try {
+      const commits = await this.gitOps.getCommitParents(mergeCommitSha, count);
+      const expectedParents = mergeStrategy === 'merge' ? 2 : 1;
+      const unexpected = commits.filter(commit => commit.parents.length !== expectedParents);
+
+      if (commits.length === count && unexpected.length === 0) {
+        return {
+          name: 'Linear History',
+          passed: true,
+          message: `History of main is linear (${mergeStrategy})`,
+          level: 'info',
+          details: { mergeStrategy, mergeCommitSha, commits: commits.length },
+        };
+      }
+
+      return {
+        name: 'Linear History',
+        passed: false,
+        message: mergeStrategy === 'merge'
+          ? `${mergeCommitSha.substring(0, 7)} is not a merge commit`
+          : `Merge commits on main after ${mergeStrategy}: ${unexpected.map(c => c.sha.substring(0, 7)).join(', ')}`,
+        level: 'error',
+        details: { mergeStrategy, mergeCommitSha, unexpected: unexpected.map(c => c.sha) },
+      };
+    } catch (error) {
+      return {
+        name: 'Linear History',
+        passed: false,
+        message: `Failed to verify history: ${error instanceof Error ? error.message : String(error)}`,
+        level: 'warning',
+      };
+    }
+  }
 }
@@ -61,6 +61,7 @@ export type PreFlightCheckType =
   | 'workingDirectoryClean'
   | 'mainUpToDate'
   | 'noExistingSession'
+  | 'parentSessionActive'
   | 'branchNameAvailable'
   | 'sessionExists'
   | 'onFeatureBranch'
@@ -68,6 +69,7 @@ export type PreFlightCheckType =
   | 'noUncommittedChanges'
   | 'hasCommitsToShip'
   | 'remoteBranchExists'
+  | 'branchPushed'
   | 'ciChecksPassed'
   | 'prExists'
   | 'prApproved'
@@ -144,6 +146,8 @@ export class PreFlightCheckService {
       return this.checkMainUpToDate(context);
     case 'noExistingSession':
       return this.checkNoExistingSession(context);
+    case 'parentSessionActive':
+      return this.checkParentSessionActive(context);
     case 'branchNameAvailable':
       return this.checkBranchNameAvailable(context);
     case 'sessionExists':
@@ -158,6 +162,8 @@ export class PreFlightCheckService {
       return this.checkHasCommitsToShip(context);
     case 'remoteBranchExists':
       return this.checkRemoteBranchExists(context);
+    case 'branchPushed':
+      return this.checkBranchPushed(context);
     case 'ciChecksPassed':
       return this.checkCIChecksPassed(context);
     case 'prExists':
@@ -176,13 +182,23 @@ export class PreFlightCheckService {
     }
   }
 
+  /**
+   * Branch work starts from and merges into: the launch's or session's base
+   * branch, else the trunk
+   */
+  private async getBaseBranch(context: PreFlightContext): Promise<string> {
+    return (context['baseBranch'] as string | undefined) ||
+      context.session?.metadata.baseBranch ||
+      this.gitOps.getMainBranch();
+  }
+
   /**
    * Check if on main branch
    */
-  private async checkOnMainBranch(_context: PreFlightContext): Promise<PreFlightCheckResult> {
+  private async checkOnMainBranch(context: PreFlightContext): Promise<PreFlightCheckResult> {
     try {
       const currentBranch = await this.gitOps.getCurrentBranch();
-      const mainBranch = 'main';
+      const mainBranch = await this.getBaseBranch(context);
 
       if (currentBranch === mainBranch) {
         return {
@@ -318,9 +334,9 @@ export class PreFlightCheckService {
   /**
    * Check if main branch is up to date with remote
    */
-  private async checkMainUpToDate(_context: PreFlightContext): Promise<PreFlightCheckResult> {
+  private async checkMainUpToDate(context: PreFlightContext): Promise<PreFlightCheckResult> {
     try {
-      const mainBranch = 'main';
+      const mainBranch = await this.getBaseBranch(context);
       const currentBranch = await this.gitOps.getCurrentBranch();
 
       // Only check if we're on main branch
@@ -444,6 +460,52 @@ export class PreFlightCheckService {
     }
   }
 
+  /**
+   * Check the branch a stacked launch builds on belongs to an active,
+   * unmerged feature session
+   */
+  private async checkParentSessionActive(context: PreFlightContext): Promise<PreFlightCheckResult> {
+    const parentBranch = context['parentBranch'] as string;
+    const parent = await this.sessionRepo.getSessionByBranch(parentBranch);
+
+    if (!parent || !parent.isActive()) {
+      return {
+        name: 'Parent Session Active',
+        passed: false,
+        message: `No active session on '${parentBranch}' to stack on`,
+        level: 'error',
+        suggestions: ['Use devsolo_sessions to list active sessions', 'Or launch with baseBranch to branch off it'],
+      };
+    }
+
+    if (parent.workflowType !== 'launch') {
+      return {
+        name: 'Parent Session Active',
+        passed: false,
+        message: `Cannot stack on '${parentBranch}': ${parent.workflowType} sessions cannot have stacked branches`,
+        level: 'error',
+      };
+    }
+
+    if (['MERGING', 'CLEANUP'].includes(parent.currentState)) {
+      return {
+        name: 'Parent Session Active',
+        passed: false,
+        message: `Cannot stack on '${parentBranch}': it is already merging`,
+        level: 'error',
+        suggestions: [`Launch from the base branch once '${parentBranch}' has merged`],
+      };
+    }
+
+    return {
+      name: 'Parent Session Active',
+      passed: true,
+      message: `Stacking on '${parentBranch}'`,
+      level: 'info',
+      details: { parentSessionId: parent.id },
+    };
+  }
+
   /**
    * Check if branch name is available
    */
@@ -532,10 +594,10 @@ export class PreFlightCheckService {
   /**
    * Check if on feature branch (not main)
    */
-  private async checkOnFeatureBranch(_context: PreFlightContext): Promise<PreFlightCheckResult> {
+  private async checkOnFeatureBranch(context: PreFlightContext): Promise<PreFlightCheckResult> {
     try {
       const currentBranch = await this.gitOps.getCurrentBranch();
-      const mainBranch = 'main';
+      const mainBranch = await this.getBaseBranch(context);
 
       if (currentBranch !== mainBranch) {
         return {
@@ -648,10 +710,10 @@ export class PreFlightCheckService {
   /**
    * Check if has commits to ship (for push operation)
    */
-  private async checkHasCommitsToShip(_context: PreFlightContext): Promise<PreFlightCheckResult> {
+  private async checkHasCommitsToShip(context: PreFlightContext): Promise<PreFlightCheckResult> {
     try {
       const currentBranch = await this.gitOps.getCurrentBranch();
-      const mainBranch = 'main';
+      const mainBranch = await this.getBaseBranch(context);
       const log = await this.gitOps.getLog(100);
 
       // Count commits not in main
@@ -727,6 +789,45 @@ export class PreFlightCheckService {
     }
   }
 
+  /**
+   * Check the branch is on the remote with no unpushed commits
+   */
+  private async checkBranchPushed(context: PreFlightContext): Promise<PreFlightCheckResult> {
+    const branchName = context.branchName || context.session?.branchName || (await this.gitOps.getCurrentBranch());
+
+    try {
+      const status = await this.gitOps.getBranchStatus(branchName);
+
+      if (status.hasRemote && status.ahead === 0) {
+        return {
+          name: 'Branch Pushed',
+          passed: true,
+          message: `Branch '${branchName}' is pushed`,
+          level: 'info',
+          details: { branchName },
+        };
+      }
+
+      return {
+        name: 'Branch Pushed',
+        passed: false,
+        message: status.hasRemote
+          ? `Branch '${branchName}' has ${status.ahead} unpushed commit(s)`
+          : `Branch '${branchName}' not found on remote`,
+        level: 'error',
+        suggestions: ['Ship with push to push the branch first'],
+        details: { branchName, ahead: status.ahead },
+      };
+    } catch (error) {
+      return {
+        name: 'Branch Pushed',
+        passed: false,
+        message: `Failed to check remote branch: ${error instanceof Error ? error.message : String(error)}`,
+        level: 'error',
+      };
+    }
+  }
+
   /**
    * Check if CI checks have passed (placeholder - requires GitHub integration)
    */
@@ -741,15 +842,28 @@ export class PreFlightCheckService {
   }
 
   /**
-   * Check if PR exists (placeholder - requires GitHub integration)
+   * Check the branch has an open PR to merge
+   * The caller looks the PR up on GitHub and passes it as openPR
    */
-  private async checkPRExists(_context: PreFlightContext): Promise<PreFlightCheckResult> {
-    // TODO: Implement with GitHub API integration
+  private async checkPRExists(context: PreFlightContext): Promise<PreFlightCheckResult> {
+    const pr = context['openPR'] as { number: number; url: string } | null | undefined;
+
+    if (pr) {
+      return {
+        name: 'PR Exists',
+        passed: true,
+        message: `PR #${pr.number} is open`,
+        level: 'info',
+        details: { prNumber: pr.number, prUrl: pr.url },
+      };
+    }
+
     return {
       name: 'PR Exists',
-      passed: true,
-      message: 'PR check not implemented',
-      level: 'info',
+      passed: false,
+      message: 'No open pull request for the branch',
+      level: 'error',
+      suggestions: ['Ship with createPR to open a pull request first'],
     };
   }
 
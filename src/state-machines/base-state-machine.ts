@@ -68,24 +68,25 @@ export abstract class StateMachine {
       return false;
     }
 
+    // Re-entering the current state (another commit, a ship checkpoint) is always allowed
+    if (fromState === toState) {
+      return true;
+    }
+
     return stateDefinition.allowedTransitions.includes(toState);
   }
 
-  public async transition(
+  /**
+   * Why a transition would be rejected, or null if it would not be
+   * Runs the validation hook but not the exit/enter hooks
+   */
+  public async validateTransition(
     fromState: StateName,
     toState: StateName,
     metadata?: Record<string, unknown>
-  ): Promise<TransitionResult> {
-    const timestamp = new Date().toISOString();
-
+  ): Promise<string | null> {
     if (!this.canTransition(fromState, toState)) {
-      return {
-        success: false,
-        fromState,
-        toState,
-        timestamp,
-        error: `Invalid transition from ${fromState} to ${toState}`,
-      };
+      return `Invalid transition from ${fromState} to ${toState}`;
     }
 
     // Run validation hook if present
@@ -95,16 +96,31 @@ export abstract class StateMachine {
         await validateHook({ fromState, toState, metadata });
         // If the hook throws, validation failed
       } catch (error) {
-        return {
-          success: false,
-          fromState,
-          toState,
-          timestamp,
-          error: error instanceof Error ? error.message : 'Validation error',
-        };
+        return error instanceof Error ? error.message : 'Validation error';
       }
     }
 
+    return null;
+  }
+
+  public async transition(
+    fromState: StateName,
+    toState: StateName,
+    metadata?: Record<string, unknown>
+  ): Promise<TransitionResult> {
+    const timestamp = new Date().toISOString();
+
+    const error = await this.validateTransition(fromState, toState, metadata);
+    if (error) {
+      return {
+        success: false,
+        fromState,
+        toState,
+        timestamp,
+        error,
+      };
+    }
+
     // Run exit hook for current state
     const exitHook = this.hooks.get(`${fromState}:onExit`);
     if (exitHook) {
@@ -159,6 +175,9 @@ export abstract class StateMachine {
       case 'PUSHED':
         actions.push('push');
         break;
+      case 'PR_DRAFT':
+        actions.push('create_draft_pr');
+        break;
       case 'PR_CREATED':
         actions.push('create_pr');
         break;
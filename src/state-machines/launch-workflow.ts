@@ -35,7 +35,7 @@ export class LaunchWorkflowStateMachine extends StateMachine {
     // Branch created and ready for work
     this.addState({
       name: 'BRANCH_READY',
-      allowedTransitions: ['CHANGES_COMMITTED', 'ABORTED'],
+      allowedTransitions: ['CHANGES_COMMITTED', 'PUSHED', 'REBASING', 'ABORTED'],
       requiresUserInput: true,
       isTerminal: false,
       isReversible: false,
@@ -48,7 +48,7 @@ export class LaunchWorkflowStateMachine extends StateMachine {
     // Changes have been committed
     this.addState({
       name: 'CHANGES_COMMITTED',
-      allowedTransitions: ['PUSHED', 'BRANCH_READY', 'ABORTED'],
+      allowedTransitions: ['PUSHED', 'BRANCH_READY', 'REBASING', 'ABORTED'],
       requiresUserInput: true,
       isTerminal: false,
       isReversible: true,
@@ -61,7 +61,7 @@ export class LaunchWorkflowStateMachine extends StateMachine {
     // Changes pushed to remote
     this.addState({
       name: 'PUSHED',
-      allowedTransitions: ['PR_CREATED', 'ABORTED'],
+      allowedTransitions: ['PR_DRAFT', 'PR_CREATED', 'CHANGES_COMMITTED', 'REBASING', 'ABORTED'],
       requiresUserInput: false,
       isTerminal: false,
       isReversible: false,
@@ -71,10 +71,20 @@ export class LaunchWorkflowStateMachine extends StateMachine {
       ],
     });
 
+    // Draft pull request opened for early feedback (re-shipping pushes again
+    // and either updates the draft or marks it ready for review)
+    this.addState({
+      name: 'PR_DRAFT',
+      allowedTransitions: ['PUSHED', 'PR_CREATED', 'CHANGES_COMMITTED', 'REBASING', 'ABORTED'],
+      requiresUserInput: false,
+      isTerminal: false,
+      isReversible: false,
+    });
+
     // Pull request created
     this.addState({
       name: 'PR_CREATED',
-      allowedTransitions: ['COMPLETE', 'ABORTED'],
+      allowedTransitions: ['WAITING_APPROVAL', 'CHANGES_COMMITTED', 'REBASING', 'COMPLETE', 'ABORTED'],
       requiresUserInput: false,
       isTerminal: false,
       isReversible: false,
@@ -84,6 +94,51 @@ export class LaunchWorkflowStateMachine extends StateMachine {
       ],
     });
 
+    // Waiting for CI checks and reviews
+    this.addState({
+      name: 'WAITING_APPROVAL',
+      allowedTransitions: ['MERGING', 'REBASING', 'CHANGES_COMMITTED', 'ABORTED'],
+      requiresUserInput: false,
+      isTerminal: false,
+      isReversible: false,
+    });
+
+    // Rebasing onto main (rebased commits go back to CHANGES_COMMITTED to be pushed)
+    this.addState({
+      name: 'REBASING',
+      allowedTransitions: ['CHANGES_COMMITTED', 'WAITING_APPROVAL', 'MERGING', 'CONFLICT_RESOLUTION', 'ABORTED'],
+      requiresUserInput: false,
+      isTerminal: false,
+      isReversible: false,
+    });
+
+    // Rebase stopped on conflicts
+    this.addState({
+      name: 'CONFLICT_RESOLUTION',
+      allowedTransitions: ['REBASING', 'ABORTED'],
+      requiresUserInput: true,
+      isTerminal: false,
+      isReversible: false,
+    });
+
+    // Checks passed, merging the pull request
+    this.addState({
+      name: 'MERGING',
+      allowedTransitions: ['CLEANUP', 'ABORTED'],
+      requiresUserInput: false,
+      isTerminal: false,
+      isReversible: false,
+    });
+
+    // Merged, syncing main and deleting branches
+    this.addState({
+      name: 'CLEANUP',
+      allowedTransitions: ['COMPLETE', 'ABORTED'],
+      requiresUserInput: false,
+      isTerminal: false,
+      isReversible: false,
+    });
+
     // Workflow completed successfully
     this.addState({
       name: 'COMPLETE',
@@ -147,7 +202,18 @@ export class LaunchWorkflowStateMachine extends StateMachine {
       return 'push';
     case 'PUSHED':
       return 'create_pr';
+    case 'PR_DRAFT':
+      return 'ready_for_review';
     case 'PR_CREATED':
+      return 'wait';
+    case 'WAITING_APPROVAL':
+    case 'MERGING':
+      return 'merge';
+    case 'REBASING':
+      return 'rebase';
+    case 'CONFLICT_RESOLUTION':
+      return 'resolve_conflicts';
+    case 'CLEANUP':
       return 'complete';
     case 'COMPLETE':
     case 'ABORTED':
@@ -167,8 +233,20 @@ export class LaunchWorkflowStateMachine extends StateMachine {
       return 'Changes committed locally';
     case 'PUSHED':
       return 'Changes pushed to remote';
+    case 'PR_DRAFT':
+      return 'Draft pull request open for early feedback';
     case 'PR_CREATED':
       return 'Pull request created and ready for review';
+    case 'WAITING_APPROVAL':
+      return 'Waiting for CI checks and reviews';
+    case 'REBASING':
+      return 'Rebasing onto main';
+    case 'CONFLICT_RESOLUTION':
+      return 'Rebase stopped on conflicts';
+    case 'MERGING':
+      return 'Merging pull request';
+    case 'CLEANUP':
+      return 'Merged, cleaning up branches';
     case 'COMPLETE':
       return 'Workflow completed successfully';
     case 'ABORTED':
@@ -0,0 +1,124 @@
+import { StateMachine, StateHook, TransitionResult } from './base-state-machine';
+import { LaunchWorkflowStateMachine } from './launch-workflow';
+import { HotfixWorkflowStateMachine } from './hotfix-workflow';
+import { StateName, TransitionTrigger, WorkflowType } from '../models/types';
+import { WorkflowSession } from '../models/workflow-session';
+
+/**
+ * State machine for each workflow type
+ * launch, ship and release sessions follow the standard workflow, each on its
+ * own instance so hooks registered for one type don't apply to the others
+ */
+function createStateMachines(): Record<WorkflowType, StateMachine> {
+  return {
+    launch: new LaunchWorkflowStateMachine(),
+    ship: new LaunchWorkflowStateMachine(),
+    release: new LaunchWorkflowStateMachine(),
+    hotfix: new HotfixWorkflowStateMachine(),
+  };
+}
+
+/**
+ * Hotfix states whose entry is checked by HotfixWorkflowStateMachine.validateStateAsync
+ */
+const VALIDATED_HOTFIX_STATES: StateName[] = [
+  'HOTFIX_READY', 'HOTFIX_COMMITTED', 'HOTFIX_VALIDATED', 'HOTFIX_DEPLOYED',
+];
+
+/**
+ * Shared state definitions, used by WorkflowSession to check transitions
+ * Hooks are registered on a WorkflowEngine, never on these
+ */
+const definitions = createStateMachines();
+
+export function getStateMachine(workflowType: WorkflowType): StateMachine {
+  return definitions[workflowType];
+}
+
+/**
+ * The workflow engine every session transition goes through
+ * Enforces the allowed transitions of the session's workflow and runs
+ * validation/enter/exit hooks before the session is changed
+ */
+export class WorkflowEngine {
+  private machines: Record<WorkflowType, StateMachine>;
+
+  constructor() {
+    this.machines = createStateMachines();
+    this.registerHotfixValidation();
+  }
+
+  /**
+   * Validate hotfix transitions against the facts passed as transition metadata
+   * Replacing one of these hooks with setHook drops its validation
+   */
+  private registerHotfixValidation(): void {
+    const hotfix = this.machines.hotfix as HotfixWorkflowStateMachine;
+    for (const state of VALIDATED_HOTFIX_STATES) {
+      hotfix.setHook(state, 'validate', async ({ metadata }) => {
+        const validation = await hotfix.validateStateAsync(state, metadata ?? {});
+        if (!validation.isValid) {
+          throw new Error(validation.errors.join('; '));
+        }
+      });
+    }
+  }
+
+  getStateMachine(workflowType: WorkflowType): StateMachine {
+    return this.machines[workflowType];
+  }
+
+  canTransition(session: WorkflowSession, toState: StateName): boolean {
+    return this.getStateMachine(session.workflowType).canTransition(session.currentState, toState);
+  }
+
+  /**
+   * Why transitioning a session would be rejected, or null if it would not be
+   * Lets a tool check a transition before doing the work it records
+   */
+  async validateTransition(
+    session: WorkflowSession,
+    toState: StateName,
+    metadata?: Record<string, unknown>
+  ): Promise<string | null> {
+    return this.getStateMachine(session.workflowType).validateTransition(session.currentState, toState, {
+      ...metadata,
+      sessionId: session.id,
+    });
+  }
+
+  /**
+   * Register a hook for a state of a workflow type
+   * A throwing 'validate' hook rejects the transition
+   */
+  setHook(
+    workflowType: WorkflowType,
+    state: StateName,
+    type: 'onEnter' | 'onExit' | 'validate',
+    hook: StateHook
+  ): void {
+    this.getStateMachine(workflowType).setHook(state, type, hook);
+  }
+
+  /**
+   * Transition a session, leaving it unchanged if the transition is rejected
+   */
+  async transition(
+    session: WorkflowSession,
+    toState: StateName,
+    trigger: TransitionTrigger = 'user_action',
+    metadata?: Record<string, unknown>
+  ): Promise<TransitionResult> {
+    const machine = this.getStateMachine(session.workflowType);
+    const result = await machine.transition(session.currentState, toState, {
+      ...metadata,
+      sessionId: session.id,
+      trigger,
+    });
+
+    if (result.success) {
+      session.transitionTo(toState, trigger, metadata);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { BackportTool } from '../../src/mcp/tools/backport-tool';
+import { ConfigurationManager } from '../../src/services/configuration-manager';
+import { SessionRepository } from '../../src/services/session-repository';
+import { GitOperations } from '../../src/services/git-operations';
+import { GitHubIntegration } from '../../src/services/github-integration';
+import { PreFlightCheckService } from '../../src/services/validation/pre-flight-check-service';
+import { WorkflowSession } from '../../src/models/workflow-session';
+import { passedChecks, withoutInitializationCheck } from './tool-test-helpers';
+
+const SHA = 'a1b2c3d4e5f6';
+const HUNK = { startLine: 4, ours: 'retries = 1', base: 'retries = 0', theirs: 'retries = 3' };
+
+const TestBackportTool = withoutInitializationCheck(BackportTool);
+
+describe('BackportTool', () => {
+  let tempDir: string;
+  let sessionRepo: SessionRepository;
+  let gitOps: GitOperations;
+  let github: Record<string, jest.Mock<(...args: any[]) => any>>;
+  let tool: BackportTool;
+  let session: WorkflowSession;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devsolo-backport-'));
+    sessionRepo = new SessionRepository(tempDir);
+    gitOps = new GitOperations();
+
+    jest.spyOn(gitOps, 'getMainBranch').mockResolvedValue('main');
+    jest.spyOn(gitOps, 'getCurrentBranch').mockResolvedValue('main');
+    jest.spyOn(gitOps, 'fetch').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'getCommitParents').mockResolvedValue([{ sha: SHA, parents: ['9f8e7d6'] }]);
+    jest.spyOn(gitOps, 'remoteBranchExists').mockImplementation(async branch => branch.startsWith('release/'));
+    jest.spyOn(gitOps, 'branchExists').mockResolvedValue(false);
+    jest.spyOn(gitOps, 'createBranch').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'checkoutBranch').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'deleteBranch').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'cherryPick').mockResolvedValue({ conflictedFiles: [] });
+    jest.spyOn(gitOps, 'abortCherryPick').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'getConflictHunks').mockResolvedValue([HUNK]);
+    jest.spyOn(gitOps, 'push').mockResolvedValue(undefined);
+    jest.spyOn(ConfigurationManager.prototype, 'load').mockResolvedValue({ preferences: {} } as any);
+    jest.spyOn(PreFlightCheckService.prototype, 'runAll').mockResolvedValue(passedChecks());
+
+    github = {
+      getPullRequest: jest.fn(async () => ({
+        number: 42, html_url: 'https://github.com/o/r/pull/42', merged: true, title: 'fix: retry uploads',
+        base: 'main', merge_commit_sha: SHA,
+      })),
+      createPullRequest: jest.fn(async (options: any) => ({
+        number: options.base === 'release/1.x' ? 51 : 52,
+        html_url: `https://github.com/o/r/pull/${options.base === 'release/1.x' ? 51 : 52}`,
+      })),
+      addLabels: jest.fn(async () => true),
+    };
+
+    tool = new TestBackportTool(
+      gitOps,
+      sessionRepo,
+      github as unknown as GitHubIntegration,
+      new ConfigurationManager(tempDir)
+    );
+
+    session = new WorkflowSession({ workflowType: 'launch', branchName: 'fix/retry-uploads' });
+    session.transitionTo('BRANCH_READY');
+    session.transitionTo('CHANGES_COMMITTED');
+    session.transitionTo('PUSHED');
+    session.transitionTo('PR_CREATED');
+    session.transitionTo('COMPLETE');
+    session.metadata.pr = {
+      number: 42, url: 'https://github.com/o/r/pull/42', title: 'fix: retry uploads', base: 'main',
+      merged: true, mergeStrategy: 'squash', mergeCommitSha: SHA,
+    };
+    await sessionRepo.createSession(session);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should open a labeled backport PR per target and record them on the session', async () => {
+    const result = await tool.execute({ sessionId: session.id, targets: ['release/1.x', 'release/2.x'], auto: true });
+
+    expect(result).toMatchObject({
+      success: true,
+      prNumber: 42,
+      commitSha: SHA,
+      backports: [
+        { target: 'release/1.x', branch: 'backport/42-to-release/1.x', status: 'opened', prNumber: 51 },
+        { target: 'release/2.x', branch: 'backport/42-to-release/2.x', status: 'opened', prNumber: 52 },
+      ],
+    });
+    expect(gitOps.createBranch).toHaveBeenCalledWith('backport/42-to-release/1.x', 'release/1.x');
+    expect(gitOps.cherryPick).toHaveBeenCalledWith(SHA, undefined);
+    expect(github['createPullRequest']).toHaveBeenCalledWith({
+      title: '[release/1.x] fix: retry uploads',
+      body: `Backport of #42 to \`release/1.x\`.\n\nCherry-picked from ${SHA}.`,
+      base: 'release/1.x',
+      head: 'backport/42-to-release/1.x',
+    });
+    expect(github['addLabels']).toHaveBeenCalledWith(51, ['backport']);
+    expect(gitOps.checkoutBranch).toHaveBeenLastCalledWith('main');
+
+    const recorded = (await sessionRepo.getSession(session.id))!.metadata.backports;
+    expect(recorded).toEqual([
+      expect.objectContaining({ target: 'release/1.x', status: 'opened', prNumber: 51 }),
+      expect.objectContaining({ target: 'release/2.x', status: 'opened', prNumber: 52 }),
+    ]);
+  });
+
+  it('should abort a conflicting cherry-pick and still backport the other targets', async () => {
+    jest.mocked(gitOps.cherryPick).mockImplementation(async () =>
+      jest.mocked(gitOps.createBranch).mock.calls.length === 1
+        ? { conflictedFiles: ['src/upload.ts'] }
+        : { conflictedFiles: [] }
+    );
+
+    const result = await tool.execute({ prNumber: 42, targets: ['release/1.x', 'release/2.x'], auto: true });
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toContain('Cherry-picking onto release/1.x conflicts in src/upload.ts');
+    expect(result.backports).toEqual([
+      {
+        target: 'release/1.x',
+        branch: 'backport/42-to-release/1.x',
+        status: 'conflicts',
+        conflicts: [{ path: 'src/upload.ts', hunks: [HUNK] }],
+      },
+      expect.objectContaining({ target: 'release/2.x', status: 'opened', prNumber: 52 }),
+    ]);
+    expect(gitOps.abortCherryPick).toHaveBeenCalledTimes(1);
+    expect(gitOps.deleteBranch).toHaveBeenCalledWith('backport/42-to-release/1.x', true);
+    expect(github['createPullRequest']).toHaveBeenCalledTimes(1);
+    expect((await sessionRepo.getSession(session.id))!.metadata.backports).toEqual([
+      expect.objectContaining({ target: 'release/1.x', status: 'conflicts' }),
+      expect.objectContaining({ target: 'release/2.x', status: 'opened', prNumber: 52 }),
+    ]);
+  });
+
+  it('should backport a PR devsolo no longer has a session for from GitHub', async () => {
+    await sessionRepo.deleteSession(session.id);
+    jest.mocked(gitOps.getCommitParents).mockResolvedValue([{ sha: SHA, parents: ['9f8e7d6', '1a2b3c4'] }]);
+
+    const result = await tool.execute({ prNumber: 42, targets: ['release/1.x', 'main'], auto: true });
+
+    expect(github['getPullRequest']).toHaveBeenCalledWith(42);
+    expect(gitOps.cherryPick).toHaveBeenCalledWith(SHA, 1);
+    expect(result.backports).toEqual([
+      expect.objectContaining({ target: 'release/1.x', status: 'opened' }),
+      { target: 'main', branch: 'backport/42-to-main', status: 'failed', error: 'PR #42 was merged into main' },
+    ]);
+    expect(result.warnings).toContain('PR #42 has no devsolo session left; the backports were not recorded');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  McpHttpServer,
+  resolveTransportOptions,
+  DEFAULT_HTTP_HOST,
+  DEFAULT_HTTP_PORT,
+} from '../../src/mcp/http-transport';
+
+describe('resolveTransportOptions', () => {
+  it('should default to stdio on the loopback address', () => {
+    expect(resolveTransportOptions([], {})).toEqual({
+      transport: 'stdio',
+      host: DEFAULT_HTTP_HOST,
+      port: DEFAULT_HTTP_PORT,
+    });
+  });
+
+  it('should prefer flags over environment', () => {
+    const options = resolveTransportOptions(
+      ['--http', '--port', '4000'],
+      { DEVSOLO_MCP_HOST: '0.0.0.0', DEVSOLO_MCP_PORT: '5000' }
+    );
+
+    expect(options).toEqual({ transport: 'http', host: '0.0.0.0', port: 4000 });
+  });
+
+  it('should reject invalid ports', () => {
+    expect(() => resolveTransportOptions(['--port', 'abc'], {})).toThrow('Invalid port: abc');
+  });
+});
+
+describe('McpHttpServer', () => {
+  let httpServer: McpHttpServer | null = null;
+  const clients: Client[] = [];
+
+  afterEach(async () => {
+    for (const client of clients.splice(0)) {
+      await client.close();
+    }
+    await httpServer?.close();
+    httpServer = null;
+  });
+
+  it('should serve each client from its own server instance', async () => {
+    const created: Server[] = [];
+    const released: Server[] = [];
+    httpServer = new McpHttpServer(
+      () => {
+        const server = new Server({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+        server.setRequestHandler(ListToolsRequestSchema, async () => ({
+          tools: [{ name: 'shared_tool', inputSchema: { type: 'object' } }],
+        }));
+        created.push(server);
+        return server;
+      },
+      (server) => released.push(server),
+      { host: '127.0.0.1', port: 0 }
+    );
+    const { port } = await httpServer.start();
+
+    for (let i = 0; i < 2; i++) {
+      const client = new Client({ name: `client-${i}`, version: '0.0.0' });
+      await client.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`)));
+      clients.push(client);
+
+      const { tools } = await client.listTools();
+      expect(tools.map(t => t.name)).toEqual(['shared_tool']);
+    }
+
+    expect(created).toHaveLength(2);
+    expect(httpServer.getSessionCount()).toBe(2);
+
+    await httpServer.close();
+    expect(released).toHaveLength(2);
+  });
+
+  it('should reject requests without a session', async () => {
+    httpServer = new McpHttpServer(
+      () => new Server({ name: 'test', version: '0.0.0' }, { capabilities: {} }),
+      () => undefined,
+      { host: '127.0.0.1', port: 0 }
+    );
+    const { port } = await httpServer.start();
+
+    const response = await fetch(`http://127.0.0.1:${port}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { JobManager } from '../../src/mcp/job-manager';
+import { ToolRegistry } from '../../src/mcp/tool-registry';
+import {
+  BaseMCPTool,
+  WorkflowToolInput,
+  WorkflowContext,
+  WorkflowExecutionResult,
+} from '../../src/mcp/tools/workflow-tool-base';
+import { BaseToolResult, BaseToolResultSchema } from '../../src/mcp/tools/base-tool';
+import { ConfigurationManager } from '../../src/services/configuration-manager';
+import { SessionRepository } from '../../src/services/session-repository';
+import { GitOperations } from '../../src/services/git-operations';
+import { WorkflowSession } from '../../src/models/workflow-session';
+import { BackgroundJob } from '../../src/models/types';
+
+class SlowTool extends BaseMCPTool<WorkflowToolInput & { steps: number }, BaseToolResult> {
+  readonly name = 'test_slow';
+  readonly description = 'Reports progress until cancelled or done';
+  readonly inputSchema = z.object({ steps: z.number() });
+  readonly outputSchema = BaseToolResultSchema;
+  readonly supportsBackground = true;
+
+  private released = false;
+  private resolveGate: () => void = () => undefined;
+
+  release(): void {
+    this.released = true;
+    this.resolveGate();
+  }
+
+  protected getSlashCommand(): string | null {
+    return null;
+  }
+
+  protected async checkInitialization(): Promise<BaseToolResult> {
+    return { success: true };
+  }
+
+  protected async executeWorkflow(context: WorkflowContext): Promise<WorkflowExecutionResult> {
+    for (let i = 1; i <= (context.input['steps'] as number); i++) {
+      this.reportProgress(context, `step ${i}`);
+    }
+    await new Promise<void>(resolve => {
+      this.resolveGate = resolve;
+      if (this.released || context.signal?.aborted) {
+        resolve();
+      }
+      context.signal?.addEventListener('abort', () => resolve());
+    });
+    this.throwIfCancelled(context);
+    return { success: true, data: { done: true } };
+  }
+}
+
+describe('JobManager', () => {
+  let basePath: string;
+  let sessionRepo: SessionRepository;
+  let gitOps: GitOperations;
+  let tool: SlowTool;
+  let jobs: JobManager;
+
+  beforeEach(async () => {
+    basePath = await fs.mkdtemp(path.join(os.tmpdir(), 'devsolo-jobs-'));
+    sessionRepo = new SessionRepository(basePath);
+    gitOps = new GitOperations();
+    jest.spyOn(gitOps, 'getCurrentBranch').mockResolvedValue('feature/jobs');
+
+    const registry = new ToolRegistry();
+    tool = new SlowTool(new ConfigurationManager(basePath));
+    registry.register(tool);
+    jobs = new JobManager(registry, sessionRepo, gitOps, basePath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(basePath, { recursive: true, force: true });
+  });
+
+  it('should run a tool in the background and persist progress and result', async () => {
+    const job = await jobs.start('test_slow', { steps: 2 });
+    expect(job.status).toBe('running');
+
+    tool.release();
+    await jobs.wait(job.id);
+
+    const stored = await jobs.get(job.id);
+    expect(stored?.status).toBe('completed');
+    expect(stored?.progress.map(p => p.message)).toEqual(['step 1', 'step 2']);
+    expect(stored?.result).toMatchObject({ success: true, done: true });
+    expect((await jobs.list()).map(j => j.id)).toEqual([job.id]);
+  });
+
+  it('should cancel a running job', async () => {
+    const job = await jobs.start('test_slow', { steps: 0 });
+
+    await jobs.cancel(job.id);
+    await jobs.wait(job.id);
+
+    const stored = await jobs.get(job.id);
+    expect(stored?.status).toBe('cancelled');
+    expect(stored?.progress.map(p => p.message)).toContain('Cancellation requested');
+  });
+
+  it('should reject invalid arguments before starting', async () => {
+    await expect(jobs.start('test_slow', {})).rejects.toThrow();
+    await expect(jobs.start('missing', {})).rejects.toThrow('Unknown tool: missing');
+    expect(await jobs.list()).toEqual([]);
+  });
+
+  it('should resume interrupted jobs only when their session is still active', async () => {
+    await sessionRepo.createSession(new WorkflowSession({ workflowType: 'launch', branchName: 'feature/jobs' }));
+
+    const interrupted = (id: string, branchName: string): BackgroundJob => ({
+      id,
+      tool: 'test_slow',
+      args: { steps: 0 },
+      status: 'running',
+      branchName,
+      pid: 999999999, // No such process
+      progress: [],
+      resumeCount: 0,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+    await fs.mkdir(path.join(basePath, 'jobs'), { recursive: true });
+    for (const job of [interrupted('job-a', 'feature/jobs'), interrupted('job-b', 'feature/gone')]) {
+      await fs.writeFile(path.join(basePath, 'jobs', `${job.id}.json`), JSON.stringify(job));
+    }
+
+    const resumed = await jobs.resumeInterrupted();
+
+    expect(resumed.map(j => j.id)).toEqual(['job-a']);
+    expect((await jobs.get('job-a'))?.resumeCount).toBe(1);
+    expect((await jobs.get('job-b'))?.status).toBe('failed');
+
+    tool.release();
+    await jobs.wait('job-a');
+    expect((await jobs.get('job-a'))?.status).toBe('completed');
+  });
+});
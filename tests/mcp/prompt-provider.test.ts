@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PromptProvider } from '../../src/mcp/prompt-provider';
+import { GitOperations } from '../../src/services/git-operations';
+import { SessionRepository } from '../../src/services/session-repository';
+import { ConfigurationManager } from '../../src/services/configuration-manager';
+import { Configuration } from '../../src/models/configuration';
+
+describe('PromptProvider', () => {
+  let basePath: string;
+  let gitOps: GitOperations;
+  let configManager: ConfigurationManager;
+  let provider: PromptProvider;
+
+  beforeEach(async () => {
+    basePath = await fs.mkdtemp(path.join(os.tmpdir(), 'devsolo-prompts-'));
+    gitOps = new GitOperations();
+    configManager = new ConfigurationManager(basePath);
+    provider = new PromptProvider(gitOps, new SessionRepository(basePath), configManager);
+
+    jest.spyOn(gitOps, 'getCurrentBranch').mockResolvedValue('feature/prompts');
+    jest.spyOn(gitOps, 'hasUncommittedChanges').mockResolvedValue(false);
+    jest.spyOn(gitOps, 'getCommitMessagesSince').mockResolvedValue(['feat: add prompts']);
+    jest.spyOn(gitOps, 'execute').mockResolvedValue(' src/a.ts | 2 +-\n');
+    jest.spyOn(gitOps, 'getDiff').mockResolvedValue('+added line');
+    jest.spyOn(gitOps, 'getStatus').mockResolvedValue({
+      staged: [], modified: ['src/a.ts'], created: [], deleted: [],
+    } as any);
+  });
+
+  afterEach(async () => {
+    await fs.rm(basePath, { recursive: true, force: true });
+  });
+
+  function textOf(result: Awaited<ReturnType<PromptProvider['getPrompt']>>): string {
+    const content = result.messages[0]?.content;
+    return content?.type === 'text' ? content.text : '';
+  }
+
+  it('should list the guided workflows', () => {
+    expect(provider.listPrompts().map(p => p.name)).toEqual(['launch', 'commit', 'ship', 'hotfix', 'abort']);
+  });
+
+  it('should build the ship prompt from the configured PR template and commits', async () => {
+    await configManager.save(new Configuration({
+      preferences: {
+        autoMode: false,
+        prTemplate: { body: '## Why\n{{description}}' },
+      } as any,
+    }));
+
+    const text = textOf(await provider.getPrompt('ship'));
+
+    expect(text).toContain('Current branch: feature/prompts');
+    expect(text).toContain('## Why\n{{description}}');
+    expect(text).toContain('- feat: add prompts');
+    expect(text).toContain('`devsolo_ship`');
+    expect(text).toContain('"auto": false');
+  });
+
+  it('should include the diff and commit template in the commit prompt', async () => {
+    const text = textOf(await provider.getPrompt('commit'));
+
+    expect(text).toContain('- src/a.ts');
+    expect(text).toContain('+added line');
+    expect(text).toContain('{{description}}');
+    expect(text).toContain('`devsolo_commit`');
+  });
+
+  it('should reject unknown prompts and missing required arguments', async () => {
+    await expect(provider.getPrompt('deploy')).rejects.toThrow('Unknown prompt: deploy');
+    await expect(provider.getPrompt('hotfix')).rejects.toThrow('Missing required argument: issue');
+  });
+});
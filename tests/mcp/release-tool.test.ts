@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ReleaseTool } from '../../src/mcp/tools/release-tool';
+import { ConfigurationManager } from '../../src/services/configuration-manager';
+import { SessionRepository } from '../../src/services/session-repository';
+import { GitOperations } from '../../src/services/git-operations';
+import { GitHubIntegration } from '../../src/services/github-integration';
+import { PreFlightCheckService } from '../../src/services/validation/pre-flight-check-service';
+import { PostFlightVerification } from '../../src/services/validation/post-flight-verification';
+import { passedChecks, withoutInitializationCheck } from './tool-test-helpers';
+
+const PACKAGE_JSON = '{\n  "name": "app",\n  "version": "1.3.0"\n}\n';
+
+const TestReleaseTool = withoutInitializationCheck(ReleaseTool);
+
+describe('ReleaseTool', () => {
+  let tempDir: string;
+  let sessionRepo: SessionRepository;
+  let gitOps: GitOperations;
+  let tool: ReleaseTool;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devsolo-release-'));
+    sessionRepo = new SessionRepository(tempDir);
+    gitOps = new GitOperations(tempDir);
+    await fs.writeFile(path.join(tempDir, 'package.json'), PACKAGE_JSON);
+
+    jest.spyOn(gitOps, 'getMainBranch').mockResolvedValue('main');
+    jest.spyOn(gitOps, 'getTags').mockResolvedValue(['v1.3.0']);
+    jest.spyOn(gitOps, 'getCommitMessagesAfter').mockResolvedValue([
+      { hash: 'a1b2c3d', message: 'fix: handle empty tags' },
+    ]);
+    jest.spyOn(gitOps, 'createBranch').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'checkoutBranch').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'add').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'commit').mockResolvedValue({ commit: 'e4f5a6b' });
+    jest.spyOn(ConfigurationManager.prototype, 'load').mockResolvedValue({ preferences: {} } as any);
+    jest.spyOn(PreFlightCheckService.prototype, 'runAll').mockResolvedValue(passedChecks());
+    jest.spyOn(PostFlightVerification.prototype, 'runAll').mockResolvedValue(passedChecks());
+
+    tool = new TestReleaseTool(gitOps, sessionRepo, {} as GitHubIntegration, new ConfigurationManager(tempDir));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should commit the next version and changelog on a release branch', async () => {
+    const result = await tool.execute({ auto: true });
+
+    expect(result).toMatchObject({
+      success: true,
+      branchName: 'release/v1.3.1',
+      state: 'CHANGES_COMMITTED',
+      version: '1.3.1',
+      tag: 'v1.3.1',
+      previousTag: 'v1.3.0',
+      bump: 'patch',
+      notes: '### Fixed\n- handle empty tags',
+      files: ['package.json', 'CHANGELOG.md'],
+    });
+    expect(gitOps.createBranch).toHaveBeenCalledWith('release/v1.3.1', 'main');
+    expect(gitOps.add).toHaveBeenCalledWith(['package.json', 'CHANGELOG.md']);
+    expect(gitOps.commit).toHaveBeenCalledWith('chore(release): v1.3.1');
+    expect(await fs.readFile(path.join(tempDir, 'CHANGELOG.md'), 'utf-8')).toMatch(
+      /^# Changelog\n\n## \[1\.3\.1\] - \d{4}-\d{2}-\d{2}\n\n### Fixed\n- handle empty tags\n$/
+    );
+
+    const session = (await sessionRepo.getSessionByBranch('release/v1.3.1'))!;
+    expect(session.workflowType).toBe('release');
+    expect(session.metadata.release).toEqual({
+      version: '1.3.1',
+      tag: 'v1.3.1',
+      previousTag: 'v1.3.0',
+      bump: 'patch',
+      notes: '### Fixed\n- handle empty tags',
+    });
+  });
+
+  it('should plan the file changes without writing them on a dry run', async () => {
+    const result = await tool.execute({ version: '2.0.0-rc.1', auto: true, dryRun: true });
+
+    expect(result.success).toBe(true);
+    expect(result.plan).toEqual(expect.arrayContaining([
+      { kind: 'file', description: 'Set version 2.0.0-rc.1 in package.json' },
+      { kind: 'file', description: 'Add 2.0.0-rc.1 to the changelog in CHANGELOG.md' },
+    ]));
+    expect(await fs.readFile(path.join(tempDir, 'package.json'), 'utf-8')).toBe(PACKAGE_JSON);
+    expect(await sessionRepo.getSessionByBranch('release/v2.0.0-rc.1')).toBeNull();
+  });
+});
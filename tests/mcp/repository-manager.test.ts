@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Repository, RepositoryManager } from '../../src/mcp/repository-manager';
+import { GitOperations } from '../../src/services/git-operations';
+
+function fakeRepository(root: string): Repository {
+  return { root } as Repository;
+}
+
+function fakeServer(roots?: string[]): Server {
+  return {
+    getClientCapabilities: () => (roots ? { roots: { listChanged: true } } : {}),
+    listRoots: jest.fn(async () => ({
+      roots: (roots || []).map(root => ({ uri: pathToFileURL(root).href })),
+    })),
+  } as unknown as Server;
+}
+
+describe('RepositoryManager', () => {
+  let workspace: string;
+  let primaryRoot: string;
+  let serviceRoot: string;
+  let sdkRoot: string;
+  let create: jest.Mock<(root: string) => Repository>;
+  let manager: RepositoryManager;
+
+  beforeEach(async () => {
+    workspace = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'devsolo-repos-')));
+    primaryRoot = path.join(workspace, 'primary');
+    serviceRoot = path.join(workspace, 'service');
+    sdkRoot = path.join(workspace, 'sdk');
+    for (const dir of [primaryRoot, serviceRoot, path.join(sdkRoot, 'src')]) {
+      await fs.mkdir(dir, { recursive: true });
+    }
+
+    // Every directory is the top level of its repository, except sdk/src
+    jest.spyOn(GitOperations.prototype, 'getRepositoryRoot').mockImplementation(async function (this: GitOperations) {
+      const dir = this.getWorkingDirectory();
+      return dir.endsWith(`${path.sep}src`) ? path.dirname(dir) : dir;
+    });
+
+    create = jest.fn((root: string) => fakeRepository(root));
+    manager = new RepositoryManager(fakeRepository(primaryRoot), create);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  it('should use the primary repository when there is no repoPath and no roots', async () => {
+    const repository = await manager.resolve(fakeServer(), undefined);
+
+    expect(repository.root).toBe(primaryRoot);
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('should create each other repository once, keyed by its top-level directory', async () => {
+    const service = await manager.resolve(fakeServer(), serviceRoot);
+    const sdk = await manager.resolve(fakeServer(), path.join(sdkRoot, 'src'));
+    const sdkAgain = await manager.resolve(fakeServer(), sdkRoot);
+
+    expect(service.root).toBe(serviceRoot);
+    expect(sdk.root).toBe(sdkRoot);
+    expect(sdkAgain).toBe(sdk);
+    expect(create).toHaveBeenCalledTimes(2);
+  });
+
+  it('should default to the first client root and resolve relative paths against it', async () => {
+    const server = fakeServer([serviceRoot, sdkRoot]);
+
+    expect((await manager.resolve(server, undefined)).root).toBe(serviceRoot);
+    expect((await manager.resolve(server, '../sdk')).root).toBe(sdkRoot);
+    expect(server.listRoots).toHaveBeenCalledTimes(1);
+
+    manager.forgetRoots(server);
+    await manager.resolve(server, undefined);
+    expect(server.listRoots).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject paths outside the client roots or that do not exist', async () => {
+    await expect(manager.resolve(fakeServer([serviceRoot]), primaryRoot))
+      .rejects.toThrow(`repoPath ${primaryRoot} is outside the client's roots`);
+    await expect(manager.resolve(fakeServer(), path.join(workspace, 'missing')))
+      .rejects.toThrow('Repository path does not exist');
+  });
+
+  it('should report directories that are not git repositories', async () => {
+    jest.spyOn(GitOperations.prototype, 'getRepositoryRoot').mockRejectedValue(new Error('not a git repository'));
+
+    await expect(manager.resolve(fakeServer(), serviceRoot)).rejects.toThrow(`Not a git repository: ${serviceRoot}`);
+  });
+
+  it('should fall back to the primary repository when the first root is not a git repository', async () => {
+    jest.spyOn(GitOperations.prototype, 'getRepositoryRoot').mockRejectedValue(new Error('not a git repository'));
+
+    const repository = await manager.resolve(fakeServer([workspace]), undefined);
+
+    expect(repository.root).toBe(primaryRoot);
+    expect(create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ResourceProvider } from '../../src/mcp/resource-provider';
+import { SessionRepository } from '../../src/services/session-repository';
+import { ConfigurationManager } from '../../src/services/configuration-manager';
+import { Configuration } from '../../src/models/configuration';
+import { WorkflowSession } from '../../src/models/workflow-session';
+
+describe('ResourceProvider', () => {
+  let basePath: string;
+  let sessionRepo: SessionRepository;
+  let configManager: ConfigurationManager;
+  let server: Server;
+  let provider: ResourceProvider;
+
+  beforeEach(async () => {
+    basePath = await fs.mkdtemp(path.join(os.tmpdir(), 'devsolo-resources-'));
+    sessionRepo = new SessionRepository(basePath);
+    configManager = new ConfigurationManager(basePath);
+    server = new Server({ name: 'test', version: '0.0.0' }, { capabilities: { resources: { subscribe: true } } });
+    provider = new ResourceProvider(sessionRepo, configManager, basePath);
+  });
+
+  afterEach(async () => {
+    provider.close();
+    await fs.rm(basePath, { recursive: true, force: true });
+  });
+
+  it('should list config, session and audit resources', async () => {
+    await sessionRepo.createSession(new WorkflowSession({ workflowType: 'launch', branchName: 'feature/a' }));
+
+    const uris = (await provider.listResources()).map(r => r.uri);
+
+    expect(uris).toContain('devsolo://config');
+    expect(uris).toContain('devsolo://sessions/feature%2Fa');
+    expect(uris.some(u => /^devsolo:\/\/audit\/\d{4}-\d{2}\/\d{2}$/.test(u))).toBe(true);
+  });
+
+  it('should read sessions by raw or encoded branch name', async () => {
+    const session = new WorkflowSession({ workflowType: 'launch', branchName: 'feature/b' });
+    await sessionRepo.createSession(session);
+
+    for (const uri of ['devsolo://sessions/feature/b', 'devsolo://sessions/feature%2Fb']) {
+      const result = await provider.readResource(uri);
+      const json = JSON.parse(result.contents[0]?.text as string);
+      expect(json.id).toBe(session.id);
+    }
+  });
+
+  it('should redact platform tokens from the config resource', async () => {
+    await configManager.save(new Configuration({
+      gitPlatform: { type: 'github', token: 'ghp_secret' },
+    }));
+
+    const result = await provider.readResource('devsolo://config');
+
+    expect(result.contents[0]?.text).not.toContain('ghp_secret');
+    expect(result.contents[0]?.text).toContain('[redacted]');
+  });
+
+  it('should reject unknown resources', async () => {
+    await expect(provider.readResource('devsolo://sessions/missing')).rejects.toThrow('No session found');
+    await expect(provider.readResource('devsolo://audit/bad')).rejects.toThrow('Invalid audit URI');
+    await expect(provider.readResource('devsolo://other')).rejects.toThrow('Unknown resource');
+  });
+
+  it('should notify subscribers when a session file changes', async () => {
+    const session = new WorkflowSession({ workflowType: 'launch', branchName: 'feature/c' });
+    await sessionRepo.createSession(session);
+
+    const updated = jest.spyOn(server, 'sendResourceUpdated').mockResolvedValue(undefined);
+    jest.spyOn(server, 'sendResourceListChanged').mockResolvedValue(undefined);
+    await provider.subscribe('devsolo://sessions/feature/c', server);
+
+    session.transitionTo('BRANCH_READY');
+    await sessionRepo.updateSession(session.id, session);
+
+    await new Promise(resolve => setTimeout(resolve, 500));
+    expect(updated).toHaveBeenCalledWith({ uri: 'devsolo://sessions/feature%2Fc' });
+  });
+});
@@ -0,0 +1,576 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ShipTool } from '../../src/mcp/tools/ship-tool';
+import { ConfigurationManager } from '../../src/services/configuration-manager';
+import { SessionRepository } from '../../src/services/session-repository';
+import { GitOperations } from '../../src/services/git-operations';
+import { GitHubIntegration } from '../../src/services/github-integration';
+import { renderPRBody } from '../../src/services/pr-content';
+import { BranchValidator } from '../../src/services/validation/branch-validator';
+import { PreFlightCheckService } from '../../src/services/validation/pre-flight-check-service';
+import { PostFlightVerification } from '../../src/services/validation/post-flight-verification';
+import { WorkflowSession } from '../../src/models/workflow-session';
+import { passedChecks, withoutInitializationCheck } from './tool-test-helpers';
+
+const BRANCH = 'feature/checkpoints';
+
+const TestShipTool = withoutInitializationCheck(ShipTool);
+
+describe('ShipTool checkpoints', () => {
+  let tempDir: string;
+  let sessionRepo: SessionRepository;
+  let gitOps: GitOperations;
+  let github: Record<string, jest.Mock<(...args: any[]) => any>>;
+  let preFlight: jest.SpiedFunction<PreFlightCheckService['runAll']>;
+  let tool: ShipTool;
+
+  async function createSession(): Promise<WorkflowSession> {
+    const session = new WorkflowSession({ workflowType: 'launch', branchName: BRANCH });
+    session.transitionTo('BRANCH_READY');
+    session.transitionTo('CHANGES_COMMITTED');
+    await sessionRepo.createSession(session);
+    return session;
+  }
+
+  function ship(): Promise<any> {
+    return tool.execute({ auto: true, prDescription: 'Adds checkpoints' });
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devsolo-ship-'));
+    sessionRepo = new SessionRepository(tempDir);
+    gitOps = new GitOperations();
+
+    jest.spyOn(gitOps, 'getMainBranch').mockResolvedValue('main');
+    jest.spyOn(gitOps, 'getCurrentBranch').mockResolvedValue(BRANCH);
+    jest.spyOn(gitOps, 'push').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'checkoutBranch').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'pull').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'deleteBranch').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'deleteRemoteBranch').mockResolvedValue(undefined);
+    jest.spyOn(ConfigurationManager.prototype, 'load').mockResolvedValue({ preferences: {} } as any);
+    preFlight = jest.spyOn(PreFlightCheckService.prototype, 'runAll').mockResolvedValue(passedChecks());
+    jest.spyOn(PostFlightVerification.prototype, 'runAll').mockResolvedValue(passedChecks());
+
+    github = {
+      initialize: jest.fn(async () => true),
+      getPullRequestForBranch: jest.fn(async () => null),
+      getPullRequest: jest.fn(async () => ({ number: 7, merged: false })),
+      createPullRequest: jest.fn(async () => ({ number: 7, html_url: 'https://github.com/o/r/pull/7' })),
+      waitForChecks: jest.fn(async () => ({ success: true, failedChecks: [] })),
+      getRequiredApprovals: jest.fn(async () => 0),
+      getReviewStatus: jest.fn(async () => ({ approvals: 0, changesRequested: false, changesRequestedBy: [] })),
+      getReviewComments: jest.fn(async () => []),
+      mergePullRequest: jest.fn(async () => true),
+    };
+
+    tool = new TestShipTool(
+      gitOps,
+      sessionRepo,
+      github as unknown as GitHubIntegration,
+      { trackBranchDeletion: jest.fn(async () => undefined) } as unknown as BranchValidator,
+      new ConfigurationManager(tempDir)
+    );
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should record each completed step and resume after the last checkpoint', async () => {
+    const session = await createSession();
+    github['waitForChecks']!.mockResolvedValueOnce({ success: false, failedChecks: ['test'] });
+
+    const failed = await ship();
+
+    expect(failed.success).toBe(false);
+    expect(failed.errors).toContain('CI checks failed: test');
+    const interrupted = (await sessionRepo.getSession(session.id))!;
+    expect(interrupted.currentState).toBe('WAITING_APPROVAL');
+    expect(interrupted.stateHistory.slice(-3).map(t => [t.to, t.metadata?.['checkpoint']])).toEqual([
+      ['PUSHED', 'pushed'],
+      ['PR_CREATED', 'prCreated'],
+      ['WAITING_APPROVAL', 'checksRunning'],
+    ]);
+    expect(interrupted.metadata.pr?.number).toBe(7);
+
+    const resumed = await ship();
+
+    expect(resumed.success).toBe(true);
+    expect(resumed.resumedFrom).toBe('WAITING_APPROVAL');
+    expect(gitOps.push).toHaveBeenCalledTimes(1);
+    expect(github['createPullRequest']).toHaveBeenCalledTimes(1);
+    expect(github['waitForChecks']).toHaveBeenCalledTimes(2);
+    expect(github['mergePullRequest']).toHaveBeenCalledWith(7, 'squash', expect.anything());
+    expect(await sessionRepo.getSession(session.id)).toBeNull();
+  });
+
+  it('should not merge again or require commits ahead when the PR was already merged', async () => {
+    const session = await createSession();
+    session.metadata.pr = { number: 7, url: 'https://github.com/o/r/pull/7' };
+    session.transitionTo('PUSHED', 'ship_command', { checkpoint: 'pushed' });
+    session.transitionTo('PR_CREATED', 'ship_command', { checkpoint: 'prCreated' });
+    session.transitionTo('WAITING_APPROVAL', 'ship_command', { checkpoint: 'checksRunning' });
+    session.transitionTo('WAITING_APPROVAL', 'ship_command', { checkpoint: 'checksPassed' });
+    session.transitionTo('MERGING', 'ship_command', { checkpoint: 'approved' });
+    await sessionRepo.updateSession(session.id, session);
+    github['getPullRequest']!.mockResolvedValue({ number: 7, merged: true });
+
+    const result = await ship();
+
+    expect(result.success).toBe(true);
+    expect(result.resumedFrom).toBe('MERGING');
+    expect(preFlight.mock.calls[0]![0]).toEqual(['sessionExists', 'onFeatureBranch', 'noUncommittedChanges']);
+    expect(github['getPullRequestForBranch']).not.toHaveBeenCalled();
+    expect(github['waitForChecks']).not.toHaveBeenCalled();
+    expect(github['mergePullRequest']).not.toHaveBeenCalled();
+    expect(gitOps.checkoutBranch).toHaveBeenCalledWith('main');
+  });
+
+  it('should stop in WAITING_APPROVAL with review comments when changes are requested', async () => {
+    const session = await createSession();
+    github['getReviewStatus']!.mockResolvedValueOnce({
+      approvals: 0, changesRequested: true, changesRequestedBy: ['grace'],
+    });
+    github['getReviewComments']!.mockResolvedValueOnce([
+      { author: 'grace', body: 'Handle the null case', path: 'src/app.ts', line: 42, url: 'https://github.com/o/r/pull/7#r1' },
+    ]);
+
+    const result = await ship();
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual(['Changes requested on PR #7 by grace']);
+    expect(result.reviewComments).toEqual([expect.objectContaining({ path: 'src/app.ts', line: 42 })]);
+    expect(result.nextSteps).toContain('Use devsolo_commit to commit the fixes');
+    expect(github['mergePullRequest']).not.toHaveBeenCalled();
+    const stopped = (await sessionRepo.getSession(session.id))!;
+    expect(stopped.currentState).toBe('WAITING_APPROVAL');
+    expect(stopped.stateHistory[stopped.stateHistory.length - 1]?.metadata?.['checkpoint']).toBe('checksPassed');
+  });
+
+  it('should require the larger of branch protection and minReviewers approvals', async () => {
+    const session = await createSession();
+    jest.spyOn(ConfigurationManager.prototype, 'load').mockResolvedValue({
+      preferences: { review: { minReviewers: 1, workflows: { launch: 2 } } },
+    } as any);
+    github['getRequiredApprovals']!.mockResolvedValue(1);
+    github['getReviewStatus']!.mockResolvedValue({ approvals: 1, changesRequested: false, changesRequestedBy: [] });
+
+    const waiting = await ship();
+
+    expect(waiting.errors).toEqual(['PR #7 needs 2 approval(s), has 1']);
+    expect(github['mergePullRequest']).not.toHaveBeenCalled();
+
+    github['getReviewStatus']!.mockResolvedValue({ approvals: 2, changesRequested: false, changesRequestedBy: [] });
+    const approved = await ship();
+
+    expect(approved.success).toBe(true);
+    expect(approved.resumedFrom).toBe('WAITING_APPROVAL');
+    expect(github['waitForChecks']).toHaveBeenCalledTimes(1);
+    expect(await sessionRepo.getSession(session.id)).toBeNull();
+  });
+
+  it('should retitle a PR from its commits and add new commits to its body on re-ship', async () => {
+    await createSession();
+    jest.spyOn(gitOps, 'getCommitMessagesSince').mockResolvedValue([
+      'fix(auth): handle denied consent',
+      'feat(auth): add OAuth login',
+    ]);
+    const body = renderPRBody([{ name: 'changes', content: '## Changes\n\n- feat(auth): add OAuth login' }]);
+    github['getPullRequestForBranch']!.mockResolvedValue({
+      number: 7,
+      html_url: 'https://github.com/o/r/pull/7',
+      title: `[ship] ${BRANCH}`,
+      body: `${body}\n\nDeploy after the config change`,
+    });
+    github['updatePullRequest'] = jest.fn(async () => true);
+
+    await ship();
+
+    expect(github['createPullRequest']).not.toHaveBeenCalled();
+    const [prNumber, changes] = github['updatePullRequest']!.mock.calls[0]! as [number, any];
+    expect(prNumber).toBe(7);
+    expect(changes.title).toBe('feat(auth): add OAuth login');
+    expect(changes.body).toContain('- fix(auth): handle denied consent');
+    expect(changes.body).toContain('Deploy after the config change');
+  });
+
+  it('should stop at a draft PR, then mark it ready for review and merge on the next ship', async () => {
+    const session = await createSession();
+    github['createPullRequest']!.mockResolvedValue({ number: 7, html_url: 'https://github.com/o/r/pull/7', draft: true });
+    github['markReadyForReview'] = jest.fn(async () => undefined);
+    github['updatePullRequest'] = jest.fn(async () => true);
+
+    const drafted = await tool.execute({ auto: true, prDescription: 'Adds checkpoints', draft: true });
+
+    expect(drafted).toMatchObject({ success: true, prNumber: 7, draft: true, merged: false });
+    expect(github['createPullRequest']).toHaveBeenCalledWith(expect.objectContaining({ draft: true }));
+    expect(github['waitForChecks']).not.toHaveBeenCalled();
+    expect((await sessionRepo.getSession(session.id))?.currentState).toBe('PR_DRAFT');
+
+    github['getPullRequestForBranch']!.mockResolvedValue({
+      number: 7, html_url: 'https://github.com/o/r/pull/7', title: 'Adds checkpoints', body: '', draft: true,
+    });
+
+    const shipped = await ship();
+
+    expect(shipped.success).toBe(true);
+    expect(github['createPullRequest']).toHaveBeenCalledTimes(1);
+    expect(github['markReadyForReview']).toHaveBeenCalledWith(7);
+    expect(github['mergePullRequest']).toHaveBeenCalled();
+    expect(await sessionRepo.getSession(session.id)).toBeNull();
+  });
+
+  it('should target and sync the base branch the session was launched from', async () => {
+    const session = await createSession();
+    session.metadata.baseBranch = 'integration';
+    await sessionRepo.updateSession(session.id, session);
+    const commitsSince = jest.spyOn(gitOps, 'getCommitMessagesSince').mockResolvedValue(['feat: add checkpoints']);
+
+    const result = await ship();
+
+    expect(result.success).toBe(true);
+    expect(commitsSince).toHaveBeenCalledWith('integration');
+    expect(github['createPullRequest']).toHaveBeenCalledWith(expect.objectContaining({ base: 'integration' }));
+    expect(gitOps.checkoutBranch).toHaveBeenCalledWith('integration');
+    expect(gitOps.pull).toHaveBeenCalledWith('origin', 'integration');
+  });
+
+  it('should only push when createPR and merge are off', async () => {
+    const session = await createSession();
+
+    const result = await tool.execute({ auto: true, createPR: false, merge: false });
+
+    expect(result).toMatchObject({ success: true, merged: false });
+    expect(gitOps.push).toHaveBeenCalled();
+    expect(github['createPullRequest']).not.toHaveBeenCalled();
+    expect(PostFlightVerification.prototype.runAll).toHaveBeenCalledWith(['branchPushed'], expect.anything());
+    expect((await sessionRepo.getSession(session.id))?.currentState).toBe('PUSHED');
+  });
+
+  it('should stop for review after opening the PR, then merge it without pushing again', async () => {
+    const session = await createSession();
+
+    const opened = await tool.execute({ auto: true, prDescription: 'Adds checkpoints', merge: false });
+
+    expect(opened).toMatchObject({ success: true, prNumber: 7, merged: false });
+    expect(github['waitForChecks']).not.toHaveBeenCalled();
+    expect((await sessionRepo.getSession(session.id))?.currentState).toBe('PR_CREATED');
+
+    const merged = await tool.execute({ auto: true, push: false, createPR: false });
+
+    expect(merged.success).toBe(true);
+    expect(preFlight.mock.calls[1]![0]).toEqual([
+      'sessionExists', 'onFeatureBranch', 'noUncommittedChanges', 'branchPushed', 'prExists',
+    ]);
+    expect(gitOps.push).toHaveBeenCalledTimes(1);
+    expect(github['createPullRequest']).toHaveBeenCalledTimes(1);
+    expect(github['mergePullRequest']).toHaveBeenCalled();
+    expect(await sessionRepo.getSession(session.id)).toBeNull();
+  });
+
+  it('should merge a PR opened outside devsolo when the pre-flight check found it', async () => {
+    const session = await createSession();
+    session.transitionTo('PUSHED');
+    await sessionRepo.updateSession(session.id, session);
+    github['getPullRequestForBranch']!.mockResolvedValue({
+      number: 9, html_url: 'https://github.com/o/r/pull/9', state: 'open', merged: false, draft: false,
+    });
+
+    const result = await tool.execute({ auto: true, push: false, createPR: false });
+
+    expect(result).toMatchObject({ success: true, prNumber: 9, merged: true });
+    expect(preFlight).toHaveBeenCalledWith(
+      expect.arrayContaining(['prExists']),
+      expect.objectContaining({ openPR: { number: 9, url: 'https://github.com/o/r/pull/9', draft: false } })
+    );
+    expect(github['getPullRequestForBranch']).toHaveBeenCalledTimes(2); // Merged-PR guard, then the open PR
+    expect(github['mergePullRequest']).toHaveBeenCalledWith(9, expect.anything(), expect.anything());
+  });
+
+  it('should re-run failed flaky checks and return annotations and logs when a failure stands', async () => {
+    await createSession();
+    jest.mocked(ConfigurationManager.prototype.load).mockResolvedValue({
+      preferences: { ci: { flakyChecks: ['e2e*'], maxReruns: 1 } },
+    } as any);
+    const e2e = { id: 11, name: 'e2e (ubuntu)', status: 'completed', conclusion: 'failure' };
+    const failure = { name: 'e2e (ubuntu)', annotations: [], logTail: 'Timeout waiting for selector' };
+    github['waitForChecks']!.mockResolvedValue({ success: false, failedChecks: [e2e.name], failedRuns: [e2e] });
+    github['rerunCheck'] = jest.fn(async () => true);
+    github['getCheckFailure'] = jest.fn(async () => failure);
+
+    const result = await ship();
+
+    expect(github['rerunCheck']).toHaveBeenCalledTimes(1);
+    expect(github['waitForChecks']).toHaveBeenCalledTimes(2);
+    expect(github['waitForChecks']!.mock.calls[1]![1]).toEqual(expect.objectContaining({ supersededRuns: [11] }));
+    expect(result.success).toBe(false);
+    expect(result.checkFailures).toEqual([failure]);
+    expect(result.checkReruns).toEqual({ 'e2e (ubuntu)': 1 });
+  });
+
+  it('should not re-run flaky checks when another check failed', async () => {
+    await createSession();
+    jest.mocked(ConfigurationManager.prototype.load).mockResolvedValue({
+      preferences: { ci: { flakyChecks: ['e2e*'], maxReruns: 3 } },
+    } as any);
+    const runs = [
+      { id: 11, name: 'e2e (ubuntu)', status: 'completed', conclusion: 'failure' },
+      { id: 12, name: 'lint', status: 'completed', conclusion: 'failure' },
+    ];
+    github['waitForChecks']!.mockResolvedValue({ success: false, failedChecks: ['e2e (ubuntu)', 'lint'], failedRuns: runs });
+    github['rerunCheck'] = jest.fn(async () => true);
+    github['getCheckFailure'] = jest.fn(async (run: any) => ({ name: run.name, annotations: [] }));
+
+    const result = await ship();
+
+    expect(github['rerunCheck']).not.toHaveBeenCalled();
+    expect(result.checkFailures.map((f: any) => f.name)).toEqual(['e2e (ubuntu)', 'lint']);
+  });
+
+  it('should hand the merge to GitHub auto-merge and finish cleanup from main once merged', async () => {
+    const session = await createSession();
+    github['enableAutoMerge'] = jest.fn(async () => undefined);
+
+    const pending = await tool.execute({ auto: true, prDescription: 'Adds checkpoints', mergeMode: 'auto' });
+
+    expect(pending.success).toBe(true);
+    expect(pending.merged).toBe(false);
+    expect(pending.mergeMode).toBe('auto');
+    expect(pending.postFlightVerifications).toBeUndefined();
+    expect(github['enableAutoMerge']).toHaveBeenCalledWith(7, 'squash', expect.anything());
+    expect(github['waitForChecks']).not.toHaveBeenCalled();
+    const waiting = (await sessionRepo.getSession(session.id))!;
+    expect(waiting.currentState).toBe('WAITING_APPROVAL');
+    expect(waiting.metadata.pr?.autoMerge?.mode).toBe('auto');
+
+    jest.mocked(gitOps.getCurrentBranch).mockResolvedValue('main');
+    github['getPullRequest']!.mockResolvedValue({ number: 7, merged: true, merge_commit_sha: 'abc123', commits: 2 });
+
+    const finished = await ship();
+
+    expect(finished.success).toBe(true);
+    expect(finished.merged).toBe(true);
+    expect(preFlight).toHaveBeenLastCalledWith(['sessionExists'], expect.anything());
+    expect(github['enableAutoMerge']).toHaveBeenCalledTimes(1);
+    expect(github['mergePullRequest']).not.toHaveBeenCalled();
+    expect(gitOps.deleteBranch).toHaveBeenCalledWith(BRANCH, true);
+    expect(await sessionRepo.getSession(session.id)).toBeNull();
+  });
+
+  it('should hand rebase conflicts back, then continue and push with --force-with-lease', async () => {
+    const session = await createSession();
+    const conflicts = [{ path: 'src/run.ts', hunks: [{ startLine: 3, ours: 'a', base: 'b', theirs: 'c' }] }];
+    jest.spyOn(gitOps, 'fetch').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'getCommitsBehind').mockResolvedValue(1);
+    jest.spyOn(gitOps, 'rebase').mockResolvedValue({ conflictedFiles: ['src/run.ts'] });
+    jest.spyOn(gitOps, 'getConflictHunks').mockResolvedValue(conflicts[0]!.hunks);
+
+    const stopped = await ship();
+
+    expect(stopped.success).toBe(false);
+    expect(stopped.conflicts).toEqual(conflicts);
+    expect(gitOps.push).not.toHaveBeenCalled();
+    expect((await sessionRepo.getSession(session.id))?.currentState).toBe('CONFLICT_RESOLUTION');
+
+    // Resolved and staged by the agent; HEAD is detached mid-rebase
+    jest.mocked(gitOps.getCurrentBranch).mockResolvedValue('HEAD');
+    jest.spyOn(gitOps, 'getRebasingBranch').mockResolvedValue(BRANCH);
+    jest.spyOn(gitOps, 'getConflictedFiles').mockResolvedValue([]);
+    jest.spyOn(gitOps, 'isRebasing').mockResolvedValue(true);
+    jest.spyOn(gitOps, 'continueRebase').mockResolvedValue({ conflictedFiles: [] });
+
+    const shipped = await ship();
+
+    expect(shipped.success).toBe(true);
+    expect(preFlight.mock.calls[1]![0]).toEqual(['sessionExists']);
+    expect(gitOps.continueRebase).toHaveBeenCalled();
+    expect(gitOps.push).toHaveBeenCalledWith('origin', BRANCH, ['--set-upstream', '--force-with-lease']);
+  });
+
+  it('should not merge a stacked branch before its parent', async () => {
+    const parent = new WorkflowSession({ workflowType: 'launch', branchName: 'feature/parent' });
+    parent.transitionTo('BRANCH_READY');
+    await sessionRepo.createSession(parent);
+    const session = await createSession();
+    session.metadata.baseBranch = parent.branchName;
+    session.metadata.parent = { sessionId: parent.id, branch: parent.branchName };
+    await sessionRepo.updateSession(session.id, session);
+
+    const refused = await ship();
+
+    expect(refused.success).toBe(false);
+    expect(refused.errors).toContain(`${BRANCH} is stacked on feature/parent, which has not merged yet`);
+    expect(gitOps.push).not.toHaveBeenCalled();
+
+    const opened = await tool.execute({ auto: true, prDescription: 'Adds checkpoints', merge: false });
+
+    expect(opened.success).toBe(true);
+    expect(github['createPullRequest']).toHaveBeenCalledWith(expect.objectContaining({ base: 'feature/parent' }));
+  });
+
+  it('should tag the merge commit of a release and publish it once merged', async () => {
+    const session = new WorkflowSession({
+      workflowType: 'release',
+      branchName: BRANCH,
+      metadata: {
+        projectPath: tempDir,
+        release: { version: '1.4.0', tag: 'v1.4.0', previousTag: 'v1.3.0', notes: '### Fixed\n- Checkpoints' },
+      },
+    });
+    session.transitionTo('BRANCH_READY');
+    session.transitionTo('CHANGES_COMMITTED');
+    await sessionRepo.createSession(session);
+    github['mergePullRequest']!.mockImplementation(async () => {
+      github['getPullRequest']!.mockResolvedValue({ number: 7, merged: true, merge_commit_sha: 'c0ffee1' });
+      return true;
+    });
+    github['createRelease'] = jest.fn(async () => ({ html_url: 'https://github.com/o/r/releases/tag/v1.4.0' }));
+    jest.spyOn(gitOps, 'getTags').mockResolvedValue(['v1.3.0']);
+    jest.spyOn(gitOps, 'fetch').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'createTag').mockResolvedValue(undefined);
+
+    const result = await ship();
+
+    expect(result.success).toBe(true);
+    expect(result.release).toEqual({
+      version: '1.4.0',
+      tag: 'v1.4.0',
+      published: true,
+      url: 'https://github.com/o/r/releases/tag/v1.4.0',
+    });
+    expect(gitOps.createTag).toHaveBeenCalledWith('v1.4.0', 'Release v1.4.0', 'c0ffee1');
+    expect(gitOps.push).toHaveBeenCalledWith('origin', 'v1.4.0');
+    expect(github['createRelease']).toHaveBeenCalledWith('v1.4.0', {
+      name: 'v1.4.0',
+      body: '### Fixed\n- Checkpoints',
+      prerelease: false,
+    });
+    expect(await sessionRepo.getSession(session.id)).toBeNull();
+  });
+
+  it('should start over when the session changed after its last checkpoint', async () => {
+    const session = await createSession();
+    session.transitionTo('PUSHED', 'ship_command', { checkpoint: 'pushed' });
+    session.transitionTo('CHANGES_COMMITTED');
+    await sessionRepo.updateSession(session.id, session);
+
+    const result = await ship();
+
+    expect(result.success).toBe(true);
+    expect(result.resumedFrom).toBeUndefined();
+    expect(gitOps.push).toHaveBeenCalledTimes(1);
+    expect(preFlight.mock.calls[0]![0]).toContain('hasCommitsToShip');
+  });
+});
+
+describe('ShipTool merge strategy', () => {
+  let tempDir: string;
+  let sessionRepo: SessionRepository;
+  let gitOps: GitOperations;
+  let github: Record<string, jest.Mock<(...args: any[]) => any>>;
+  let preferences: Record<string, unknown>;
+  let tool: ShipTool;
+
+  async function shipSession(
+    workflowType: 'launch' | 'hotfix',
+    input: Record<string, unknown> = {},
+    hotfix: Record<string, unknown> = { severity: 'critical' }
+  ): Promise<any> {
+    const session = new WorkflowSession({ workflowType, branchName: BRANCH });
+    session.transitionTo(workflowType === 'hotfix' ? 'HOTFIX_READY' : 'BRANCH_READY');
+    if (workflowType === 'hotfix') {
+      session.metadata.context = hotfix;
+    }
+    await sessionRepo.createSession(session);
+    return tool.execute({ auto: true, prDescription: 'Merges', ...input });
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devsolo-merge-'));
+    sessionRepo = new SessionRepository(tempDir);
+    gitOps = new GitOperations();
+    preferences = {};
+
+    jest.spyOn(gitOps, 'getMainBranch').mockResolvedValue('main');
+    jest.spyOn(gitOps, 'getCurrentBranch').mockResolvedValue(BRANCH);
+    jest.spyOn(gitOps, 'push').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'checkoutBranch').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'pull').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'deleteBranch').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'deleteRemoteBranch').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'getCommitTrailersSince').mockResolvedValue([
+      'Co-authored-by: Ada <ada@example.com>',
+      'Refs: #12',
+    ]);
+    jest.spyOn(ConfigurationManager.prototype, 'load').mockImplementation(async () => ({ preferences } as any));
+    jest.spyOn(PreFlightCheckService.prototype, 'runAll').mockResolvedValue(passedChecks());
+    jest.spyOn(PostFlightVerification.prototype, 'runAll').mockResolvedValue(passedChecks());
+
+    github = {
+      initialize: jest.fn(async () => true),
+      getPullRequestForBranch: jest.fn(async () => null),
+      getPullRequest: jest.fn(async () => ({ number: 9, merged: false, title: 'feat: add merge strategies' })),
+      createPullRequest: jest.fn(async () => ({ number: 9, html_url: 'https://github.com/o/r/pull/9' })),
+      waitForChecks: jest.fn(async () => ({ success: true, failedChecks: [] })),
+      getRequiredApprovals: jest.fn(async () => 0),
+      getReviewStatus: jest.fn(async () => ({ approvals: 0, changesRequested: false, changesRequestedBy: [] })),
+      getReviewComments: jest.fn(async () => []),
+      mergePullRequest: jest.fn(async () => true),
+    };
+
+    tool = new TestShipTool(
+      gitOps,
+      sessionRepo,
+      github as unknown as GitHubIntegration,
+      { trackBranchDeletion: jest.fn(async () => undefined) } as unknown as BranchValidator,
+      new ConfigurationManager(tempDir)
+    );
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should squash by default with a title from the PR and a body of commit trailers', async () => {
+    await shipSession('launch');
+
+    expect(github['mergePullRequest']).toHaveBeenCalledWith(9, 'squash', {
+      commitTitle: 'feat: add merge strategies (#9)',
+      commitMessage: 'Co-authored-by: Ada <ada@example.com>\nRefs: #12',
+    });
+  });
+
+  it('should prefer the per-workflow strategy over the global one', async () => {
+    preferences['merge'] = { strategy: 'merge', workflows: { hotfix: 'rebase' } };
+
+    await shipSession('hotfix');
+    expect(github['mergePullRequest']).toHaveBeenLastCalledWith(9, 'rebase', {});
+  });
+
+  it('should prefer the strategy passed to ship over the configuration', async () => {
+    preferences['merge'] = { strategy: 'rebase' };
+
+    await shipSession('launch', { mergeStrategy: 'merge' });
+    expect(github['mergePullRequest']).toHaveBeenLastCalledWith(9, 'merge', {});
+  });
+
+  it('should ship a high severity hotfix launched with skipReview', async () => {
+    const result = await shipSession('hotfix', {}, { severity: 'high', skipReview: true });
+
+    expect(result.success).toBe(true);
+    expect(github['getReviewStatus']).not.toHaveBeenCalled();
+    expect(github['mergePullRequest']).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ship a high severity hotfix that needs no approvals', async () => {
+    const result = await shipSession('hotfix', {}, { severity: 'high' });
+
+    expect(result.success).toBe(true);
+    expect(github['mergePullRequest']).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { SyncTool } from '../../src/mcp/tools/sync-tool';
+import { ConfigurationManager } from '../../src/services/configuration-manager';
+import { SessionRepository } from '../../src/services/session-repository';
+import { GitOperations } from '../../src/services/git-operations';
+import { StashManager } from '../../src/services/stash-manager';
+import { PreFlightCheckService } from '../../src/services/validation/pre-flight-check-service';
+import { WorkflowSession } from '../../src/models/workflow-session';
+import { passedChecks, withoutInitializationCheck } from './tool-test-helpers';
+
+const BRANCH = 'feature/sync';
+const HUNK = { startLine: 3, ours: 'const timeout = 30;', base: 'const timeout = 10;', theirs: 'const timeout = 20;' };
+
+const TestSyncTool = withoutInitializationCheck(SyncTool);
+
+describe('SyncTool', () => {
+  let tempDir: string;
+  let sessionRepo: SessionRepository;
+  let gitOps: GitOperations;
+  let tool: SyncTool;
+  let session: WorkflowSession;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devsolo-sync-'));
+    sessionRepo = new SessionRepository(tempDir);
+    gitOps = new GitOperations();
+
+    jest.spyOn(gitOps, 'getCurrentBranch').mockResolvedValue(BRANCH);
+    jest.spyOn(gitOps, 'getRebasingBranch').mockResolvedValue(null);
+    jest.spyOn(gitOps, 'fetch').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'getCommitsBehind').mockResolvedValue(3);
+    jest.spyOn(gitOps, 'rebase').mockResolvedValue({ conflictedFiles: [] });
+    jest.spyOn(gitOps, 'mergeBranch').mockResolvedValue({ conflictedFiles: [] });
+    jest.spyOn(gitOps, 'hasUncommittedChanges').mockResolvedValue(true);
+    jest.spyOn(gitOps, 'stashChanges').mockResolvedValue({ stashRef: '9f8e7d6' });
+    jest.spyOn(gitOps, 'stashPopSpecific').mockResolvedValue(undefined);
+    jest.spyOn(ConfigurationManager.prototype, 'load').mockResolvedValue({ preferences: {} } as any);
+    jest.spyOn(PreFlightCheckService.prototype, 'runAll').mockResolvedValue(passedChecks());
+
+    tool = new TestSyncTool(
+      gitOps,
+      sessionRepo,
+      new StashManager(tempDir, gitOps),
+      new ConfigurationManager(tempDir)
+    );
+
+    session = new WorkflowSession({ workflowType: 'launch', branchName: BRANCH });
+    session.transitionTo('BRANCH_READY');
+    session.transitionTo('CHANGES_COMMITTED');
+    session.transitionTo('PUSHED');
+    await sessionRepo.createSession(session);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should stash uncommitted work, rebase onto the base branch and restore it', async () => {
+    const result = await tool.execute({ auto: true });
+
+    expect(result).toMatchObject({
+      success: true,
+      status: 'rebased',
+      strategy: 'rebase',
+      onto: 'origin/main',
+      behind: 3,
+      stashRestored: true,
+    });
+    expect(gitOps.stashChanges).toHaveBeenCalledWith(expect.stringContaining('devsolo auto-stash (sync)'));
+    expect(gitOps.rebase).toHaveBeenCalledWith('origin/main');
+    expect(gitOps.stashPopSpecific).toHaveBeenCalledWith('9f8e7d6');
+
+    const saved = (await sessionRepo.getSession(session.id))!;
+    expect(saved.stateHistory.slice(-2).map(entry => [entry.to, entry.trigger, entry.metadata?.['strategy']])).toEqual([
+      ['REBASING', 'sync_command', 'rebase'],
+      ['CHANGES_COMMITTED', 'sync_command', 'rebase'],
+    ]);
+    expect(saved.metadata.sync).toBeUndefined();
+  });
+
+  it('should merge the base branch in when configured to', async () => {
+    jest.mocked(gitOps.hasUncommittedChanges).mockResolvedValue(false);
+    jest.mocked(ConfigurationManager.prototype.load).mockResolvedValue({
+      preferences: { sync: { strategy: 'merge' } },
+    } as any);
+
+    const result = await tool.execute({ auto: true });
+
+    expect(result).toMatchObject({ success: true, status: 'merged', strategy: 'merge' });
+    expect(result.stashRestored).toBeUndefined();
+    expect(gitOps.mergeBranch).toHaveBeenCalledWith('origin/main');
+    expect(gitOps.rebase).not.toHaveBeenCalled();
+    expect(gitOps.stashChanges).not.toHaveBeenCalled();
+  });
+
+  it('should keep the stash through conflicts and restore it once the rebase continues', async () => {
+    jest.mocked(gitOps.rebase).mockResolvedValue({ conflictedFiles: ['src/run.ts'] });
+    jest.spyOn(gitOps, 'getConflictHunks').mockResolvedValue([HUNK]);
+
+    const stopped = await tool.execute({ auto: true });
+
+    expect(stopped.success).toBe(false);
+    expect(stopped.status).toBe('conflicts');
+    expect(stopped.conflicts).toEqual([{ path: 'src/run.ts', hunks: [HUNK] }]);
+    expect(gitOps.stashPopSpecific).not.toHaveBeenCalled();
+    const interrupted = (await sessionRepo.getSession(session.id))!;
+    expect(interrupted.currentState).toBe('CONFLICT_RESOLUTION');
+    expect(interrupted.metadata.sync?.stashRef).toBe('9f8e7d6');
+
+    // Resolved by the agent; HEAD is detached mid-rebase
+    jest.mocked(gitOps.getRebasingBranch).mockResolvedValue(BRANCH);
+    jest.spyOn(gitOps, 'getConflictedFiles').mockResolvedValue([]);
+    jest.spyOn(gitOps, 'isRebasing').mockResolvedValue(true);
+    jest.spyOn(gitOps, 'continueRebase').mockResolvedValue({ conflictedFiles: [] });
+
+    const continued = await tool.execute({ auto: true });
+
+    expect(continued).toMatchObject({ success: true, status: 'rebased', stashRestored: true });
+    expect(gitOps.continueRebase).toHaveBeenCalled();
+    expect(gitOps.stashChanges).toHaveBeenCalledTimes(1);
+    expect(gitOps.stashPopSpecific).toHaveBeenCalledWith('9f8e7d6');
+    expect((await sessionRepo.getSession(session.id))?.currentState).toBe('CHANGES_COMMITTED');
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { z } from 'zod';
+import { ToolRegistry } from '../../src/mcp/tool-registry';
+import { AbortTool } from '../../src/mcp/tools/abort-tool';
+import {
+  BaseMCPTool,
+  WorkflowToolInput,
+  WorkflowContext,
+  WorkflowExecutionResult,
+} from '../../src/mcp/tools/workflow-tool-base';
+import { BaseToolResult, BaseToolResultSchema } from '../../src/mcp/tools/base-tool';
+import { ConfigurationManager } from '../../src/services/configuration-manager';
+import { SessionRepository } from '../../src/services/session-repository';
+import { GitOperations } from '../../src/services/git-operations';
+
+class EchoTool extends BaseMCPTool<WorkflowToolInput & { text: string; loud?: boolean }, BaseToolResult> {
+  readonly name = 'test_echo';
+  readonly description = 'Echo input back';
+  readonly inputSchema = z.object({
+    text: z.string().describe('Text to echo'),
+    loud: z.boolean().optional(),
+  });
+  readonly outputSchema = BaseToolResultSchema;
+  readonly annotations = { readOnlyHint: true };
+
+  public lastInput: unknown;
+
+  protected getSlashCommand(): string | null {
+    return null;
+  }
+
+  protected async checkInitialization(): Promise<BaseToolResult> {
+    return { success: true };
+  }
+
+  protected async executeWorkflow(context: WorkflowContext): Promise<WorkflowExecutionResult> {
+    this.lastInput = context.input;
+    this.reportProgress(context, `echo: ${String(context.input['text'])}`);
+    this.throwIfCancelled(context);
+    return { success: true };
+  }
+}
+
+describe('ToolRegistry', () => {
+  let registry: ToolRegistry;
+  let echo: EchoTool;
+
+  beforeEach(() => {
+    registry = new ToolRegistry();
+    echo = new EchoTool(new ConfigurationManager('.devsolo-test'));
+    registry.register(echo);
+  });
+
+  it('should derive tool definitions from the Zod schema', () => {
+    const [definition] = registry.list();
+
+    expect(definition?.name).toBe('test_echo');
+    expect(definition?.description).toBe('Echo input back');
+    expect(definition?.annotations).toEqual({ readOnlyHint: true });
+    expect(definition?.inputSchema.type).toBe('object');
+    expect(definition?.inputSchema.required).toEqual(['text']);
+    expect(Object.keys(definition?.inputSchema.properties || {})).toEqual(['text', 'loud', 'repoPath']);
+    expect(definition?.outputSchema?.type).toBe('object');
+    expect(definition?.outputSchema?.required).toEqual(['success']);
+  });
+
+  it('should reject duplicate registrations', () => {
+    expect(() => registry.register(echo)).toThrow('Tool already registered: test_echo');
+  });
+
+  it('should parse arguments and convert string booleans before dispatch', async () => {
+    const result = await registry.call('test_echo', { text: 'hi', loud: 'true', extra: 1 });
+
+    expect(result.success).toBe(true);
+    expect(echo.lastInput).toMatchObject({ text: 'hi', loud: true });
+    expect(echo.lastInput).not.toHaveProperty('extra');
+  });
+
+  it('should throw for unknown tools and invalid arguments', async () => {
+    await expect(registry.call('missing_tool', {})).rejects.toThrow('Unknown tool: missing_tool');
+    await expect(registry.call('test_echo', {})).rejects.toThrow();
+  });
+
+  it('should forward progress and cancellation to the tool', async () => {
+    const messages: string[] = [];
+    const result = await registry.call('test_echo', { text: 'hi' }, { onProgress: m => messages.push(m) });
+
+    expect(result.success).toBe(true);
+    expect(messages).toEqual(['echo: hi']);
+
+    const controller = new AbortController();
+    controller.abort();
+    const cancelled = await registry.call('test_echo', { text: 'hi' }, { signal: controller.signal });
+
+    expect(cancelled.success).toBe(false);
+    expect(cancelled.errors?.[0]).toContain('Cancelled by client');
+  });
+
+  it('should only advertise parameters the tool actually accepts', () => {
+    const abort = new AbortTool(
+      new SessionRepository('.devsolo-test'),
+      new GitOperations(),
+      new ConfigurationManager('.devsolo-test')
+    );
+    registry.register(abort);
+
+    const definition = registry.list().find(t => t.name === 'devsolo_abort');
+    const properties = Object.keys(definition?.inputSchema.properties || {});
+
+    expect(properties).toEqual(['branchName', 'auto', 'deleteBranch', 'dryRun', 'repoPath']);
+    expect(properties).not.toContain('background');
+    expect(properties).not.toContain('force');
+    expect(properties).not.toContain('yes');
+  });
+
+  it('should advertise an output schema that accepts the tool results', () => {
+    const abort = new AbortTool(
+      new SessionRepository('.devsolo-test'),
+      new GitOperations(),
+      new ConfigurationManager('.devsolo-test')
+    );
+    registry.register(abort);
+
+    const definition = registry.list().find(t => t.name === 'devsolo_abort');
+    expect(JSON.stringify(definition?.outputSchema)).not.toContain('$ref');
+    expect(Object.keys(definition?.outputSchema?.properties || {})).toEqual(
+      expect.arrayContaining(['success', 'errors', 'preFlightChecks', 'branchName', 'nextSteps'])
+    );
+
+    const result = abort.outputSchema.parse({
+      success: false,
+      errors: ['No active session'],
+      preFlightChecks: [{ name: 'Session exists', passed: false, level: 'error', message: 'No session' }],
+      customField: 1,
+    });
+    expect(result['customField']).toBe(1);
+  });
+});
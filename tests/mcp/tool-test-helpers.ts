@@ -0,0 +1,23 @@
+import { BaseToolResult } from '../../src/mcp/tools/base-tool';
+import { PreFlightVerificationResult } from '../../src/services/validation/pre-flight-check-service';
+
+/**
+ * Subclass of a tool that runs without an initialized devsolo project
+ */
+export function withoutInitializationCheck<T extends new (...args: any[]) => object>(Tool: T): T {
+  return class extends Tool {
+    protected async checkInitialization(): Promise<BaseToolResult> {
+      return { success: true };
+    }
+  };
+}
+
+/**
+ * Check results with nothing to report, for stubbing pre- and post-flight runs
+ */
+export function passedChecks(): PreFlightVerificationResult {
+  return {
+    allPassed: true, checks: [], failures: [], warnings: [], prompts: [],
+    passedCount: 0, failedCount: 0, warningCount: 0, promptCount: 0,
+  };
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import {
+  BaseMCPTool,
+  LockServices,
+  WorkflowToolInput,
+  WorkflowContext,
+  WorkflowExecutionResult,
+} from '../../src/mcp/tools/workflow-tool-base';
+import { BaseToolResult, ToolResultWithValidation, ToolResultWithValidationSchema } from '../../src/mcp/tools/base-tool';
+import { ConfigurationManager } from '../../src/services/configuration-manager';
+import { SessionRepository } from '../../src/services/session-repository';
+import { GitOperations } from '../../src/services/git-operations';
+import { WorkflowSession } from '../../src/models/workflow-session';
+
+/**
+ * Mutating tool whose workflow blocks until released (or throws when asked to)
+ */
+class BlockingTool extends BaseMCPTool<WorkflowToolInput & { fail?: boolean }, ToolResultWithValidation> {
+  readonly name = 'test_blocking';
+  readonly description = 'Blocks until released';
+  readonly inputSchema = z.object({ fail: z.boolean().optional() });
+  readonly outputSchema = ToolResultWithValidationSchema;
+
+  private release: () => void = () => undefined;
+  private gate: Promise<void> = Promise.resolve();
+
+  constructor(private sessionRepo: SessionRepository, private gitOps: GitOperations) {
+    super(new ConfigurationManager('.devsolo-test'));
+  }
+
+  block(): void {
+    this.gate = new Promise(resolve => {
+      this.release = resolve;
+    });
+  }
+
+  unblock(): void {
+    this.release();
+  }
+
+  protected getSlashCommand(): string | null {
+    return null;
+  }
+
+  protected getLockServices(): LockServices {
+    return { sessionRepo: this.sessionRepo, gitOps: this.gitOps };
+  }
+
+  protected async checkInitialization(): Promise<BaseToolResult> {
+    return { success: true };
+  }
+
+  protected async executeWorkflow(context: WorkflowContext): Promise<WorkflowExecutionResult> {
+    await this.gate;
+    if (context.input['fail']) {
+      throw new Error('boom');
+    }
+    return { success: true };
+  }
+}
+
+describe('BaseMCPTool locking', () => {
+  let tempDir: string;
+  let sessionRepo: SessionRepository;
+  let tool: BlockingTool;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devsolo-locks-'));
+    sessionRepo = new SessionRepository(tempDir);
+    tool = new BlockingTool(sessionRepo, new GitOperations());
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should refuse a concurrent call with the current holder and release afterwards', async () => {
+    tool.block();
+    const first = tool.execute({});
+
+    // Wait for the first call to take the lock
+    const lockFile = path.join(tempDir, 'locks', '.repository.lock');
+    for (let i = 0; i < 50 && !(await fs.stat(lockFile).catch(() => null)); i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+
+    const second = await tool.execute({});
+    expect(second.success).toBe(false);
+    expect(second.lockHolder).toMatchObject({ pid: process.pid, tool: 'test_blocking' });
+    expect(second.errors?.[0]).toMatch(
+      new RegExp(`^Repository is busy: held by PID ${process.pid} \\(test_blocking\\) since \\d{4}-`)
+    );
+
+    tool.unblock();
+    expect((await first).success).toBe(true);
+    expect((await tool.execute({})).success).toBe(true);
+  });
+
+  it('should release locks when the workflow throws', async () => {
+    const failed = await tool.execute({ fail: true });
+    expect(failed.success).toBe(false);
+    expect(failed.errors?.[0]).toContain('boom');
+
+    await expect(fs.readdir(path.join(tempDir, 'locks'))).resolves.toEqual([]);
+  });
+
+  it('should report a busy session lock held by another call', async () => {
+    // The mocked git repository is always on main
+    const session = new WorkflowSession({ workflowType: 'launch', branchName: 'main' });
+    await sessionRepo.createSession(session);
+    const held = await sessionRepo.acquireSessionLock(session.id, 'devsolo_ship');
+    expect(held.acquired).toBe(true);
+
+    const result = await tool.execute({});
+    expect(result.success).toBe(false);
+    expect(result.errors?.[0]).toContain('Session main is busy');
+    expect(result.lockHolder?.tool).toBe('devsolo_ship');
+
+    // The repository lock taken before the session lock was given back
+    const repositoryLock = await sessionRepo.acquireRepositoryLock('check');
+    expect(repositoryLock.acquired).toBe(true);
+  });
+
+  it('should take over locks left by processes that are no longer running', async () => {
+    await sessionRepo.initialize();
+    const lockFile = path.join(tempDir, 'locks', '.repository.lock');
+    await fs.writeFile(lockFile, JSON.stringify({ pid: 999999999, tool: 'devsolo_ship', acquiredAt: 'earlier' }));
+
+    const result = await tool.execute({});
+    expect(result.success).toBe(true);
+  });
+});
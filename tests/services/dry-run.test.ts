@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { DryRunPlan, isDryRun, runWithDryRun } from '../../src/services/dry-run';
+import { GitOperations } from '../../src/services/git-operations';
+import { GitHubIntegration } from '../../src/services/github-integration';
+import { SessionRepository } from '../../src/services/session-repository';
+import { WorkflowSession } from '../../src/models/workflow-session';
+import { ConfigurationManager } from '../../src/services/configuration-manager';
+import {
+  BaseMCPTool,
+  WorkflowToolInput,
+  WorkflowContext,
+  WorkflowExecutionResult,
+} from '../../src/mcp/tools/workflow-tool-base';
+import { BaseToolResult, ToolResultWithValidation, ToolResultWithValidationSchema } from '../../src/mcp/tools/base-tool';
+
+class PushTool extends BaseMCPTool<WorkflowToolInput, ToolResultWithValidation> {
+  readonly name = 'test_push';
+  readonly description = 'Push the current branch';
+  readonly inputSchema = z.object({ auto: z.boolean().optional() });
+  readonly outputSchema = ToolResultWithValidationSchema;
+  readonly supportsDryRun = true;
+
+  constructor(private gitOps: GitOperations) {
+    super(new ConfigurationManager('.devsolo-test'));
+  }
+
+  protected getSlashCommand(): string | null {
+    return null;
+  }
+
+  protected async checkInitialization(): Promise<BaseToolResult> {
+    return { success: true };
+  }
+
+  protected async executeWorkflow(_context: WorkflowContext): Promise<WorkflowExecutionResult> {
+    await this.gitOps.push('origin', 'feature/x', ['--set-upstream']);
+    return { success: true, data: { pushed: true } };
+  }
+}
+
+describe('dry run', () => {
+  let gitOps: GitOperations;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    gitOps = new GitOperations();
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devsolo-dry-run-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should record mutating git commands in order and pass reads through', async () => {
+    const plan = new DryRunPlan();
+
+    const branch = await runWithDryRun(plan, async () => {
+      expect(isDryRun()).toBe(true);
+      await gitOps.push('origin', 'feature/x', ['--set-upstream']);
+      await gitOps.execute(['log', '--oneline']);
+      await gitOps.deleteBranch('feature/x', true);
+      await gitOps.raw(['update-ref', '-d', 'refs/heads/tmp']);
+      return gitOps.getCurrentBranch();
+    });
+
+    expect(branch).toBe('main');
+    expect(isDryRun()).toBe(false);
+    expect(plan.steps).toEqual([
+      { kind: 'git', description: 'git push origin feature/x --set-upstream' },
+      { kind: 'git', description: 'git branch -D feature/x' },
+      { kind: 'git', description: 'git update-ref -d refs/heads/tmp' },
+    ]);
+  });
+
+  it('should record session transitions and deleted files without writing', async () => {
+    const repo = new SessionRepository(tempDir);
+    const session = new WorkflowSession({ workflowType: 'launch', branchName: 'feature/plan' });
+    await repo.createSession(session);
+
+    const plan = new DryRunPlan();
+    await runWithDryRun(plan, async () => {
+      session.transitionTo('BRANCH_READY');
+      await repo.updateSession(session.id, session);
+      await repo.deleteSession(session.id);
+    });
+
+    expect(plan.steps.map(s => s.kind)).toEqual(['session', 'session', 'file', 'file']);
+    expect(plan.steps[0]?.description).toBe('Transition feature/plan: INIT -> BRANCH_READY');
+    expect(plan.steps[2]?.description).toContain('feature%2Fplan.json');
+
+    const stored = await repo.getSession(session.id);
+    expect(stored?.currentState).toBe('INIT');
+  });
+
+  it('should record which fields a pull request update changes', async () => {
+    const github = new GitHubIntegration('.devsolo-test');
+    Object.assign(github, { owner: 'o', repo: 'r' });
+
+    const plan = new DryRunPlan();
+    await runWithDryRun(plan, async () => {
+      await github.updatePullRequest(7, { title: 'feat: plans', body: 'Plans' });
+      await github.updatePullRequest(8, { base: 'main' });
+    });
+
+    expect(plan.steps).toEqual([
+      { kind: 'github', description: 'PATCH /repos/o/r/pulls/7 (title + body)', details: { title: 'feat: plans' } },
+      { kind: 'github', description: 'PATCH /repos/o/r/pulls/8 (base)', details: { base: 'main' } },
+    ]);
+  });
+
+  it('should return the plan from a tool instead of executing the workflow', async () => {
+    const tool = new PushTool(gitOps);
+
+    const result = await tool.execute(tool.parseInput({ dryRun: true }));
+
+    expect(result.success).toBe(true);
+    expect(result.dryRun).toBe(true);
+    expect(result.plan).toEqual([{ kind: 'git', description: 'git push origin feature/x --set-upstream' }]);
+    expect(result).not.toHaveProperty('pushed');
+    expect(() => tool.outputSchema.parse(result)).not.toThrow();
+  });
+});
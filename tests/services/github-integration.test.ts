@@ -0,0 +1,112 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { CheckRunDetail, GitHubIntegration, PullRequestInfo } from '../../src/services/github-integration';
+
+describe('GitHubIntegration.waitForChecks', () => {
+  const pr: PullRequestInfo = {
+    number: 7,
+    html_url: 'https://github.com/owner/repo/pull/7',
+    state: 'open',
+    merged: false,
+    title: 'Test',
+    head: 'feature/test',
+    base: 'main',
+  };
+
+  function createIntegration(details: CheckRunDetail[]): GitHubIntegration {
+    const github = new GitHubIntegration('.devsolo-test');
+    jest.spyOn(github, 'getPullRequest').mockResolvedValue(pr);
+    jest.spyOn(github, 'getChecksStatus').mockResolvedValue({
+      passed: false,
+      failed: false,
+      pending: true,
+      total: details.length,
+      details,
+    });
+    return github;
+  }
+
+  it('should report per-check progress on each poll', async () => {
+    const github = createIntegration([
+      { name: 'build', status: 'completed', conclusion: 'success' },
+      { name: 'test', status: 'in_progress' },
+    ]);
+    const updates: Array<{ passed: number; pending: number }> = [];
+    const controller = new AbortController();
+
+    const result = await github.waitForChecks(7, {
+      pollInterval: 10,
+      signal: controller.signal,
+      onProgress: (status) => {
+        updates.push({ passed: status.passed, pending: status.pending });
+        expect(status.details.map(d => d.name)).toEqual(['build', 'test']);
+        controller.abort();
+      },
+    });
+
+    expect(updates).toEqual([{ passed: 1, pending: 1 }]);
+    expect(result).toEqual({ success: false, timedOut: false, cancelled: true, failedChecks: [] });
+  });
+
+  it('should stop waiting as soon as the signal is aborted', async () => {
+    const github = createIntegration([{ name: 'test', status: 'queued' }]);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    const startedAt = Date.now();
+    const result = await github.waitForChecks(7, { pollInterval: 60 * 1000, signal: controller.signal });
+
+    expect(result.cancelled).toBe(true);
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+  });
+
+  it('should treat re-run checks as pending until their new run completes', async () => {
+    const github = createIntegration([
+      { id: 1, name: 'e2e', status: 'completed', conclusion: 'failure' },
+      { id: 2, name: 'build', status: 'completed', conclusion: 'success' },
+    ]);
+
+    const result = await github.waitForChecks(7, { timeout: 50, pollInterval: 10, supersededRuns: [1] });
+
+    expect(result.timedOut).toBe(true);
+  });
+
+  it('should return the failed runs', async () => {
+    const failed = { id: 1, name: 'e2e', status: 'completed', conclusion: 'failure' };
+    const github = createIntegration([failed]);
+
+    const result = await github.waitForChecks(7, { pollInterval: 10 });
+
+    expect(result).toEqual({ success: false, timedOut: false, failedChecks: ['e2e'], failedRuns: [failed] });
+  });
+});
+
+describe('GitHubIntegration.getCheckFailure', () => {
+  it('should return the annotations and the end of the job log without timestamps', async () => {
+    const github = new GitHubIntegration('.devsolo-test');
+    const listAnnotations = jest.fn();
+    Object.assign(github, {
+      owner: 'owner',
+      repo: 'repo',
+      octokit: {
+        paginate: jest.fn(async () => [{
+          path: 'src/run.ts', start_line: 3, end_line: 3, annotation_level: 'failure', message: 'Expected 30', title: null,
+        }]),
+        checks: { listAnnotations },
+        actions: {
+          downloadJobLogsForWorkflowRun: jest.fn(async () => ({
+            data: '2024-05-01T10:00:00.0000000Z npm test\n2024-05-01T10:00:01.1234567Z FAIL run.test.ts\n2024-05-01T10:00:02.0000000Z exit 1\n',
+          })),
+        },
+      },
+    });
+
+    const failure = await github.getCheckFailure({ id: 9, name: 'test', status: 'completed', url: 'https://ci/9' }, 2);
+
+    expect(failure).toEqual({
+      name: 'test',
+      url: 'https://ci/9',
+      annotations: [{ path: 'src/run.ts', startLine: 3, endLine: 3, level: 'failure', message: 'Expected 30' }],
+      logTail: 'FAIL run.test.ts\nexit 1',
+    });
+  });
+});
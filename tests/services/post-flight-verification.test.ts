@@ -0,0 +1,50 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { PostFlightVerification } from '../../src/services/validation/post-flight-verification';
+import { GitOperations } from '../../src/services/git-operations';
+import { SessionRepository } from '../../src/services/session-repository';
+import { WorkflowSession } from '../../src/models/workflow-session';
+import { MergeStrategy } from '../../src/models/types';
+
+describe('PostFlightVerification linearHistory', () => {
+  function verify(
+    mergeStrategy: MergeStrategy | undefined,
+    commits: Array<{ sha: string; parents: string[] }>,
+    commitCount = 1
+  ): ReturnType<PostFlightVerification['runAll']> {
+    const gitOps = new GitOperations();
+    jest.spyOn(gitOps, 'getCommitParents').mockResolvedValue(commits);
+    const session = new WorkflowSession({ workflowType: 'launch', branchName: 'feature/linear' });
+    session.metadata.pr = { number: 1, mergeStrategy, mergeCommitSha: commits[0]?.sha || 'none', commitCount };
+
+    return new PostFlightVerification(gitOps, new SessionRepository('.devsolo-test')).runAll(['linearHistory'], { session });
+  }
+
+  it('should pass when a squash merge added one single-parent commit', async () => {
+    const result = await verify('squash', [{ sha: 'aaaaaaa1', parents: ['bbbbbbb1'] }]);
+
+    expect(result.allPassed).toBe(true);
+  });
+
+  it('should fail when a rebase merge brought in merge commits', async () => {
+    const result = await verify('rebase', [
+      { sha: 'aaaaaaa1', parents: ['ccccccc1'] },
+      { sha: 'ccccccc1', parents: ['ddddddd1', 'eeeeeee1'] },
+    ], 2);
+
+    expect(result.failedCount).toBe(1);
+    expect(result.failures).toEqual(['Merge commits on main after rebase: ccccccc']);
+  });
+
+  it('should expect a true merge commit for the merge strategy', async () => {
+    expect((await verify('merge', [{ sha: 'aaaaaaa1', parents: ['bbbbbbb1', 'ccccccc1'] }])).allPassed).toBe(true);
+    expect((await verify('merge', [{ sha: 'aaaaaaa1', parents: ['bbbbbbb1'] }])).failures)
+      .toEqual(['aaaaaaa is not a merge commit']);
+  });
+
+  it('should warn when the merge was not recorded', async () => {
+    const result = await verify(undefined, []);
+
+    expect(result.failedCount).toBe(0);
+    expect(result.warningCount).toBe(1);
+  });
+});
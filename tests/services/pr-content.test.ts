@@ -0,0 +1,60 @@
+import { describe, it, expect } from '@jest/globals';
+import { derivePRTitle, renderPRBody, updatePRBody } from '../../src/services/pr-content';
+
+describe('derivePRTitle', () => {
+  it('should use the subject of a single commit', () => {
+    expect(derivePRTitle(['fix(api): handle empty token'], 'token handling')).toBe('fix(api): handle empty token');
+  });
+
+  it('should combine the most significant commit type and shared scope with the description', () => {
+    const subjects = ['chore: bump deps', 'fix(auth): reject expired tokens', 'feat(auth)!: add OAuth login'];
+
+    expect(derivePRTitle(subjects, 'OAuth login')).toBe('feat(auth)!: OAuth login');
+    expect(derivePRTitle(subjects)).toBe('feat(auth)!: add OAuth login');
+  });
+
+  it('should fall back to the description, then the oldest commit subject', () => {
+    expect(derivePRTitle(['Add login page', 'Fix typo'], 'Login page')).toBe('Login page');
+    expect(derivePRTitle(['Add login page', 'Fix typo'])).toBe('Add login page');
+    expect(derivePRTitle([])).toBeNull();
+  });
+});
+
+describe('updatePRBody', () => {
+  const original = renderPRBody([
+    { name: 'description', content: 'Adds OAuth login' },
+    { name: 'changes', content: '## Changes\n\n- feat: add OAuth login' },
+  ]);
+  const regenerated = [
+    { name: 'description', content: 'Adds OAuth login' },
+    { name: 'changes', content: '## Changes\n\n- fix: handle denied consent\n- feat: add OAuth login' },
+  ];
+
+  it('should regenerate untouched sections and keep text outside the markers', () => {
+    const body = updatePRBody(`${original}\n\nReviewer notes: tested on staging`, regenerated);
+
+    expect(body).toContain('- fix: handle denied consent');
+    expect(body).toContain('Reviewer notes: tested on staging');
+    // Regenerated sections stay regenerable
+    expect(updatePRBody(body, regenerated)).toBe(body);
+  });
+
+  it('should keep sections edited on GitHub unless asked to replace them', () => {
+    const edited = original.replace('Adds OAuth login', 'Adds OAuth login (Google only for now)').replace(/\n/g, '\r\n');
+    const replacement = [{ name: 'description', content: 'Adds Google and GitHub login' }, regenerated[1]!];
+
+    expect(updatePRBody(edited, regenerated)).toContain('Google only for now');
+    expect(updatePRBody(edited, regenerated)).toContain('- fix: handle denied consent');
+    expect(updatePRBody(edited, replacement, ['description'])).toContain('Adds Google and GitHub login');
+  });
+
+  it('should return a CRLF body as given when no section changed', () => {
+    const body = renderPRBody(regenerated).replace(/\n/g, '\r\n');
+
+    expect(updatePRBody(body, regenerated)).toBe(body);
+  });
+
+  it('should leave a body without markers unchanged', () => {
+    expect(updatePRBody('Written by hand', regenerated)).toBe('Written by hand');
+  });
+});
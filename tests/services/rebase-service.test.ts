@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { RebaseService } from '../../src/services/rebase-service';
+import { GitOperations, parseConflictHunks } from '../../src/services/git-operations';
+import { SessionRepository } from '../../src/services/session-repository';
+import { WorkflowSession } from '../../src/models/workflow-session';
+
+const HUNK = { startLine: 3, ours: 'const timeout = 30;', base: 'const timeout = 10;', theirs: 'const timeout = 20;' };
+
+describe('parseConflictHunks', () => {
+  it('should return ours, base and theirs for each diff3 conflict block', () => {
+    const content = [
+      'import { run } from "./run";',
+      '',
+      '<<<<<<< HEAD',
+      'const timeout = 30;',
+      '||||||| parent of 1a2b3c4 (Raise timeout)',
+      'const timeout = 10;',
+      '=======',
+      'const timeout = 20;',
+      '>>>>>>> 1a2b3c4 (Raise timeout)',
+      'run(timeout);',
+      '<<<<<<< HEAD',
+      '=======',
+      'run(timeout * 2);',
+      '>>>>>>> 1a2b3c4 (Raise timeout)',
+    ].join('\n');
+
+    expect(parseConflictHunks(content)).toEqual([
+      HUNK,
+      { startLine: 11, ours: '', theirs: 'run(timeout * 2);' },
+    ]);
+  });
+
+  it('should return no hunks for a resolved file', () => {
+    expect(parseConflictHunks('const timeout = 30;\n==== not a marker\n')).toEqual([]);
+  });
+});
+
+describe('RebaseService', () => {
+  let tempDir: string;
+  let sessionRepo: SessionRepository;
+  let gitOps: GitOperations;
+  let service: RebaseService;
+  let session: WorkflowSession;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devsolo-rebase-'));
+    sessionRepo = new SessionRepository(tempDir);
+    gitOps = new GitOperations();
+    service = new RebaseService(gitOps, sessionRepo);
+
+    jest.spyOn(gitOps, 'fetch').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'getCommitsBehind').mockResolvedValue(2);
+    jest.spyOn(gitOps, 'rebase').mockResolvedValue({ conflictedFiles: ['src/run.ts'] });
+    jest.spyOn(gitOps, 'getConflictHunks').mockResolvedValue([HUNK]);
+    jest.spyOn(gitOps, 'add').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'isRebasing').mockResolvedValue(true);
+    jest.spyOn(gitOps, 'continueRebase').mockResolvedValue({ conflictedFiles: [] });
+
+    session = new WorkflowSession({ workflowType: 'launch', branchName: 'feature/rebase' });
+    session.transitionTo('BRANCH_READY');
+    session.transitionTo('CHANGES_COMMITTED');
+    await sessionRepo.createSession(session);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should leave a branch that is up to date with main alone', async () => {
+    jest.mocked(gitOps.getCommitsBehind).mockResolvedValue(0);
+
+    const result = await service.rebaseOntoBase(session, 'ship_command');
+
+    expect(result.status).toBe('up-to-date');
+    expect(gitOps.rebase).not.toHaveBeenCalled();
+    expect(session.currentState).toBe('CHANGES_COMMITTED');
+  });
+
+  it('should rebase onto the trunk, or the base branch the session was launched from', async () => {
+    jest.spyOn(gitOps, 'getMainBranch').mockResolvedValue('master');
+
+    expect((await service.rebaseOntoBase(session, 'ship_command')).onto).toBe('origin/master');
+    expect(gitOps.fetch).toHaveBeenCalledWith('origin', 'master');
+
+    const integration = new WorkflowSession({
+      workflowType: 'launch',
+      branchName: 'feature/on-integration',
+      metadata: { projectPath: tempDir, baseBranch: 'integration' },
+    });
+    integration.transitionTo('BRANCH_READY');
+    integration.transitionTo('CHANGES_COMMITTED');
+    await sessionRepo.createSession(integration);
+
+    await service.rebaseOntoBase(integration, 'ship_command');
+
+    expect(gitOps.rebase).toHaveBeenLastCalledWith('origin/integration');
+  });
+
+  it('should stop in CONFLICT_RESOLUTION with the hunks of each conflicted file', async () => {
+    const result = await service.rebaseOntoBase(session, 'ship_command');
+
+    expect(gitOps.rebase).toHaveBeenCalledWith('origin/main');
+    expect(result).toEqual({
+      status: 'conflicts',
+      onto: 'origin/main',
+      strategy: 'rebase',
+      conflicts: [{ path: 'src/run.ts', hunks: [HUNK] }],
+      behind: 2,
+    });
+    const saved = (await sessionRepo.getSession(session.id))!;
+    expect(saved.stateHistory.slice(-2).map(entry => entry.to)).toEqual(['REBASING', 'CONFLICT_RESOLUTION']);
+  });
+
+  it('should not continue while conflict markers remain', async () => {
+    await service.rebaseOntoBase(session, 'ship_command');
+    jest.spyOn(gitOps, 'getConflictedFiles').mockResolvedValue(['src/run.ts']);
+
+    const result = await service.continueRebase(session, 'ship_command');
+
+    expect(result.status).toBe('conflicts');
+    expect(gitOps.continueRebase).not.toHaveBeenCalled();
+    expect(session.currentState).toBe('CONFLICT_RESOLUTION');
+  });
+
+  it('should stage resolved files, continue the rebase and return to CHANGES_COMMITTED', async () => {
+    await service.rebaseOntoBase(session, 'ship_command');
+    jest.spyOn(gitOps, 'getConflictedFiles').mockResolvedValue(['src/run.ts']);
+    jest.mocked(gitOps.getConflictHunks).mockResolvedValue([]);
+
+    const result = await service.continueRebase(session, 'ship_command');
+
+    expect(result.status).toBe('rebased');
+    expect(gitOps.add).toHaveBeenCalledWith(['src/run.ts']);
+    expect(gitOps.continueRebase).toHaveBeenCalled();
+    expect((await sessionRepo.getSession(session.id))?.currentState).toBe('CHANGES_COMMITTED');
+  });
+});
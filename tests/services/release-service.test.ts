@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  DEFAULT_RELEASE_SETTINGS,
+  ReleaseService,
+  addChangelogEntry,
+  compareVersions,
+  determineBump,
+  parseCommit,
+  renderReleaseNotes,
+} from '../../src/services/release-service';
+import { GitOperations } from '../../src/services/git-operations';
+import { GitHubIntegration } from '../../src/services/github-integration';
+import { SessionRepository } from '../../src/services/session-repository';
+
+const CHANGELOG = `# Changelog
+
+## [Unreleased]
+
+## [1.3.0] - 2026-09-01
+
+### Added
+- Stacked branches
+
+[Unreleased]: https://github.com/o/r/compare/v1.3.0...HEAD
+[1.3.0]: https://github.com/o/r/compare/v1.2.0...v1.3.0
+`;
+
+function commits(...messages: string[]): Array<{ hash: string; message: string }> {
+  return messages.map((message, i) => ({ hash: `c${i}`, message }));
+}
+
+describe('release versioning', () => {
+  it('should bump major for breaking changes, minor for features and patch otherwise', () => {
+    const parse = (...messages: string[]) => messages.map(parseCommit);
+
+    expect(determineBump(parse('fix: handle empty tags', 'docs: explain releases'))).toBe('patch');
+    expect(determineBump(parse('fix: handle empty tags', 'feat(ship): publish releases'))).toBe('minor');
+    expect(determineBump(parse('feat!: drop the CLI'))).toBe('major');
+    expect(determineBump(parse('refactor: split config\n\nBREAKING CHANGE: config moved'))).toBe('major');
+  });
+
+  it('should order pre-releases before their release', () => {
+    expect(compareVersions('2.0.0-rc.1', '2.0.0')).toBeLessThan(0);
+    expect(compareVersions('2.0.0-rc.10', '2.0.0-rc.2')).toBeGreaterThan(0);
+    expect(compareVersions('1.10.0', '1.9.3')).toBeGreaterThan(0);
+  });
+
+  it('should group notes into changelog sections and leave out chores', () => {
+    const notes = renderReleaseNotes([
+      'fix(ship): retry publishing',
+      'chore: bump dependencies',
+      'feat: release tool',
+      'feat(api)!: rename sessions endpoint',
+      'Tidy up logging',
+    ].map(parseCommit));
+
+    expect(notes).toBe([
+      '### Added',
+      '- **BREAKING**: **api**: rename sessions endpoint',
+      '- release tool',
+      '',
+      '### Fixed',
+      '- **ship**: retry publishing',
+      '',
+      '### Changed',
+      '- Tidy up logging',
+    ].join('\n'));
+  });
+
+  it('should add the entry below [Unreleased] and update the compare links', () => {
+    const updated = addChangelogEntry(CHANGELOG, {
+      version: '1.4.0', tag: 'v1.4.0', date: '2026-10-19', notes: '### Fixed\n- Publishing',
+    });
+
+    expect(updated).toBe(`# Changelog
+
+## [Unreleased]
+
+## [1.4.0] - 2026-10-19
+
+### Fixed
+- Publishing
+
+## [1.3.0] - 2026-09-01
+
+### Added
+- Stacked branches
+
+[Unreleased]: https://github.com/o/r/compare/v1.4.0...HEAD
+[1.4.0]: https://github.com/o/r/compare/v1.3.0...v1.4.0
+[1.3.0]: https://github.com/o/r/compare/v1.2.0...v1.3.0
+`);
+  });
+});
+
+describe('ReleaseService', () => {
+  let tempDir: string;
+  let gitOps: GitOperations;
+  let service: ReleaseService;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devsolo-release-'));
+    gitOps = new GitOperations(tempDir);
+    service = new ReleaseService(gitOps, new SessionRepository(tempDir), {} as GitHubIntegration);
+
+    await fs.writeFile(path.join(tempDir, 'package.json'), '{\n    "name": "app",\n    "version": "1.3.0"\n}\n');
+    await fs.writeFile(path.join(tempDir, 'CHANGELOG.md'), CHANGELOG);
+    jest.spyOn(gitOps, 'getTags').mockResolvedValue(['v1.2.0', 'v1.3.0', 'v1.10.0-beta.1', 'nightly']);
+    jest.spyOn(gitOps, 'getCommitMessagesAfter').mockResolvedValue(
+      commits('feat(ship): publish releases', 'fix: handle empty tags')
+    );
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should plan the next version from the commits since the latest release tag', async () => {
+    const plan = await service.planRelease(DEFAULT_RELEASE_SETTINGS);
+
+    expect(gitOps.getCommitMessagesAfter).toHaveBeenCalledWith('v1.3.0');
+    expect(plan).toEqual({
+      version: '1.4.0',
+      tag: 'v1.4.0',
+      previousVersion: '1.3.0',
+      previousTag: 'v1.3.0',
+      bump: 'minor',
+      commits: 2,
+      notes: '### Added\n- **ship**: publish releases\n\n### Fixed\n- handle empty tags',
+    });
+  });
+
+  it('should prefer hand-written [Unreleased] notes and reject versions that are not newer', async () => {
+    await fs.writeFile(
+      path.join(tempDir, 'CHANGELOG.md'),
+      CHANGELOG.replace('## [Unreleased]\n', '## [Unreleased]\n\n### Added\n- Release workflow\n')
+    );
+
+    expect((await service.planRelease(DEFAULT_RELEASE_SETTINGS, { bump: 'major' })).notes).toBe(
+      '### Added\n- Release workflow'
+    );
+    await expect(service.planRelease(DEFAULT_RELEASE_SETTINGS, { version: '1.3.0' })).rejects.toThrow(
+      'Version 1.3.0 is not after the latest release v1.3.0'
+    );
+  });
+
+  it('should refuse to release without new commits', async () => {
+    jest.mocked(gitOps.getCommitMessagesAfter).mockResolvedValue([]);
+
+    await expect(service.planRelease(DEFAULT_RELEASE_SETTINGS)).rejects.toThrow('No commits to release since v1.3.0');
+  });
+
+  it('should write the version files that exist and the changelog entry', async () => {
+    const plan = await service.planRelease(DEFAULT_RELEASE_SETTINGS);
+
+    const files = await service.applyRelease(plan, DEFAULT_RELEASE_SETTINGS, '2026-10-19');
+
+    expect(files).toEqual(['package.json', 'CHANGELOG.md']);
+    expect(await fs.readFile(path.join(tempDir, 'package.json'), 'utf-8')).toBe(
+      '{\n    "name": "app",\n    "version": "1.4.0"\n}\n'
+    );
+    const changelog = await fs.readFile(path.join(tempDir, 'CHANGELOG.md'), 'utf-8');
+    expect(changelog).toContain('## [Unreleased]\n\n## [1.4.0] - 2026-10-19\n\n### Added\n- **ship**: publish releases');
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { StackService } from '../../src/services/stack-service';
+import { GitOperations } from '../../src/services/git-operations';
+import { GitHubIntegration } from '../../src/services/github-integration';
+import { SessionRepository } from '../../src/services/session-repository';
+import { WorkflowSession } from '../../src/models/workflow-session';
+
+const PARENT_TIP = 'a1b2c3d';
+const CHILD_TIP = 'e4f5a6b';
+
+describe('StackService', () => {
+  let tempDir: string;
+  let sessionRepo: SessionRepository;
+  let gitOps: GitOperations;
+  let github: Record<string, jest.Mock<(...args: any[]) => any>>;
+  let service: StackService;
+  let parent: WorkflowSession;
+  let child: WorkflowSession;
+
+  async function createSession(branchName: string, stackedOn?: WorkflowSession): Promise<WorkflowSession> {
+    const session = new WorkflowSession({
+      workflowType: 'launch',
+      branchName,
+      metadata: {
+        projectPath: tempDir,
+        ...(stackedOn && {
+          baseBranch: stackedOn.branchName,
+          parent: { sessionId: stackedOn.id, branch: stackedOn.branchName },
+        }),
+      },
+    });
+    session.transitionTo('BRANCH_READY');
+    session.transitionTo('CHANGES_COMMITTED');
+    session.transitionTo('PUSHED');
+    await sessionRepo.createSession(session);
+    return session;
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devsolo-stack-'));
+    sessionRepo = new SessionRepository(tempDir);
+    gitOps = new GitOperations();
+    github = { updatePullRequest: jest.fn(async () => true) };
+    service = new StackService(gitOps, sessionRepo, github as unknown as GitHubIntegration);
+
+    jest.spyOn(gitOps, 'getCurrentBranch').mockResolvedValue('main');
+    jest.spyOn(gitOps, 'getCommitHash').mockImplementation(async ref => (ref === 'feature/a' ? PARENT_TIP : CHILD_TIP));
+    jest.spyOn(gitOps, 'checkoutBranch').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'fetch').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'getCommitsBehind').mockResolvedValue(1);
+    jest.spyOn(gitOps, 'rebase').mockResolvedValue({ conflictedFiles: [] });
+    jest.spyOn(gitOps, 'abortRebase').mockResolvedValue(undefined);
+    jest.spyOn(gitOps, 'getBranchStatus').mockResolvedValue({ hasRemote: true } as any);
+    jest.spyOn(gitOps, 'push').mockResolvedValue(undefined);
+
+    parent = await createSession('feature/a');
+    child = await createSession('feature/b', parent);
+    child.metadata.pr = { number: 12 };
+    await sessionRepo.updateSession(child.id, child);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should only report a parent that has not merged yet', async () => {
+    expect((await service.getParent(child))?.id).toBe(parent.id);
+
+    parent.transitionTo('ABORTED');
+    await sessionRepo.updateSession(parent.id, parent);
+
+    expect(await service.getParent(child)).toBeNull();
+  });
+
+  it('should retarget, rebase --onto and force-push the children of a merged session', async () => {
+    const grandchild = await createSession('feature/c', child);
+
+    const results = await service.restackChildren(parent, 'ship_command');
+
+    expect(results).toEqual([
+      { branch: 'feature/b', base: 'main', status: 'rebased', pushed: true, prNumber: 12, prRetargeted: true },
+    ]);
+    expect(github['updatePullRequest']).toHaveBeenCalledWith(12, { base: 'main' });
+    expect(gitOps.rebase).toHaveBeenCalledWith('origin/main', PARENT_TIP);
+    expect(gitOps.push).toHaveBeenCalledWith('origin', 'feature/b', ['--force-with-lease']);
+    expect(gitOps.checkoutBranch).toHaveBeenLastCalledWith('main');
+
+    const restacked = (await sessionRepo.getSession(child.id))!;
+    expect(restacked.metadata.baseBranch).toBeUndefined();
+    expect(restacked.metadata.parent).toBeUndefined();
+    expect(restacked.metadata.restack).toBeUndefined();
+    expect(restacked.metadata.pr?.base).toBe('main');
+    expect(restacked.stateHistory.slice(-1)[0]?.metadata).toMatchObject({ rebased: true });
+
+    // Still stacked on feature/b, whose old commits it has to drop next time
+    const next = (await sessionRepo.getSession(grandchild.id))!;
+    expect(next.metadata.parent?.branch).toBe('feature/b');
+    expect(next.metadata.restack).toEqual({ from: 'feature/b', upstream: CHILD_TIP });
+  });
+
+  it('should abort a conflicting restack and leave it for the next sync', async () => {
+    jest.mocked(gitOps.rebase).mockResolvedValue({ conflictedFiles: ['src/run.ts'] });
+    jest.spyOn(gitOps, 'getConflictHunks').mockResolvedValue([]);
+
+    const [result] = await service.restackChildren(parent, 'ship_command');
+
+    expect(result).toMatchObject({ branch: 'feature/b', status: 'conflicts', pushed: false, prRetargeted: true });
+    expect(gitOps.abortRebase).toHaveBeenCalled();
+    expect(gitOps.push).not.toHaveBeenCalled();
+
+    const pending = (await sessionRepo.getSession(child.id))!;
+    expect(pending.currentState).toBe('CHANGES_COMMITTED');
+    expect(pending.metadata.restack).toEqual({ from: 'feature/a', upstream: PARENT_TIP });
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { WorkflowEngine } from '../../src/state-machines/workflow-engine';
+import { SessionRepository } from '../../src/services/session-repository';
+import { WorkflowSession } from '../../src/models/workflow-session';
+
+async function readAudit(basePath: string): Promise<any[]> {
+  const auditPath = path.join(basePath, 'audit');
+  const entries: any[] = [];
+  for (const month of await fs.readdir(auditPath)) {
+    for (const day of await fs.readdir(path.join(auditPath, month))) {
+      const lines = (await fs.readFile(path.join(auditPath, month, day), 'utf-8')).trim().split('\n');
+      entries.push(...lines.map(line => JSON.parse(line)));
+    }
+  }
+  return entries;
+}
+
+describe('WorkflowEngine', () => {
+  let engine: WorkflowEngine;
+
+  beforeEach(() => {
+    engine = new WorkflowEngine();
+  });
+
+  it('should walk the standard ship path and allow re-entering a state', async () => {
+    const session = new WorkflowSession({ workflowType: 'launch', branchName: 'feature/engine' });
+
+    for (const state of [
+      'BRANCH_READY', 'CHANGES_COMMITTED', 'CHANGES_COMMITTED', 'PUSHED', 'PR_CREATED',
+      'WAITING_APPROVAL', 'MERGING', 'CLEANUP', 'COMPLETE',
+    ] as const) {
+      expect((await engine.transition(session, state)).success).toBe(true);
+    }
+    expect(session.currentState).toBe('COMPLETE');
+    expect(session.stateHistory).toHaveLength(9);
+  });
+
+  it('should walk the hotfix ship path', async () => {
+    const session = new WorkflowSession({ workflowType: 'hotfix', branchName: 'hotfix/high-engine' });
+
+    for (const [state, facts] of [
+      ['HOTFIX_READY', { branchName: 'hotfix/high-engine', severity: 'high' }],
+      ['HOTFIX_COMMITTED', { commitMessage: 'fix: hotfix the engine' }],
+      ['HOTFIX_PUSHED', {}],
+      ['HOTFIX_PUSHED', {}],
+      ['HOTFIX_VALIDATED', { severity: 'high', testsPass: true, ciPassed: true, reviewApproved: true }],
+      ['HOTFIX_DEPLOYED', { deploymentSuccessful: true }],
+      ['HOTFIX_COMPLETE', {}],
+    ] as const) {
+      expect((await engine.transition(session, state, 'user_action', facts)).success).toBe(true);
+    }
+  });
+
+  it('should validate hotfix transitions against the facts they are given', async () => {
+    const session = new WorkflowSession({ workflowType: 'hotfix', branchName: 'hotfix/high-engine' });
+    await engine.transition(session, 'HOTFIX_READY', 'user_action', { branchName: 'hotfix/high-engine', severity: 'high' });
+
+    expect(await engine.validateTransition(session, 'HOTFIX_COMMITTED', { commitMessage: 'fix: engine' }))
+      .toBe('Commit message must mention "hotfix"');
+    const result = await engine.transition(session, 'HOTFIX_COMMITTED', 'user_action', { commitMessage: 'fix: engine' });
+
+    expect(result).toMatchObject({ success: false, error: 'Commit message must mention "hotfix"' });
+    expect(session.currentState).toBe('HOTFIX_READY');
+  });
+
+  it('should reject transitions the workflow does not allow, leaving the session unchanged', async () => {
+    const session = new WorkflowSession({ workflowType: 'launch', branchName: 'feature/engine' });
+
+    const result = await engine.transition(session, 'MERGING');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Invalid transition from INIT to MERGING');
+    expect(session.currentState).toBe('INIT');
+    expect(session.stateHistory).toHaveLength(0);
+    expect(() => session.transitionTo('MERGING')).toThrow('INIT -> MERGING is not allowed for launch workflow');
+  });
+
+  it('should reject a transition when a validation hook throws', async () => {
+    engine.setHook('launch', 'BRANCH_READY', 'validate', () => {
+      throw new Error('Branch protection not configured');
+    });
+    const launch = new WorkflowSession({ workflowType: 'launch', branchName: 'feature/engine' });
+    const ship = new WorkflowSession({ workflowType: 'ship', branchName: 'feature/shipped' });
+
+    expect((await engine.transition(launch, 'BRANCH_READY')).error).toBe('Branch protection not configured');
+    expect(launch.currentState).toBe('INIT');
+    expect((await engine.transition(ship, 'BRANCH_READY')).success).toBe(true);
+  });
+});
+
+describe('SessionRepository.transitionSession', () => {
+  let tempDir: string;
+  let repo: SessionRepository;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devsolo-engine-'));
+    repo = new SessionRepository(tempDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should save allowed transitions', async () => {
+    const session = new WorkflowSession({ workflowType: 'launch', branchName: 'feature/saved' });
+    await repo.createSession(session);
+
+    await repo.transitionSession(session, 'BRANCH_READY');
+
+    expect((await repo.getSession(session.id))?.currentState).toBe('BRANCH_READY');
+  });
+
+  it('should record rejected transitions in the audit log and throw', async () => {
+    const session = new WorkflowSession({ workflowType: 'launch', branchName: 'feature/rejected' });
+    await repo.createSession(session);
+
+    await expect(repo.transitionSession(session, 'COMPLETE', 'ship_command'))
+      .rejects.toThrow('feature/rejected: Invalid transition from INIT to COMPLETE');
+
+    expect((await repo.getSession(session.id))?.currentState).toBe('INIT');
+    const rejected = (await readAudit(tempDir)).filter(entry => entry.result === 'failure');
+    expect(rejected).toEqual([
+      expect.objectContaining({
+        sessionId: session.id,
+        action: 'state_transition',
+        details: { command: 'ship_command', stateTransition: { from: 'INIT', to: 'COMPLETE' } },
+        errorMessage: 'Invalid transition from INIT to COMPLETE',
+      }),
+    ]);
+  });
+
+  it('should record transitions a hotfix validator rejects in the audit log', async () => {
+    const session = new WorkflowSession({ workflowType: 'hotfix', branchName: 'hotfix/high-unreviewed' });
+    await repo.createSession(session);
+    await repo.transitionSession(session, 'HOTFIX_READY', 'user_action', {
+      branchName: 'hotfix/high-unreviewed', severity: 'high',
+    });
+    await repo.transitionSession(session, 'HOTFIX_COMMITTED', 'user_action', { commitMessage: 'hotfix: guard nulls' });
+    await repo.transitionSession(session, 'HOTFIX_PUSHED', 'ship_command');
+
+    await expect(repo.transitionSession(session, 'HOTFIX_VALIDATED', 'ship_command', {
+      severity: 'high', testsPass: true, ciPassed: true, reviewApproved: false,
+    })).rejects.toThrow('hotfix/high-unreviewed: Review approval required for non-critical hotfix');
+
+    expect((await repo.getSession(session.id))?.currentState).toBe('HOTFIX_PUSHED');
+    const rejected = (await readAudit(tempDir)).filter(entry => entry.result === 'failure');
+    expect(rejected).toEqual([
+      expect.objectContaining({
+        sessionId: session.id,
+        details: { command: 'ship_command', stateTransition: { from: 'HOTFIX_PUSHED', to: 'HOTFIX_VALIDATED' } },
+        errorMessage: 'Review approval required for non-critical hotfix',
+      }),
+    ]);
+  });
+});